@@ -1,6 +1,6 @@
 import * as path from 'path';
-import { ExtensionContext } from 'vscode';
-import { LanguageClient, LanguageClientOptions, ServerOptions, TransportKind } from 'vscode-languageclient/node';
+import { commands, ExtensionContext, window } from 'vscode';
+import { ExecuteCommandRequest, LanguageClient, LanguageClientOptions, ServerOptions, TransportKind } from 'vscode-languageclient/node';
 
 let client: LanguageClient;
 
@@ -39,6 +39,17 @@ export function activate(context: ExtensionContext) {
   );
 
   client.start();
+
+  context.subscriptions.push(commands.registerCommand('myAjaxLsp.generateApiClient', async () => {
+    try {
+      const result: { outputDir: string, files: string[] } = await client.sendRequest(ExecuteCommandRequest.type, {
+        command: 'myAjaxLsp.server.generateApiClient'
+      });
+      window.showInformationMessage(`Сгенерированы файлы ${result.files.join(', ')} в ${result.outputDir}`);
+    } catch (error) {
+      window.showErrorMessage(`Не удалось сгенерировать клиент API: ${(error as Error).message}`);
+    }
+  }));
 }
 
 export function deactivate(): Thenable<void> | undefined {
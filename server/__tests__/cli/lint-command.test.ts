@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ExitCode, parseArguments, runLint } from '../../src/cli/lintCommand';
+
+const spec = `
+openapi: 3.0.0
+paths:
+  /api/users:
+    post:
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema:
+              type: object
+              required: [email]
+              properties:
+                email: { type: string }
+`;
+
+describe('ajax-linter CLI', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ajax-linter-'));
+    fs.writeFileSync(path.join(projectDir, 'api.yaml'), spec);
+    fs.mkdirSync(path.join(projectDir, 'src'));
+    fs.mkdirSync(path.join(projectDir, 'node_modules'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  function run(args: string[]) {
+    const output = { log: jest.fn(), error: jest.fn() };
+    return runLint(args, output, projectDir).then(exitCode => ({
+      exitCode,
+      log: output.log.mock.calls.map(call => call[0]).join('\n'),
+      error: output.error.mock.calls.map(call => call[0]).join('\n')
+    }));
+  }
+
+  test('should parse options and patterns', () => {
+    expect(parseArguments(['--spec=api.yaml', '-p', 'app', '--rule', 'type-mismatch=error', 'src/**/*.js', 'lib/*.ts'])).toEqual({
+      specPaths: ['api.yaml'],
+      projectPath: 'app',
+      format: 'stylish',
+      rules: { 'type-mismatch': 'error' },
+      patterns: ['src/**/*.js', 'lib/*.ts'],
+      help: false
+    });
+    expect(() => parseArguments(['--spec'])).toThrow('Option --spec requires a value');
+    expect(() => parseArguments(['--fix'])).toThrow('Unknown option --fix');
+    expect(() => parseArguments(['-f', 'xml'])).toThrow('Unknown format xml');
+    expect(() => parseArguments(['-r', 'unknown-url=fatal'])).toThrow('Invalid rule setting unknown-url=fatal');
+  });
+
+  test('should report errors in matching files and exit with a failing status', async () => {
+    fs.writeFileSync(path.join(projectDir, 'src', 'users.js'), `$.ajax({ url: '/api/users', type: 'POST', data: JSON.stringify({ emial: 'a' }) });\n`);
+    fs.writeFileSync(path.join(projectDir, 'src', 'ok.js'), `$.ajax({ url: '/api/users', type: 'POST', data: JSON.stringify({ email: 'a' }) });\n`);
+    fs.writeFileSync(path.join(projectDir, 'node_modules', 'lib.js'), `$.ajax({ url: '/api/users', type: 'POST', data: JSON.stringify({}) });\n`);
+
+    const result = await run(['--spec', 'api.yaml', 'src/**/*.js']);
+
+    expect(result.exitCode).toBe(ExitCode.LintErrors);
+    expect(result.log).toContain('src/users.js\n  1:');
+    expect(result.log).toContain("Отсутствует обязательное поле 'email'");
+    expect(result.log).not.toContain('ok.js');
+    expect(result.log).not.toContain('lib.js');
+    expect(result.log).toMatch(/problems? \([1-9]\d* errors?, \d+ warnings?\) in 2 files$/);
+  });
+
+  test('should apply rule severities from the command line', async () => {
+    fs.writeFileSync(path.join(projectDir, 'src', 'users.js'), `$.post('/api/users', { email: 'a', emial: 'a' });\n`);
+
+    const result = await run(['--spec', 'api.yaml', '--rule', 'unknown-field=warning', '-f', 'compact']);
+
+    expect(result.exitCode).toBe(ExitCode.Success);
+    expect(result.log).toContain("src/users.js:1:36: warning Неизвестное поле: 'emial'");
+    expect(result.log).toContain('[unknown-field]');
+  });
+
+  test('should exit successfully when there are no errors', async () => {
+    fs.writeFileSync(path.join(projectDir, 'src', 'ok.ts'), `fetch('/api/users', { method: 'POST', body: JSON.stringify({ email: 'a' }) });\n`);
+    // Собранный код не проверяется, иначе каждая находка повторялась бы дважды
+    fs.mkdirSync(path.join(projectDir, 'dist'));
+    fs.writeFileSync(path.join(projectDir, 'dist', 'bundle.js'), `$.post('/api/users', { emial: 'a' });\n`);
+
+    const result = await run(['-s', 'api.yaml']);
+
+    expect(result).toEqual({ exitCode: ExitCode.Success, log: '1 file checked, no problems found', error: '' });
+  });
+
+  test('should write the report in the requested format to a file', async () => {
+    fs.writeFileSync(path.join(projectDir, 'src', 'users.js'), `$.post('/api/users', { emial: 'a' });\n`);
+
+    const result = await run(['--spec', 'api.yaml', '--format', 'sarif', '-o', 'reports/lint.sarif']);
+
+    expect(result.exitCode).toBe(ExitCode.LintErrors);
+    expect(result.log).toBe('');
+    const sarif = JSON.parse(fs.readFileSync(path.join(projectDir, 'reports', 'lint.sarif'), 'utf8'));
+    expect(sarif.runs[0].results[0].locations[0].physicalLocation.artifactLocation.uri).toBe('src/users.js');
+  });
+
+  test('should fail when the spec cannot be loaded', async () => {
+    const missing = await run(['src/*.js']);
+    expect(missing.exitCode).toBe(ExitCode.Fatal);
+    expect(missing.error).toContain('Missing required option --spec');
+
+    fs.writeFileSync(path.join(projectDir, 'broken.json'), '{ "openapi": ');
+    const broken = await run(['--spec', 'broken.json']);
+    expect(broken.exitCode).toBe(ExitCode.Fatal);
+    expect(broken.error).toContain(`Failed to load spec ${path.join(projectDir, 'broken.json')}`);
+  });
+});
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { generateApiClient, GeneratedFile } from '../../src/codegen/clientGenerator';
+import { SwaggerPaths, SwaggerSchema } from '../../src/types/swagger';
+
+const category: SwaggerSchema = {
+  $ref: '#/components/schemas/Category',
+  type: 'object',
+  required: ['name'],
+  properties: { name: { type: 'string' } }
+};
+category.properties!.parent = category;
+
+const user: SwaggerSchema = {
+  $ref: '#/components/schemas/User',
+  type: 'object',
+  description: 'Registered user',
+  required: ['id', 'email'],
+  properties: {
+    id: { type: 'integer' },
+    email: { type: 'string', description: 'User email' },
+    role: { type: 'string', enum: ['admin', 'user'] },
+    'display-name': { type: 'string', nullable: true },
+    category
+  }
+};
+
+const paths: SwaggerPaths = {
+  '/api/users/{userId}': {
+    get: {
+      operationId: 'get-user',
+      description: 'Get user by ID',
+      parameters: [
+        { in: 'path', name: 'userId', required: true, schema: { type: 'integer' } },
+        { in: 'query', name: 'fields', schema: { type: 'array', items: { type: 'string' } } },
+        { in: 'header', name: 'X-Trace-Id', schema: { type: 'string' } }
+      ],
+      responses: { '200': { schema: user }, '404': { description: 'Not found' } }
+    },
+    put: {
+      parameters: [
+        { in: 'path', name: 'userId', required: true, schema: { type: 'integer' } },
+        { in: 'body', name: 'user', required: true, schema: user }
+      ]
+    }
+  },
+  '/api/users': {
+    get: {
+      parameters: [{ in: 'query', name: 'page', schema: { type: 'integer' } }],
+      responses: { '200': { schema: { type: 'array', items: { oneOf: [user, { type: 'string' }] } } } }
+    }
+  }
+};
+
+describe('clientGenerator', () => {
+  function getFile(files: GeneratedFile[], fileName: string): string {
+    return files.find(file => file.fileName === fileName)!.content;
+  }
+
+  test('should declare interfaces for named schemas and operation types', () => {
+    const types = getFile(generateApiClient(paths, 'fetch'), 'api.d.ts');
+
+    expect(types).toContain([
+      '/** Registered user */',
+      'export interface User {',
+      '  id: number;',
+      '  /** User email */',
+      '  email: string;',
+      '  role?: "admin" | "user";',
+      '  "display-name"?: string | null;',
+      '  category?: Category;',
+      '}'
+    ].join('\n'));
+    expect(types).toContain('export interface Category {\n  name: string;\n  parent?: Category;\n}');
+    expect(types).toContain('export interface GetUserParams {\n  userId: number;\n  fields?: string[];\n  "X-Trace-Id"?: string;\n}');
+    expect(types).toContain('export type GetUserResponse = User;');
+    expect(types).toContain('export type PutApiUsersByUserIdBody = User;');
+    expect(types).toContain('export type GetApiUsersResponse = Array<User | string>;');
+    expect(types.match(/export interface User /g)).toHaveLength(1);
+  });
+
+  test('should declare named schemas that no operation references', () => {
+    const error: SwaggerSchema = {
+      $ref: '#/components/schemas/Error',
+      type: 'object',
+      properties: { message: { type: 'string' } }
+    };
+    const types = getFile(generateApiClient(paths, 'fetch', { Error: error, User: user }), 'api.d.ts');
+
+    expect(types).toContain('export interface Error {\n  message?: string;\n}');
+    expect(types.match(/export interface User /g)).toHaveLength(1);
+    expect(types.indexOf('export interface Error ')).toBeLessThan(types.indexOf('export type GetUserResponse'));
+  });
+
+  test('should generate one function per operation', () => {
+    const client = getFile(generateApiClient(paths, 'fetch'), 'apiClient.ts');
+
+    expect(client).toContain([
+      '/**',
+      ' * Get user by ID',
+      ' * GET /api/users/{userId}',
+      ' */',
+      'export function getUser(params: Api.GetUserParams): Promise<Api.GetUserResponse> {',
+      '  return request<Api.GetUserResponse>(\'GET\', `/api/users/${encodeURIComponent(String(params.userId))}`, ' +
+        '{ query: { fields: params.fields }, headers: { "X-Trace-Id": params["X-Trace-Id"] } });',
+      '}'
+    ].join('\n'));
+    expect(client).toContain('export function putApiUsersByUserId(params: Api.PutApiUsersByUserIdParams, body: Api.PutApiUsersByUserIdBody): Promise<void> {');
+    expect(client).toContain('export function getApiUsers(params: Api.GetApiUsersParams = {}): Promise<Api.GetApiUsersResponse> {');
+  });
+
+  test.each(['fetch', 'jquery'] as const)('should generate %s client that type-checks', clientKind => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-client-'));
+    try {
+      const files = generateApiClient(paths, clientKind);
+      for (const file of files) {
+        fs.writeFileSync(path.join(outputDir, file.fileName), file.content);
+      }
+      fs.writeFileSync(path.join(outputDir, 'usage.ts'), [
+        'import { getUser, putApiUsersByUserId } from \'./apiClient\';',
+        'getUser({ userId: 1 }).then(user => user.email.toUpperCase());',
+        '// @ts-expect-error userId is a number',
+        'putApiUsersByUserId({ userId: \'1\' }, { id: 1, email: \'a@b.c\' });'
+      ].join('\n'));
+
+      const program = ts.createProgram([path.join(outputDir, 'usage.ts')], {
+        strict: true,
+        noEmit: true,
+        target: ts.ScriptTarget.ES2020,
+        lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+        types: []
+      });
+      const messages = ts.getPreEmitDiagnostics(program)
+        .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+      expect(messages).toEqual([]);
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+});
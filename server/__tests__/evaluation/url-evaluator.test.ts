@@ -0,0 +1,66 @@
+import * as ts from 'typescript';
+
+import { evaluateUrl, getUrlSourceRange } from '../../src/evaluation/urlEvaluator';
+import { getMatchingSwaggerUrl } from '../../src/utils/utils';
+import { SwaggerPaths } from '../../src/types/swagger';
+
+describe('urlEvaluator', () => {
+  // Вычисляет аргумент последнего вызова `f(...)` в коде
+  function evaluate(code: string) {
+    const sourceFile = ts.createSourceFile('test.ts', code, ts.ScriptTarget.Latest, true);
+    let url: ts.Expression | undefined;
+    ts.forEachChild(sourceFile, function visit(node) {
+      if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'f') {
+        url = node.arguments[0];
+      }
+      ts.forEachChild(node, visit);
+    });
+    return evaluateUrl(url!);
+  }
+
+  test('should fold template literals and concatenation into wildcard patterns', () => {
+    expect(evaluate('f(`/api/users/${id}/orders`);')?.text).toBe('/api/users/*/orders');
+    expect(evaluate(`f('/api/users/' + user.id + '?page=' + 1);`)?.text).toBe('/api/users/*?page=1');
+    expect(evaluate('f(baseUrl + "/users");')).toBeUndefined();
+  });
+
+  test('should follow constant identifiers and object members', () => {
+    const code = `
+      const API_ROOT = '/api';
+      const API = { USERS: API_ROOT + '/users', nested: { ITEM: \`\${API_ROOT}/items/\${0}\` } } as const;
+      let mutable = '/mutable';
+      mutable += '/changed';
+      function load(id) {
+        f(API.USERS + '/' + id);
+        f(API['nested'].ITEM);
+        f(mutable);
+      }
+    `;
+    expect(evaluate(code.replace(/f\(API\['nested'\]\.ITEM\);|f\(mutable\);/g, ''))?.text).toBe('/api/users/*');
+    expect(evaluate(code.replace(/f\(mutable\);/, ''))?.text).toBe('/api/items/0');
+    expect(evaluate(code)).toBeUndefined();
+  });
+
+  test('should map url ranges back to literal source', () => {
+    const code = 'f(`/api/users/${id}/abc`);';
+    const url = evaluate(code)!;
+
+    const abc = url.text.indexOf('abc');
+    const range = getUrlSourceRange(url, abc, abc + 3);
+    expect(code.slice(range.start, range.end)).toBe('abc');
+
+    const wildcard = getUrlSourceRange(url, url.text.indexOf('*'), url.text.indexOf('*') + 1);
+    expect(code.slice(wildcard.start, wildcard.end)).toBe('id');
+  });
+
+  test('should match wildcard patterns against spec templates', () => {
+    const paths: SwaggerPaths = { '/api/users': {}, '/api/users/{userId}': {}, '/api/users/{userId}/orders': {} };
+
+    expect(getMatchingSwaggerUrl('/api/users/*', paths)).toBe('/api/users/{userId}');
+    expect(getMatchingSwaggerUrl('/api/*', paths)).toBe('/api/users');
+    expect(getMatchingSwaggerUrl('/api/users/*/orders', paths)).toBe('/api/users/{userId}/orders');
+    expect(getMatchingSwaggerUrl('/api/*/orders', { '/api/users/{userId}/orders': {} })).toBe('/api/users/{userId}/orders');
+    expect(getMatchingSwaggerUrl('/api/user*', paths)).toBe('/api/users');
+    expect(getMatchingSwaggerUrl('/api/accounts/*', paths)).toBeUndefined();
+  });
+});
@@ -0,0 +1,58 @@
+import * as ts from 'typescript';
+
+import {
+  getObjectProperties,
+  getObjectPropertyNames,
+  resolveExpression,
+  resolveObjectLiteral
+} from '../../src/evaluation/valueResolver';
+
+describe('valueResolver', () => {
+  // Возвращает аргумент последнего вызова `f(...)` в коде
+  function findArgument(code: string): ts.Expression {
+    const sourceFile = ts.createSourceFile('test.ts', code, ts.ScriptTarget.Latest, true);
+    let argument: ts.Expression | undefined;
+    ts.forEachChild(sourceFile, function visit(node) {
+      if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'f') {
+        argument = node.arguments[0];
+      }
+      ts.forEachChild(node, visit);
+    });
+    return argument!;
+  }
+
+  test('should follow identifiers to their initializers', () => {
+    const resolved = resolveExpression(findArgument(`
+      const payload = { name: 'John' };
+      const alias = payload;
+      f(alias);
+    `));
+    expect(resolved.getText()).toBe("{ name: 'John' }");
+
+    expect(resolveObjectLiteral(findArgument('function g(payload) { f(payload); }'))).toBeUndefined();
+    expect(resolveObjectLiteral(findArgument('let payload = {}; payload = load(); f(payload);'))).toBeUndefined();
+  });
+
+  test('should merge spread assignments with later properties winning', () => {
+    const object = resolveObjectLiteral(findArgument(`
+      const defaults = { type: 'GET', headers: {} };
+      f({ ...defaults, url: '/api/users', type: 'POST' });
+    `))!;
+
+    expect(getObjectPropertyNames(object)).toEqual(['headers', 'url', 'type']);
+    const { properties, complete } = getObjectProperties(object);
+    expect(complete).toBe(true);
+    expect(properties[2].getText()).toBe("type: 'POST'");
+  });
+
+  test('should mark objects with unresolved spreads as incomplete', () => {
+    const object = resolveObjectLiteral(findArgument(`
+      const a = { ...b };
+      const b = { ...a };
+      f({ ...options(), ...a, url: '/api/users' });
+    `))!;
+
+    expect(getObjectProperties(object)).toMatchObject({ complete: false });
+    expect(getObjectPropertyNames(object)).toEqual(['url']);
+  });
+});
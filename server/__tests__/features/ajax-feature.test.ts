@@ -3,9 +3,12 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 import { CompletionItemKind, InsertTextFormat, DiagnosticSeverity } from 'vscode-languageserver/node';
 
 import { AjaxFeature } from '../../src/features/ajaxFeature';
+import { SpecRegistry } from '../../src/spec/specRegistry';
+import { mockSwagger } from '../../src/types/swagger';
 
 // Мок для утилит
 jest.mock('../src/utils/utils', () => ({
+  ...jest.requireActual('../src/utils/utils'),
   getMatchingSwaggerUrl: (url: string) => {
     if (url === '/api/users') return '/api/users';
     if (url === '/api/products') return '/api/products';
@@ -44,7 +47,8 @@ jest.mock('../src/types/swagger', () => ({
               properties: {
                 name: { type: 'string', example: 'John Doe' },
                 email: { type: 'string', example: 'john@example.com' },
-                age: { type: 'integer' }
+                age: { type: 'integer' },
+                role: { type: 'string', enum: ['admin', 'user'] }
               }
             }
           }
@@ -65,7 +69,7 @@ describe('AjaxFeature', () => {
   let document: TextDocument;
 
   beforeEach(() => {
-    feature = new AjaxFeature();
+    feature = new AjaxFeature(new SpecRegistry(mockSwagger));
   });
 
   // Вспомогательная функция для создания документа и анализа кода
@@ -157,6 +161,52 @@ describe('AjaxFeature', () => {
     });
   });
 
+  describe('Enum tests', () => {
+    test('should provide enum value completions inside data field value', () => {
+      const code = `$.ajax({
+        url: "/api/users",
+        type: "POST",
+        data: {
+          role: ""
+        }
+      });`;
+
+      const sourceFile = setupTest(code);
+      const ajaxCall = findAjaxCallExpression(sourceFile);
+
+      const completions = feature.provideCompletionItems(
+        ajaxCall!,
+        { textDocument: { uri: 'file:///test.ts' }, position: { line: 4, character: 17 } },
+        document
+      );
+
+      expect(completions.map(item => item.label)).toEqual(['"admin"', '"user"']);
+      expect(completions[0].textEdit).toMatchObject({ newText: 'admin' });
+    });
+
+    test('should report literal outside of enum', () => {
+      const code = `$.ajax({
+        url: "/api/users",
+        type: "POST",
+        data: {
+          name: "John",
+          email: "john@example.com",
+          role: "guest"
+        }
+      });`;
+
+      const sourceFile = setupTest(code);
+      const ajaxCall = findAjaxCallExpression(sourceFile);
+      const diagnostics: any[] = [];
+
+      feature.provideDiagnostics(ajaxCall!, document, diagnostics);
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].message).toContain('Недопустимое значение "guest"');
+      expect(diagnostics[0].message).toContain('"admin", "user"');
+    });
+  });
+
   describe('Diagnostic tests', () => {
     test('should report error for invalid URL', () => {
       // Setup
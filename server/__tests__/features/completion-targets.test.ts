@@ -0,0 +1,33 @@
+import * as ts from 'typescript';
+
+import { SpecRegistry } from '../../src/spec/specRegistry';
+import { mockSwagger } from '../../src/types/swagger';
+import { getNodesAtOffset } from '../../src/utils/utils';
+import { createFeatureManager } from '../../src/workspace/linter';
+
+describe('FeatureManager completion targets', () => {
+  const featureManager = createFeatureManager(new SpecRegistry(mockSwagger));
+  const code = [
+    `$.ajax({ url: '/api/users', type: 'GET' });`,
+    `$.ajax({ url: '/api/products', success: function () { fetch('/api/us'); } });`,
+    `const total = 1;`
+  ].join('\n');
+  const sourceFile = ts.createSourceFile('test.js', code, ts.ScriptTarget.Latest, true);
+  const targetsAt = (text: string) => featureManager
+    .getCompletionTargets(sourceFile, code.indexOf(text) + text.length)
+    .map(target => target.node.getText().slice(0, 20));
+
+  test('should find the innermost node at the cursor', () => {
+    const nodes = getNodesAtOffset(sourceFile, code.indexOf('/api/products'));
+
+    expect(nodes[0]).toBe(sourceFile);
+    expect(nodes[nodes.length - 1].kind).toBe(ts.SyntaxKind.StringLiteral);
+    expect(nodes[nodes.length - 1].getText()).toBe(`'/api/products'`);
+  });
+
+  test('should dispatch only to calls that contain the cursor, innermost first', () => {
+    expect(targetsAt(`type: 'G`)).toEqual([`$.ajax({ url: '/api/`]);
+    expect(targetsAt(`fetch('/api/u`)).toEqual([`fetch('/api/us')`, `$.ajax({ url: '/api/`]);
+    expect(targetsAt('const to')).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+import * as ts from 'typescript';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostic } from 'vscode-languageserver/node';
+
+import { AjaxFeature } from '../../src/features/ajaxFeature';
+import { AxiosFeature } from '../../src/features/axiosFeature';
+import { FetchFeature } from '../../src/features/fetchFeature';
+import { JQueryShorthandFeature } from '../../src/features/jqueryShorthandFeature';
+import { HttpRequestFeature } from '../../src/features/requestFeature';
+import { SpecRegistry } from '../../src/spec/specRegistry';
+import { SwaggerPaths } from '../../src/types/swagger';
+
+const paths: SwaggerPaths = {
+  '/api/users': {
+    get: {
+      description: 'Get users',
+      parameters: [
+        { in: 'query', name: 'page', required: true, schema: { type: 'integer' } },
+        { in: 'header', name: 'X-Tenant', schema: { type: 'string' } },
+        { in: 'cookie', name: 'session', required: true, schema: { type: 'string' } },
+        { in: 'cookie', name: 'theme', schema: { type: 'string', enum: ['light', 'dark'] } }
+      ]
+    },
+    post: {
+      description: 'Create user',
+      parameters: [
+        {
+          in: 'body',
+          name: 'body',
+          schema: {
+            type: 'object',
+            required: ['name', 'email'],
+            properties: {
+              name: { type: 'string' },
+              email: { type: 'string' }
+            }
+          }
+        }
+      ]
+    }
+  }
+};
+
+describe('HTTP client features', () => {
+  const registry = new SpecRegistry(paths);
+
+  function collectDiagnostics(feature: HttpRequestFeature, code: string): Diagnostic[] {
+    const document = TextDocument.create('file:///test.ts', 'typescript', 1, code);
+    const sourceFile = ts.createSourceFile('test.ts', code, ts.ScriptTarget.Latest, true);
+    const diagnostics: Diagnostic[] = [];
+
+    function visit(node: ts.Node) {
+      if (feature.matches(node)) {
+        feature.provideDiagnostics(node, document, diagnostics);
+      }
+      ts.forEachChild(node, visit);
+    }
+
+    visit(sourceFile);
+    return diagnostics;
+  }
+
+  test('should validate fetch body passed through JSON.stringify', () => {
+    const diagnostics = collectDiagnostics(new FetchFeature(registry), `
+      fetch('/api/users', { method: 'POST', body: JSON.stringify({ name: 'John', nick: 'j' }) });
+    `);
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      "Отсутствует обязательное поле 'email' в body",
+      "Неизвестное поле: 'nick' в body"
+    ]);
+  });
+
+  test('should check fetch calls without a method as GET', () => {
+    const feature = new FetchFeature(registry);
+
+    expect(collectDiagnostics(feature, `fetch('/api/users?unknown=1');`).map(diagnostic => diagnostic.message)).toEqual([
+      "Отсутствует обязательный параметр запроса 'page'"
+    ]);
+    expect(collectDiagnostics(feature, `fetch('/api/users?page=1', { headers: { 'X-Tenant': 'acme' } });`)).toEqual([]);
+    expect(collectDiagnostics(feature, `fetch('/api/users', { method: 'DELETE' });`)[0].message)
+      .toBe("Недопустимый HTTP метод 'DELETE' для URL: /api/users");
+  });
+
+  test('should validate axios shorthand and config calls', () => {
+    const feature = new AxiosFeature(registry);
+
+    expect(collectDiagnostics(feature, `axios.post('/api/users', { name: 'John', email: 'j@example.com' });`)).toEqual([]);
+    expect(collectDiagnostics(feature, `axios.post('/api/users', { name: 'John' });`)[0].message)
+      .toBe("Отсутствует обязательное поле 'email' в data");
+    expect(collectDiagnostics(feature, `axios.delete('/api/users');`)[0].message)
+      .toBe("Недопустимый HTTP метод 'DELETE' для URL: /api/users");
+    expect(collectDiagnostics(feature, `axios({ url: '/api/orders', method: 'get' });`)[0].message)
+      .toBe('Неизвестный URL: /api/orders');
+    expect(collectDiagnostics(feature, `axios.get('/api/users', { params: { page: 1 } });`)).toEqual([]);
+    expect(collectDiagnostics(feature, `axios.get('/api/users');`)[0].message)
+      .toBe("Отсутствует обязательный параметр запроса 'page'");
+  });
+
+  test('should check axios calls without a method as GET and skip methods the spec cannot describe', () => {
+    const feature = new AxiosFeature(registry);
+    const messages = (code: string) => collectDiagnostics(feature, code).map(diagnostic => diagnostic.message);
+
+    expect(messages(`axios('/api/users');`)).toEqual(["Отсутствует обязательный параметр запроса 'page'"]);
+    expect(messages(`axios({ url: '/api/users', params: { page: 1 } });`)).toEqual([]);
+    expect(messages(`axios.request({ url: '/api/users' });`)).toEqual(["Отсутствует обязательный параметр запроса 'page'"]);
+    expect(messages(`axios('/api/users', { method: 'DELETE' });`)).toEqual(["Недопустимый HTTP метод 'DELETE' для URL: /api/users"]);
+    expect(messages(`axios.head('/api/users'); axios.options('/api/users');`)).toEqual([]);
+    expect(messages(`axios.head('/api/orders');`)).toEqual(['Неизвестный URL: /api/orders']);
+  });
+
+  test('should validate jQuery shorthand calls', () => {
+    const feature = new JQueryShorthandFeature(registry);
+
+    expect(collectDiagnostics(feature, `$.post('/api/users', { name: 'John' }, function () {});`)[0].message)
+      .toBe("Отсутствует обязательное поле 'email' в data");
+    expect(collectDiagnostics(feature, `$.getJSON('/api/users', { page: 1 }, function (users) {});`)).toEqual([]);
+    expect(collectDiagnostics(feature, `$.getJSON('/api/users?page=x', function (users) {});`)[0].message)
+      .toBe("Ожидается тип 'integer' для параметра запроса 'page', получено 'x'");
+    expect(collectDiagnostics(feature, `jQuery.get('/api/orders');`)[0].message).toBe('Неизвестный URL: /api/orders');
+  });
+
+  test('should validate settings and data passed through variables and spreads', () => {
+    const code = `
+      const defaults = { type: 'POST', headers: {} };
+      const payload = { name: 'John', nick: 'j' };
+      const options = { ...defaults, url: '/api/users', data: payload };
+      $.ajax(options);
+      axios.post('/api/users', payload);
+      axios.get('/api/users', { ...defaults, params: { page: 'x' } });
+    `;
+
+    const ajaxDiagnostics = collectDiagnostics(new AjaxFeature(registry), code);
+    expect(ajaxDiagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      "Отсутствует обязательное поле 'email' в data",
+      "Неизвестное поле: 'nick' в data"
+    ]);
+    // Диагностики указывают на литерал в месте объявления
+    expect(ajaxDiagnostics[1].range.start).toEqual({ line: 2, character: code.split('\n')[2].indexOf('nick') });
+
+    expect(collectDiagnostics(new AxiosFeature(registry), code).map(diagnostic => diagnostic.message)).toEqual([
+      "Отсутствует обязательное поле 'email' в data",
+      "Неизвестное поле: 'nick' в data",
+      "Ожидается тип 'integer' для параметра запроса 'page', получено 'x'"
+    ]);
+  });
+
+  test('should complete header names from the spec', () => {
+    const code = `$.ajax({ url: '/api/users', type: 'GET', data: { page: 1 }, headers: {  } });`;
+    const document = TextDocument.create('file:///test.ts', 'typescript', 1, code);
+    const sourceFile = ts.createSourceFile('test.ts', code, ts.ScriptTarget.Latest, true);
+    const call = (sourceFile.statements[0] as ts.ExpressionStatement).expression;
+    const position = document.positionAt(code.indexOf('headers: {') + 11);
+
+    const completions = new AjaxFeature(registry).provideCompletionItems(call, { textDocument: { uri: document.uri }, position }, document);
+
+    expect(completions.map(item => item.insertText)).toEqual(['"X-Tenant": "${1}"']);
+  });
+
+  test('should check and complete cookies of an explicit Cookie header', () => {
+    const feature = new AjaxFeature(registry);
+    const messages = (headers: string) => collectDiagnostics(feature, `$.ajax({ url: '/api/users?page=1', type: 'GET', headers: ${headers} });`)
+      .map(diagnostic => diagnostic.message);
+
+    expect(messages(`{ 'X-Tenant': 'acme' }`)).toEqual([]);
+    expect(messages(`{ Cookie: 'session=abc; theme=dark' }`)).toEqual([]);
+    expect(messages(`{ cookie: 'theme=blue' }`)).toEqual([
+      'Недопустимое значение "blue" для cookie \'theme\'. Допустимые значения: "light", "dark"',
+      "Отсутствует обязательный cookie 'session'"
+    ]);
+
+    const code = `$.ajax({ url: '/api/users', type: 'GET', data: { page: 1 }, headers: { Cookie: 'theme=dark; ' } });`;
+    const document = TextDocument.create('file:///test.ts', 'typescript', 1, code);
+    const sourceFile = ts.createSourceFile('test.ts', code, ts.ScriptTarget.Latest, true);
+    const call = (sourceFile.statements[0] as ts.ExpressionStatement).expression;
+    const position = document.positionAt(code.indexOf('dark; ') + 6);
+
+    const completions = feature.provideCompletionItems(call, { textDocument: { uri: document.uri }, position }, document);
+
+    expect(completions.map(item => item.insertText)).toEqual(['session=']);
+  });
+});
@@ -0,0 +1,121 @@
+import * as ts from 'typescript';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CodeAction, Diagnostic } from 'vscode-languageserver/node';
+
+import { AjaxFeature } from '../../src/features/ajaxFeature';
+import { SpecRegistry } from '../../src/spec/specRegistry';
+import { SwaggerPaths } from '../../src/types/swagger';
+import { TypeScriptService } from '../../src/workspace/typeScriptService';
+
+const paths: SwaggerPaths = {
+  '/api/users': {
+    get: {},
+    post: {
+      parameters: [
+        {
+          in: 'body',
+          name: 'body',
+          schema: {
+            type: 'object',
+            required: ['name', 'email'],
+            properties: {
+              name: { type: 'string', example: 'John' },
+              email: { type: 'string', example: 'john@example.com' },
+              age: { type: 'integer' }
+            }
+          }
+        }
+      ]
+    }
+  },
+  '/api/products': { get: {} }
+};
+
+describe('HttpRequestFeature code actions', () => {
+  const feature = new AjaxFeature(new SpecRegistry(paths));
+
+  function getActions(code: string): { actions: CodeAction[], apply: (action: CodeAction) => string } {
+    const document = TextDocument.create('file:///test.js', 'javascript', 1, code);
+    const sourceFile = ts.createSourceFile('test.js', code, ts.ScriptTarget.Latest, true);
+    const call = (sourceFile.statements[0] as ts.ExpressionStatement).expression;
+
+    const diagnostics: Diagnostic[] = [];
+    feature.provideDiagnostics(call, document, diagnostics);
+    const range = { start: document.positionAt(0), end: document.positionAt(code.length) };
+    const actions = feature.provideCodeActions(call, { textDocument: { uri: document.uri }, range, context: { diagnostics } }, document);
+
+    return {
+      actions,
+      apply: action => TextDocument.applyEdits(document, action.edit!.changes![document.uri])
+    };
+  }
+
+  test('should insert missing required fields one by one and all at once', () => {
+    const code = `$.ajax({ url: "/api/users", type: "POST", data: { age: 1 } });`;
+    const { actions, apply } = getActions(code);
+
+    expect(actions.map(action => action.title)).toEqual([
+      "Добавить обязательное поле 'name'",
+      "Добавить обязательное поле 'email'",
+      'Заполнить все обязательные поля'
+    ]);
+    expect(actions[0].diagnostics).toHaveLength(1);
+    expect(apply(actions[2])).toBe(`$.ajax({ url: "/api/users", type: "POST", data: { age: 1, name: "John", email: "john@example.com" } });`);
+  });
+
+  test('should rename or remove unknown field', () => {
+    const code = `$.ajax({
+  url: "/api/users",
+  type: "POST",
+  data: {
+    name: "John",
+    emial: "john@example.com"
+  }
+});`;
+    const { actions, apply } = getActions(code);
+
+    expect(actions.map(action => action.title)).toEqual([
+      "Добавить обязательное поле 'email'",
+      "Заменить на 'email'",
+      "Удалить поле 'emial'"
+    ]);
+    expect(actions[1].isPreferred).toBe(true);
+    expect(apply(actions[1])).toContain('    email: "john@example.com"\n');
+    expect(apply(actions[2])).toContain('    name: "John"\n  }');
+  });
+
+  test('should fix bodies checked by type like their diagnostics', () => {
+    const code = `declare const extra: { name: string, emial: string };
+declare function getName(): string | undefined;
+$.ajax({ url: "/api/users", type: "POST", data: extra });
+$.ajax({ url: "/api/users", type: "POST", data: { age: 1, name: getName() } });`;
+    const document = TextDocument.create('file:///workspace/test.ts', 'typescript', 1, code);
+    const service = new TypeScriptService({ all: () => [document] });
+    const typedFeature = new AjaxFeature(new SpecRegistry(paths), service);
+    const sourceFile = service.getSourceFile(document.uri)!;
+
+    const results = sourceFile.statements.slice(2).map(statement => {
+      const call = (statement as ts.ExpressionStatement).expression;
+      const diagnostics: Diagnostic[] = [];
+      typedFeature.provideDiagnostics(call, document, diagnostics);
+      const range = { start: document.positionAt(call.getStart()), end: document.positionAt(call.getEnd()) };
+      return { diagnostics, actions: typedFeature.provideCodeActions(call, { textDocument: { uri: document.uri }, range, context: { diagnostics } }, document) };
+    });
+    service.dispose();
+
+    // Поля типа переменной в коде не записаны: ключ 'data' не переименовывается
+    expect(results[0].diagnostics.map(diagnostic => diagnostic.code)).toEqual(['missing-required-field', 'unknown-field']);
+    expect(results[0].actions).toEqual([]);
+    expect(results[1].actions.map(action => action.title)).toEqual(["Добавить обязательное поле 'email'"]);
+    expect(results[1].actions[0].diagnostics).toEqual([results[1].diagnostics.find(diagnostic => diagnostic.code === 'missing-required-field')]);
+  });
+
+  test('should offer allowed methods and nearest url', () => {
+    const methodFix = getActions(`$.ajax({ url: "/api/products", type: "POST" });`);
+    expect(methodFix.actions.map(action => action.title)).toEqual(["Заменить метод на 'GET'"]);
+    expect(methodFix.apply(methodFix.actions[0])).toBe(`$.ajax({ url: "/api/products", type: "GET" });`);
+
+    const urlFix = getActions(`$.ajax({ url: "/api/product", type: "GET" });`);
+    expect(urlFix.apply(urlFix.actions[0])).toBe(`$.ajax({ url: "/api/products", type: "GET" });`);
+  });
+});
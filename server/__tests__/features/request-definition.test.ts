@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { pathToFileURL } from 'url';
+import { Diagnostic } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { AjaxFeature } from '../../src/features/ajaxFeature';
+import { SpecRegistry } from '../../src/spec/specRegistry';
+
+const spec = `openapi: 3.0.0
+paths:
+  /api/users/{userId}:
+    get:
+      responses:
+        '200': { description: OK }
+    put:
+      requestBody:
+        content:
+          application/json:
+            schema:
+              type: object
+              properties:
+                email: { type: string }
+                address: { $ref: '#/components/schemas/Address' }
+components:
+  schemas:
+    Address:
+      type: object
+      properties:
+        city: { type: string }
+`;
+
+describe('HttpRequestFeature definition', () => {
+  let specDir: string;
+  let specPath: string;
+  const registry = new SpecRegistry();
+  const feature = new AjaxFeature(registry);
+  const code = `$.ajax({ url: '/api/users/42', type: 'PUT', data: { email: 'a@b.c', address: { city: 'Paris' } } });`;
+  const document = TextDocument.create('file:///test.js', 'javascript', 1, code);
+  const call = (ts.createSourceFile('test.js', code, ts.ScriptTarget.Latest, true).statements[0] as ts.ExpressionStatement).expression;
+
+  beforeAll(async () => {
+    specDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ajax-definition-'));
+    specPath = path.join(specDir, 'api.yaml');
+    fs.writeFileSync(specPath, spec);
+    await registry.load(specPath);
+  });
+
+  afterAll(() => {
+    fs.rmSync(specDir, { recursive: true, force: true });
+  });
+
+  function definitionAt(text: string) {
+    const position = document.positionAt(code.indexOf(text) + 1);
+    return feature.provideDefinition(call, { textDocument: { uri: document.uri }, position }, document);
+  }
+
+  test('should jump from the URL to the path and from the method to the operation', () => {
+    expect(definitionAt('/api/users/42')).toEqual({
+      uri: pathToFileURL(specPath).toString(),
+      range: { start: { line: 2, character: 2 }, end: { line: 2, character: 21 } }
+    });
+    expect(definitionAt('PUT')?.range.start).toEqual({ line: 6, character: 4 });
+  });
+
+  test('should jump from a data key to the schema property', () => {
+    expect(definitionAt('email')?.range.start).toEqual({ line: 13, character: 16 });
+    // Свойство через $ref ведет к своему ключу, а не к общему определению схемы
+    expect(definitionAt('address')?.range.start).toEqual({ line: 14, character: 16 });
+    expect(definitionAt('city')?.range.start).toEqual({ line: 20, character: 8 });
+    expect(definitionAt('a@b.c')).toBeUndefined();
+  });
+
+  test('should point suggestions at their entries in the spec', () => {
+    const suggestionsOf = (source: string) => {
+      const diagnostics: Diagnostic[] = [];
+      const statement = ts.createSourceFile('test.js', source, ts.ScriptTarget.Latest, true).statements[0] as ts.ExpressionStatement;
+      feature.provideDiagnostics(statement.expression, TextDocument.create('file:///test.js', 'javascript', 1, source), diagnostics);
+      return diagnostics.flatMap(diagnostic => diagnostic.relatedInformation ?? []).map(({ location, message }) => [message, location.range.start.line]);
+    };
+
+    expect(suggestionsOf(`$.ajax({ url: '/api/user/42', type: 'PUT' });`)).toEqual([
+      ["Возможно, имелось в виду: '/api/users/{userId}'", 2]
+    ]);
+    expect(suggestionsOf(`$.ajax({ url: '/api/users/42', type: 'PUT', data: { emial: 'a@b.c' } });`)).toEqual([
+      ["Возможно, имелось в виду: 'email'", 13]
+    ]);
+  });
+});
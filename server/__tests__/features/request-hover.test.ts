@@ -0,0 +1,71 @@
+import * as ts from 'typescript';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { MarkupContent } from 'vscode-languageserver/node';
+
+import { AjaxFeature } from '../../src/features/ajaxFeature';
+import { SpecRegistry } from '../../src/spec/specRegistry';
+import { SwaggerPaths } from '../../src/types/swagger';
+
+const paths: SwaggerPaths = {
+  '/api/users/{userId}': {
+    get: { description: 'Get user' },
+    put: {
+      description: 'Update user',
+      parameters: [
+        { in: 'path', name: 'userId', required: true, schema: { type: 'integer' }, description: 'User id' },
+        {
+          in: 'body',
+          name: 'body',
+          schema: {
+            type: 'object',
+            required: ['email'],
+            properties: {
+              email: { type: 'string', format: 'email', example: 'john@example.com', description: 'Contact email' },
+              tags: {
+                type: 'array',
+                items: { type: 'object', properties: { label: { type: 'string', description: 'Tag label' } } }
+              }
+            }
+          }
+        }
+      ]
+    }
+  }
+};
+
+describe('HttpRequestFeature hover', () => {
+  const feature = new AjaxFeature(new SpecRegistry(paths));
+  const code = `$.ajax({
+  url: "/api/users/{userId}",
+  type: "PUT",
+  data: { email: "a@b.c", tags: [{ label: "x" }] }
+});`;
+
+  function hoverAt(marker: string, shift = 1): string | undefined {
+    const document = TextDocument.create('file:///test.js', 'javascript', 1, code);
+    const sourceFile = ts.createSourceFile('test.js', code, ts.ScriptTarget.Latest, true);
+    const call = (sourceFile.statements[0] as ts.ExpressionStatement).expression;
+    const position = document.positionAt(code.indexOf(marker) + shift);
+
+    const hover = feature.provideHover(call, { textDocument: { uri: document.uri }, position }, document);
+    return (hover?.contents as MarkupContent | undefined)?.value;
+  }
+
+  test('should describe path template and its methods on url', () => {
+    expect(hoverAt('"/api/users')).toBe('**/api/users/{userId}**\n\n- `GET` — Get user\n- `PUT` — Update user');
+  });
+
+  test('should describe operation parameters on method', () => {
+    const value = hoverAt('"PUT"');
+    expect(value).toContain('**PUT /api/users/{userId}**');
+    expect(value).toContain('- *path* `userId`: `integer` (обязательный) — User id');
+  });
+
+  test('should describe body fields including nested ones', () => {
+    expect(hoverAt('email:')).toBe(
+      '**data.email**: `string (email)`\n\nОбязательное поле\n\nПример: `"john@example.com"`\n\nContact email'
+    );
+    expect(hoverAt('label:')).toContain('**data.tags\\[0\\].label**');
+    expect(hoverAt('"a@b.c"')).toBeUndefined();
+  });
+});
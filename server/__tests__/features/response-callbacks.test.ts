@@ -0,0 +1,121 @@
+import * as ts from 'typescript';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostic, MarkupContent } from 'vscode-languageserver/node';
+
+import { AjaxFeature } from '../../src/features/ajaxFeature';
+import { AxiosFeature } from '../../src/features/axiosFeature';
+import { JQueryShorthandFeature } from '../../src/features/jqueryShorthandFeature';
+import { HttpRequestFeature } from '../../src/features/requestFeature';
+import { SpecRegistry } from '../../src/spec/specRegistry';
+import { SwaggerPaths } from '../../src/types/swagger';
+
+const paths: SwaggerPaths = {
+  '/api/users/{userId}': {
+    get: {
+      responses: {
+        '200': {
+          description: 'User',
+          schema: {
+            type: 'object',
+            required: ['id'],
+            properties: {
+              id: { type: 'integer', description: 'User id' },
+              name: { type: 'string' },
+              address: { type: 'object', properties: { city: { type: 'string' } } },
+              tags: { type: 'array', items: { type: 'string' } }
+            }
+          }
+        },
+        '404': { description: 'Not found' }
+      }
+    }
+  }
+};
+
+describe('response callbacks', () => {
+  const registry = new SpecRegistry(paths);
+
+  function findCall(feature: HttpRequestFeature, sourceFile: ts.SourceFile): ts.CallExpression {
+    let call: ts.CallExpression | undefined;
+    ts.forEachChild(sourceFile, function visit(node) {
+      if (!call && feature.matches(node)) {
+        call = node as ts.CallExpression;
+      }
+      ts.forEachChild(node, visit);
+    });
+    return call!;
+  }
+
+  function setup(feature: HttpRequestFeature, code: string) {
+    const document = TextDocument.create('file:///test.js', 'javascript', 1, code);
+    const sourceFile = ts.createSourceFile('test.js', code, ts.ScriptTarget.Latest, true);
+    return { document, call: findCall(feature, sourceFile) };
+  }
+
+  function collectDiagnostics(feature: HttpRequestFeature, code: string): Diagnostic[] {
+    const { document, call } = setup(feature, code);
+    const diagnostics: Diagnostic[] = [];
+    feature.provideDiagnostics(call, document, diagnostics);
+    return diagnostics;
+  }
+
+  test('should complete response fields inside the success callback', () => {
+    const feature = new AjaxFeature(registry);
+    const code = `$.ajax({ url: '/api/users/5', type: 'GET', success: (resp) => { resp.address. } });`;
+    const { document, call } = setup(feature, code);
+
+    const complete = (offset: number) => feature
+      .provideCompletionItems(call, { textDocument: { uri: document.uri }, position: document.positionAt(offset) }, document)
+      .map(item => item.label);
+
+    expect(complete(code.indexOf('resp.') + 5)).toEqual(['id', 'name', 'address', 'tags']);
+    expect(complete(code.indexOf('address.') + 8)).toEqual(['city']);
+  });
+
+  test('should describe the response schema in the success snippet', () => {
+    const feature = new AjaxFeature(registry);
+    const code = `$.ajax({ url: '/api/users/5', type: 'GET',  });`;
+    const { document, call } = setup(feature, code);
+    const position = document.positionAt(code.indexOf(',  }') + 2);
+
+    const success = feature.provideCompletionItems(call, { textDocument: { uri: document.uri }, position }, document)
+      .find(item => item.label === 'success');
+
+    expect(success).toMatchObject({ insertText: 'success: (${1:response}) => {\n\t${0}\n}', detail: 'success колбэк (ответ: object)' });
+  });
+
+  test('should describe response fields on hover in done chains', () => {
+    const feature = new JQueryShorthandFeature(registry);
+    const code = `$.get('/api/users/5').fail(onError).done(function (user) { show(user.id); });`;
+    const { document, call } = setup(feature, code);
+    const position = document.positionAt(code.indexOf('user.id') + 6);
+
+    const hover = feature.provideHover(call, { textDocument: { uri: document.uri }, position }, document);
+
+    expect((hover?.contents as MarkupContent).value).toBe('**user.id**: `integer`\n\nОбязательное поле\n\nUser id');
+  });
+
+  test('should report reads of fields missing from the response schema', () => {
+    const diagnostics = collectDiagnostics(new JQueryShorthandFeature(registry), `
+      $.getJSON('/api/users/5', function (user) {
+        user.nmae = 'x';
+        console.log(user.nmae, user.address.zip, user.tags.length, user.toString());
+      });
+    `);
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      "Поле 'nmae' отсутствует в схеме ответа GET /api/users/{userId} (200). Возможно, имелось в виду: 'name'",
+      "Поле 'zip' отсутствует в схеме ответа GET /api/users/{userId} (200)"
+    ]);
+  });
+
+  test('should look for the response body in axios response.data', () => {
+    const diagnostics = collectDiagnostics(new AxiosFeature(registry), `
+      axios.get('/api/users/5').then(response => response.status === 200 && response.data.email);
+    `);
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      "Поле 'email' отсутствует в схеме ответа GET /api/users/{userId} (200)"
+    ]);
+  });
+});
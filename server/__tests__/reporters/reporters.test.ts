@@ -0,0 +1,109 @@
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { createReport, formatReport, LintReport } from '../../src/reporters/report';
+
+const rootPath = '/project';
+
+function diagnostic(line: number, character: number, severity: DiagnosticSeverity, message: string, code?: string): Diagnostic {
+  return {
+    range: { start: { line, character }, end: { line, character: character + 4 } },
+    severity,
+    message,
+    code,
+    source: 'swagger-lsp'
+  };
+}
+
+function createTestReport(): LintReport {
+  const document = TextDocument.create('file:///project/src/a.js', 'javascript', 0, '');
+  return createReport([
+    {
+      filePath: '/project/src/users.js',
+      document,
+      diagnostics: [
+        diagnostic(0, 8, DiagnosticSeverity.Error, "Неизвестный URL: '/api/usr'", 'unknown-url'),
+        diagnostic(11, 2, DiagnosticSeverity.Warning, 'Поле "a" & <b>')
+      ]
+    },
+    { filePath: '/project/src/ok.js', document, diagnostics: [] }
+  ], rootPath);
+}
+
+describe('reporters', () => {
+  test('should convert diagnostics into findings with rule ids', () => {
+    const report = createTestReport();
+
+    expect(report.files[0].relativePath).toBe('src/users.js');
+    expect(report.files[0].findings.map(finding => [finding.ruleId, finding.severity])).toEqual([
+      ['unknown-url', 'error'],
+      ['swagger-lsp', 'warning']
+    ]);
+  });
+
+  test('should format stylish and compact terminal output', () => {
+    const report = createTestReport();
+
+    expect(formatReport(report, 'stylish')).toBe([
+      'src/users.js',
+      "  1:9   error    Неизвестный URL: '/api/usr'  unknown-url",
+      '  12:3  warning  Поле "a" & <b>               swagger-lsp',
+      '',
+      '2 problems (1 error, 1 warning) in 2 files'
+    ].join('\n'));
+    expect(formatReport(report, 'compact').split('\n')[0]).toBe("src/users.js:1:9: error Неизвестный URL: '/api/usr' [unknown-url]");
+  });
+
+  test('should format JSON with one-based positions', () => {
+    const json = JSON.parse(formatReport(createTestReport(), 'json'));
+
+    expect(json).toMatchObject({ errorCount: 1, warningCount: 1 });
+    expect(json.files[0].findings[0]).toEqual({
+      ruleId: 'unknown-url',
+      severity: 'error',
+      message: "Неизвестный URL: '/api/usr'",
+      line: 1,
+      column: 9,
+      endLine: 1,
+      endColumn: 13
+    });
+    expect(json.files[1]).toEqual({ filePath: 'src/ok.js', errorCount: 0, warningCount: 0, findings: [] });
+  });
+
+  test('should format SARIF 2.1.0', () => {
+    const sarif = JSON.parse(formatReport(createTestReport(), 'sarif'));
+    const run = sarif.runs[0];
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.rules).toEqual([
+      { id: 'swagger-lsp' },
+      {
+        id: 'unknown-url',
+        shortDescription: { text: 'URL запроса не описан в спецификации' },
+        helpUri: 'https://github.com/nokkov/ajax-linter/blob/main/docs/rules.md#unknown-url'
+      }
+    ]);
+    expect(run.originalUriBaseIds['%SRCROOT%'].uri).toBe('file:///project/');
+    expect(run.results[0]).toEqual({
+      ruleId: 'unknown-url',
+      ruleIndex: 1,
+      level: 'error',
+      message: { text: "Неизвестный URL: '/api/usr'" },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: 'src/users.js', uriBaseId: '%SRCROOT%' },
+          region: { startLine: 1, startColumn: 9, endLine: 1, endColumn: 13 }
+        }
+      }]
+    });
+  });
+
+  test('should format JUnit XML with a test case per finding', () => {
+    const xml = formatReport(createTestReport(), 'junit');
+
+    expect(xml).toContain('<testsuites name="ajax-linter" tests="3" failures="2" errors="0">');
+    expect(xml).toContain('<testcase name="unknown-url (1:9)" classname="src/users.js">');
+    expect(xml).toContain('<failure type="warning" message="Поле &quot;a&quot; &amp; &lt;b&gt;">');
+    expect(xml).toContain('<testsuite name="src/ok.js" tests="1" failures="0" errors="0">\n    <testcase name="ajax-linter" classname="src/ok.js"/>');
+  });
+});
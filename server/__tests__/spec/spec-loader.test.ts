@@ -0,0 +1,258 @@
+import { normalizeSpec, parseSpecText, SpecLoadError, SpecSourceMap } from '../../src/spec/specLoader';
+import { SwaggerSchemas } from '../../src/types/swagger';
+
+describe('specLoader', () => {
+  describe('parseSpecText', () => {
+    test('should parse YAML spec', () => {
+      const raw = parseSpecText('openapi: 3.0.0\npaths: {}\n', 'api.yaml');
+      expect(raw.openapi).toBe('3.0.0');
+    });
+
+    test('should report syntax errors as SpecLoadError', () => {
+      expect(() => parseSpecText('{ "openapi": ', 'api.json')).toThrow(SpecLoadError);
+    });
+
+    test('should report syntax error positions for JSON and YAML', () => {
+      const positionOf = (text: string, fileName: string) => {
+        try {
+          parseSpecText(text, fileName);
+        } catch (error) {
+          return (error as SpecLoadError).position;
+        }
+      };
+
+      expect(positionOf('{\n  "openapi": "3.0.0"\n  "paths": {}\n}', 'api.json')).toEqual({ line: 2, character: 2 });
+      expect(positionOf('openapi: 3.0.0\npaths: [1\ninfo: {}\n', 'api.yaml')).toEqual({ line: 2, character: 0 });
+    });
+  });
+
+  describe('normalizeSpec', () => {
+    test('should normalize OpenAPI 3 requestBody and components.schemas', () => {
+      const paths = normalizeSpec({
+        openapi: '3.0.1',
+        paths: {
+          '/api/users/{userId}': {
+            parameters: [{ $ref: '#/components/parameters/UserId' }],
+            put: {
+              summary: 'Update user',
+              requestBody: {
+                required: true,
+                content: {
+                  'application/json': { schema: { $ref: '#/components/schemas/User' } }
+                }
+              }
+            }
+          }
+        },
+        components: {
+          parameters: {
+            UserId: { in: 'path', name: 'userId', required: true, schema: { type: 'integer' } }
+          },
+          schemas: {
+            User: {
+              type: 'object',
+              required: ['email'],
+              properties: {
+                email: { type: 'string', example: 'john@example.com' },
+                tags: { type: 'array', items: { type: 'string' } }
+              }
+            }
+          }
+        }
+      });
+
+      const put = paths['/api/users/{userId}'].put!;
+      expect(put.description).toBe('Update user');
+      expect(put.parameters).toContainEqual({ in: 'path', name: 'userId', required: true, schema: { type: 'integer' } });
+
+      const body = put.parameters!.find(param => param.in === 'body')!;
+      expect(body.required).toBe(true);
+      expect(body.schema!.required).toEqual(['email']);
+      expect(body.schema!.properties!.email).toEqual({ type: 'string', example: 'john@example.com' });
+      expect(body.schema!.properties!.tags.items!.type).toBe('string');
+    });
+
+    test('should normalize Swagger 2 body, formData and typed parameters', () => {
+      const paths = normalizeSpec({
+        swagger: '2.0',
+        paths: {
+          '/api/products': {
+            get: {
+              parameters: [{ in: 'query', name: 'search', type: 'string', description: 'Search term' }]
+            },
+            post: {
+              parameters: [{ in: 'body', name: 'product', schema: { $ref: '#/definitions/Product' } }]
+            },
+            put: {
+              parameters: [
+                { in: 'formData', name: 'name', type: 'string', required: true },
+                { in: 'formData', name: 'price', type: 'number' }
+              ]
+            }
+          }
+        },
+        definitions: {
+          Product: { properties: { name: { type: 'string' } } }
+        }
+      });
+
+      const products = paths['/api/products'];
+      expect(products.get!.parameters![0]).toMatchObject({ in: 'query', name: 'search', schema: { type: 'string' } });
+      expect(products.post!.parameters![0].schema).toEqual({ $ref: '#/definitions/Product', type: 'object', properties: { name: { type: 'string' } } });
+      expect(products.put!.parameters![0]).toMatchObject({
+        in: 'body',
+        schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' }, price: { type: 'number' } } }
+      });
+    });
+
+    test('should normalize response schemas per status code', () => {
+      const openApi = normalizeSpec({
+        openapi: '3.0.0',
+        paths: {
+          '/api/users': {
+            get: {
+              responses: {
+                '200': {
+                  description: 'Users',
+                  content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/User' } } } }
+                },
+                '404': { $ref: '#/components/responses/NotFound' }
+              }
+            }
+          }
+        },
+        components: {
+          schemas: { User: { type: 'object', properties: { id: { type: 'integer' } } } },
+          responses: { NotFound: { description: 'Not found' } }
+        }
+      });
+      expect(openApi['/api/users'].get!.responses).toEqual({
+        '200': {
+          description: 'Users',
+          schema: { type: 'array', items: { $ref: '#/components/schemas/User', type: 'object', properties: { id: { type: 'integer' } } } }
+        },
+        '404': { description: 'Not found' }
+      });
+
+      const swagger = normalizeSpec({
+        swagger: '2.0',
+        paths: { '/api/users': { post: { responses: { '201': { description: 'Created', schema: { type: 'string' } } } } } }
+      });
+      expect(swagger['/api/users'].post!.responses).toEqual({ '201': { description: 'Created', schema: { type: 'string' } } });
+    });
+
+    test('should resolve recursive schemas into shared objects and keep named schemas', () => {
+      const schemas: SwaggerSchemas = {};
+      const paths = normalizeSpec({
+        swagger: '2.0',
+        paths: {
+          '/api/categories': {
+            post: { parameters: [{ in: 'body', name: 'category', schema: { $ref: '#/definitions/Category' } }] }
+          }
+        },
+        definitions: {
+          Category: { type: 'object', properties: { parent: { $ref: '#/definitions/Category' } } },
+          'Error/Response': { type: 'object', properties: { message: { type: 'string' } } }
+        }
+      }, undefined, undefined, schemas);
+
+      const schema = paths['/api/categories'].post!.parameters![0].schema!;
+      expect(schema.$ref).toBe('#/definitions/Category');
+      expect(schema.properties!.parent).toBe(schema);
+      // Именованные схемы сохраняются, даже если пути на них не ссылаются
+      expect(schemas.Category).toBe(schema);
+      expect(schemas['Error/Response']).toEqual({
+        $ref: '#/definitions/Error~1Response',
+        type: 'object',
+        properties: { message: { type: 'string' } }
+      });
+    });
+
+    test('should keep composition keywords, enum and nullable', () => {
+      const paths = normalizeSpec({
+        openapi: '3.1.0',
+        paths: {
+          '/api/pets': {
+            post: {
+              requestBody: {
+                content: {
+                  'application/json': {
+                    schema: {
+                      allOf: [{ $ref: '#/components/schemas/Base' }],
+                      properties: {
+                        kind: { type: 'string', enum: ['cat', 'dog', null] },
+                        age: { type: ['integer', 'null'], format: 'int32', default: 1 },
+                        extra: { additionalProperties: { type: 'string' } }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        components: { schemas: { Base: { type: 'object', properties: { id: { type: 'integer' } } } } }
+      });
+
+      const schema = paths['/api/pets'].post!.parameters![0].schema!;
+      expect(schema.allOf![0]).toMatchObject({ $ref: '#/components/schemas/Base', type: 'object' });
+      expect(schema.properties!.kind).toEqual({ type: 'string', enum: ['cat', 'dog'], nullable: true });
+      expect(schema.properties!.age).toEqual({ type: 'integer', nullable: true, format: 'int32', default: 1 });
+      expect(schema.properties!.extra.additionalProperties).toEqual({ type: 'string' });
+    });
+
+    test('should reject unknown spec versions and unresolved refs', () => {
+      expect(() => normalizeSpec({ paths: {} })).toThrow(SpecLoadError);
+      expect(() => normalizeSpec({
+        openapi: '3.0.0',
+        paths: { '/a': { post: { parameters: [{ $ref: '#/components/parameters/Missing' }] } } }
+      })).toThrow('Не удалось разрешить $ref');
+    });
+  });
+
+  describe('source positions', () => {
+    const load = (text: string, fileName: string) => {
+      const sourceMap: SpecSourceMap = new WeakMap();
+      return { paths: normalizeSpec(parseSpecText(text, fileName, sourceMap), sourceMap), sourceMap };
+    };
+    const lineOf = (sourceMap: SpecSourceMap, node: object) => sourceMap.get(node)?.start.line;
+
+    test('should keep positions of paths, operations and schemas in YAML', () => {
+      const { paths, sourceMap } = load([
+        'openapi: 3.0.0',
+        'paths:',
+        '  /api/users:',
+        '    post:',
+        '      requestBody:',
+        '        content:',
+        '          application/json:',
+        '            schema:',
+        '              type: object',
+        '              properties:',
+        '                name: { type: string }',
+        '                address:',
+        "                  $ref: '#/components/schemas/Address'",
+        'components:',
+        '  schemas:',
+        '    Address:',
+        '      type: object'
+      ].join('\n'), 'api.yaml');
+
+      const schema = paths['/api/users'].post!.parameters![0].schema!;
+      expect(sourceMap.get(paths['/api/users'])).toEqual({ start: { line: 2, character: 2 }, end: { line: 2, character: 12 } });
+      expect(lineOf(sourceMap, paths['/api/users'].post!)).toBe(3);
+      expect(lineOf(sourceMap, schema.properties!.name)).toBe(10);
+      expect(lineOf(sourceMap, schema.properties!.address)).toBe(15);
+    });
+
+    test('should keep positions in JSON', () => {
+      const { paths, sourceMap } = load(JSON.stringify({
+        swagger: '2.0',
+        paths: { '/api/users': { get: { responses: { 200: { description: 'OK' } } } } }
+      }, null, 2), 'api.json');
+
+      expect(sourceMap.get(paths['/api/users'])).toEqual({ start: { line: 3, character: 4 }, end: { line: 3, character: 16 } });
+      expect(lineOf(sourceMap, paths['/api/users'].get!)).toBe(4);
+    });
+  });
+});
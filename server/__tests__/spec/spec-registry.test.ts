@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { readServerUrls } from '../../src/spec/specLoader';
+import { SpecRegistry } from '../../src/spec/specRegistry';
+import { getMatchingSwaggerUrl } from '../../src/utils/utils';
+
+describe('SpecRegistry', () => {
+  let specDir: string;
+  let usersSpec: string;
+  let catalogSpec: string;
+  let registry: SpecRegistry;
+
+  const matchOf = (url: string) => {
+    const template = getMatchingSwaggerUrl(url, registry.getPaths());
+    return template && registry.getSourceLocation(registry.getPaths()[template])?.filePath;
+  };
+
+  beforeEach(() => {
+    specDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ajax-specs-'));
+    usersSpec = path.join(specDir, 'users.yaml');
+    catalogSpec = path.join(specDir, 'catalog.json');
+    fs.writeFileSync(usersSpec, [
+      'openapi: 3.0.0',
+      'servers:',
+      '  - url: https://{host}/users/{version}',
+      '    variables:',
+      '      host: { default: users.example.com }',
+      '      version: { default: v1 }',
+      'paths:',
+      '  /accounts/{id}:',
+      '    get: {}'
+    ].join('\n'));
+    fs.writeFileSync(catalogSpec, JSON.stringify({ swagger: '2.0', basePath: '/api/v1', paths: { '/products': { get: {} } } }));
+    registry = new SpecRegistry();
+  });
+
+  afterEach(() => {
+    fs.rmSync(specDir, { recursive: true, force: true });
+  });
+
+  test('should read server paths of OpenAPI 3 and Swagger 2 specs', () => {
+    expect(readServerUrls({ servers: [{ url: 'https://{host}/v{major}', variables: { host: { default: 'api.example.com' } } }] }))
+      .toEqual(['https://api.example.com/v{major}']);
+    expect(readServerUrls({ swagger: '2.0', basePath: '/api' })).toEqual(['/api']);
+    expect(readServerUrls({ openapi: '3.0.0' })).toEqual([]);
+  });
+
+  test('should map paths of several specs to the URLs the frontend calls', async () => {
+    const failures = await registry.loadAll([
+      { filePath: usersSpec, basePaths: ['https://gateway.example.com/gateway/'], servers: true },
+      { filePath: catalogSpec, servers: true, rewrites: { '/legacy': '/api/v1' } }
+    ]);
+
+    expect(failures).toEqual([]);
+    expect(Object.keys(registry.getPaths())).toEqual([
+      '/gateway/users/v1/accounts/{id}',
+      '/api/v1/products',
+      '/legacy/products'
+    ]);
+    expect(matchOf('https://gateway.example.com/gateway/users/v1/accounts/42?expand=roles')).toBe(usersSpec);
+    expect(matchOf('/legacy/products#top')).toBe(catalogSpec);
+    expect(matchOf('//cdn.example.com/api/v1/products')).toBe(catalogSpec);
+    expect(matchOf('/accounts/42')).toBeUndefined();
+  });
+
+  test('should keep the previous version of a spec that fails to load', async () => {
+    await registry.loadAll([{ filePath: usersSpec }, { filePath: catalogSpec }]);
+    fs.writeFileSync(catalogSpec, '{ "swagger": ');
+
+    const failures = await registry.loadAll([{ filePath: usersSpec }, { filePath: catalogSpec }]);
+
+    expect(failures.map(failure => failure.filePath)).toEqual([catalogSpec]);
+    expect(Object.keys(registry.getPaths())).toEqual(['/accounts/{id}', '/products']);
+    expect(registry.getSpecFilePath()).toBe(usersSpec);
+  });
+});
@@ -0,0 +1,70 @@
+import * as ts from 'typescript';
+import { Diagnostic } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { AjaxFeature } from '../../src/features/ajaxFeature';
+import { SpecRegistry } from '../../src/spec/specRegistry';
+import { SwaggerParameter, SwaggerPaths } from '../../src/types/swagger';
+import { getAmbiguousSwaggerUrls, matchSwaggerUrls } from '../../src/utils/routeMatcher';
+import { getMatchingSwaggerUrl } from '../../src/utils/utils';
+
+describe('routeMatcher', () => {
+  const userId: SwaggerParameter = { in: 'path', name: 'userId', required: true, schema: { type: 'integer' } };
+  const paths: SwaggerPaths = {
+    '/api/users/{userId}': { get: { parameters: [userId] } },
+    '/api/users/me': { get: {} },
+    '/api/users/{name}/profile': { get: { parameters: [{ in: 'path', name: 'name', required: true, schema: { type: 'string' } }] } },
+    '/api/files/{fileName}.json': { get: {} },
+    '/api/files/{path}': { get: {} },
+    '/api/items/{id}': { get: {} },
+    '/api/items/{slug}': { get: {} }
+  };
+
+  test('should prefer literal segments over path parameters regardless of spec order', () => {
+    expect(getMatchingSwaggerUrl('/api/users/me', paths)).toBe('/api/users/me');
+    expect(getMatchingSwaggerUrl('/api/users/42', paths)).toBe('/api/users/{userId}');
+    expect(getMatchingSwaggerUrl('/api/files/report.json', paths)).toBe('/api/files/{fileName}.json');
+    expect(matchSwaggerUrls('/api/users/me', paths).map(match => match.template)).toEqual(['/api/users/me', '/api/users/{userId}']);
+  });
+
+  test('should rank templates whose parameter values fit their schemas first', () => {
+    const typedPaths: SwaggerPaths = {
+      '/api/orders/{orderId}': { get: { parameters: [{ in: 'path', name: 'orderId', required: true, schema: { type: 'integer' } }] } },
+      '/api/orders/{status}': { get: { parameters: [{ in: 'path', name: 'status', required: true, schema: { type: 'string', enum: ['open', 'closed'] } }] } }
+    };
+
+    expect(getMatchingSwaggerUrl('/api/orders/7', typedPaths)).toBe('/api/orders/{orderId}');
+    expect(getMatchingSwaggerUrl('/api/orders/open', typedPaths)).toBe('/api/orders/{status}');
+    // Если значение не подходит ни под одну схему, шаблон все равно найден: ошибку типа сообщит проверка параметров
+    expect(getMatchingSwaggerUrl('/api/orders/lost', typedPaths)).toBe('/api/orders/{orderId}');
+  });
+
+  test('should ignore trailing slashes and decode segments', () => {
+    expect(matchSwaggerUrls('https://example.com/api/users/john%20doe/profile/?tab=1', paths)).toEqual([
+      { template: '/api/users/{name}/profile', parameters: { name: 'john doe' } }
+    ]);
+    expect(getMatchingSwaggerUrl('/api/users/m%65/', paths)).toBe('/api/users/me');
+  });
+
+  test('should prefer path parameters for unknown segments', () => {
+    expect(getMatchingSwaggerUrl('/api/users/*', paths)).toBe('/api/users/{userId}');
+    expect(getMatchingSwaggerUrl('/api/files/*', paths)).toBe('/api/files/{path}');
+    expect(getMatchingSwaggerUrl('/api/*/me', paths)).toBe('/api/users/me');
+  });
+
+  test('should report templates that fit the URL equally well', () => {
+    expect(getAmbiguousSwaggerUrls('/api/items/42', paths)).toEqual(['/api/items/{id}', '/api/items/{slug}']);
+    expect(getAmbiguousSwaggerUrls('/api/users/me', paths)).toEqual([]);
+    expect(getAmbiguousSwaggerUrls('/api/items/*', paths)).toEqual([]);
+
+    const code = `$.ajax({ url: '/api/items/42', type: 'GET' });`;
+    const document = TextDocument.create('file:///test.js', 'javascript', 1, code);
+    const sourceFile = ts.createSourceFile('test.js', code, ts.ScriptTarget.Latest, true);
+    const diagnostics: Diagnostic[] = [];
+    new AjaxFeature(new SpecRegistry(paths)).provideDiagnostics((sourceFile.statements[0] as ts.ExpressionStatement).expression, document, diagnostics);
+
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.message])).toEqual([
+      ['ambiguous-url', "Неоднозначный URL: /api/items/42 подходит под пути '/api/items/{id}', '/api/items/{slug}'"]
+    ]);
+  });
+});
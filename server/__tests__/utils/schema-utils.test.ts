@@ -0,0 +1,74 @@
+import { SwaggerSchema } from '../../src/types/swagger';
+import {
+  getSchemaEnum,
+  getSchemaTypeLabel,
+  getSchemaVariants,
+  resolveSchema,
+  schemaAcceptsType,
+  schemaAcceptsValue,
+  selectObjectVariant
+} from '../../src/utils/schemaUtils';
+import { generateDataSnippet } from '../../src/utils/utils';
+
+describe('schemaUtils', () => {
+  const base: SwaggerSchema = {
+    $ref: '#/components/schemas/Base',
+    type: 'object',
+    properties: { id: { type: 'integer' } },
+    required: ['id']
+  };
+
+  test('should merge allOf parts', () => {
+    const schema = resolveSchema({
+      allOf: [base, { properties: { name: { type: 'string' } }, required: ['name'] }]
+    });
+
+    expect(schema.type).toBe('object');
+    expect(Object.keys(schema.properties!)).toEqual(['id', 'name']);
+    expect(schema.required).toEqual(['id', 'name']);
+  });
+
+  test('should expand oneOf alternatives with common fields', () => {
+    const variants = getSchemaVariants({
+      type: 'object',
+      properties: { kind: { type: 'string' } },
+      oneOf: [
+        { properties: { meow: { type: 'boolean' } } },
+        { properties: { bark: { type: 'boolean' } } }
+      ]
+    });
+
+    expect(variants).toHaveLength(2);
+    expect(Object.keys(variants[1].properties!)).toEqual(['kind', 'bark']);
+    expect(selectObjectVariant({ oneOf: variants }, ['bark'])).toBe(variants[1]);
+  });
+
+  test('should check types against alternatives and nullable', () => {
+    const schema: SwaggerSchema = { anyOf: [{ type: 'string' }, { type: 'integer' }] };
+
+    expect(schemaAcceptsType(schema, 'integer')).toBe(true);
+    expect(schemaAcceptsType(schema, 'boolean')).toBe(false);
+    expect(schemaAcceptsType(schema, 'null')).toBe(false);
+    expect(schemaAcceptsType({ type: 'number' }, 'integer')).toBe(true);
+    expect(schemaAcceptsType({ type: 'string', nullable: true }, 'null')).toBe(true);
+  });
+
+  test('should check literal values against enum', () => {
+    const schema: SwaggerSchema = { type: 'string', enum: ['asc', 'desc'] };
+
+    expect(getSchemaEnum(schema)).toEqual(['asc', 'desc']);
+    expect(schemaAcceptsValue(schema, 'asc')).toBe(true);
+    expect(schemaAcceptsValue(schema, 'up')).toBe(false);
+    expect(getSchemaTypeLabel(schema)).toBe('"asc" | "desc"');
+  });
+
+  test('should not loop on recursive schemas', () => {
+    const node: SwaggerSchema = { $ref: '#/definitions/Node', type: 'object', properties: {} };
+    node.properties!.children = { type: 'array', items: node };
+    node.properties!.label = { type: 'string', format: 'email' };
+
+    expect(getSchemaTypeLabel(node.properties!.children)).toBe('Node[]');
+    expect(getSchemaTypeLabel(node.properties!.label)).toBe('string (email)');
+    expect(generateDataSnippet(node)).toContain('"children": [');
+  });
+});
@@ -0,0 +1,30 @@
+import { rankSimilarSwaggerUrls } from '../../src/utils/utils';
+import { getEditDistance, rankSimilarStrings } from '../../src/utils/stringUtils';
+import { SwaggerPaths } from '../../src/types/swagger';
+
+describe('suggestions', () => {
+  test('should compute edit distance', () => {
+    expect(getEditDistance('emial', 'email')).toBe(2);
+    expect(getEditDistance('', 'abc')).toBe(3);
+    expect(getEditDistance('same', 'same')).toBe(0);
+  });
+
+  test('should rank similar strings and skip unrelated ones', () => {
+    expect(rankSimilarStrings('emial', ['name', 'email', 'role'])).toEqual(['email']);
+    expect(rankSimilarStrings('nam', ['names', 'name', 'age'])).toEqual(['name', 'names']);
+    expect(rankSimilarStrings('nickname', ['email', 'role'])).toEqual([]);
+  });
+
+  test('should suggest path templates by segment similarity', () => {
+    const paths: SwaggerPaths = {
+      '/api/users': {},
+      '/api/users/{userId}': {},
+      '/api/products/{productId}': {},
+      '/api/orders': {}
+    };
+
+    expect(rankSimilarSwaggerUrls('/api/user/5', paths)).toEqual(['/api/users/{userId}', '/api/users']);
+    expect(rankSimilarSwaggerUrls('/api/usrs', paths)).toEqual(['/api/users', '/api/users/{userId}']);
+    expect(rankSimilarSwaggerUrls('/v2/catalog/items', paths)).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import * as ts from 'typescript';
+
+import { validateParameters } from '../../src/validation/parameterValidator';
+import { evaluateUrl } from '../../src/evaluation/urlEvaluator';
+import { SwaggerMethod } from '../../src/types/swagger';
+
+describe('parameterValidator', () => {
+  const operation: SwaggerMethod = {
+    parameters: [
+      { in: 'path', name: 'userId', required: true, schema: { type: 'integer' } },
+      { in: 'query', name: 'page', required: true, schema: { type: 'integer' } },
+      { in: 'query', name: 'sort', schema: { type: 'string', enum: ['asc', 'desc'] } },
+      { in: 'header', name: 'X-Request-Id', required: true, schema: { type: 'string' } },
+      { in: 'cookie', name: 'session', required: true, schema: { type: 'string' } },
+      { in: 'cookie', name: 'retries', schema: { type: 'integer' } }
+    ]
+  };
+
+  function validate(url: string, query?: string, headers?: string) {
+    const code = `f(${url.startsWith('`') ? url : JSON.stringify(url)}, ${query ?? 'undefined'}, ${headers ?? 'undefined'});`;
+    const sourceFile = ts.createSourceFile('test.ts', code, ts.ScriptTarget.Latest, true);
+    const call = (sourceFile.statements[0] as ts.ExpressionStatement).expression as ts.CallExpression;
+    const [urlNode, queryNode, headersNode] = call.arguments;
+
+    const issues = validateParameters(operation, {
+      url: evaluateUrl(urlNode)!,
+      template: '/api/users/{userId}',
+      query: query ? queryNode : undefined,
+      headers: headers ? headersNode : undefined
+    });
+    return issues.map(issue => ({ message: issue.message, text: code.slice(issue.start, issue.end) }));
+  }
+
+  test('should check path segment types', () => {
+    expect(validate('/api/users/abc?page=1')).toEqual([
+      { message: "Ожидается тип 'integer' для параметра пути 'userId', получено 'abc'", text: 'abc' }
+    ]);
+    expect(validate('/api/users/42?page=1')).toEqual([]);
+    expect(validate('https://users.example.com/api/users/abc?page=1')).toEqual([
+      { message: "Ожидается тип 'integer' для параметра пути 'userId', получено 'abc'", text: 'abc' }
+    ]);
+    expect(validate('`/api/users/${id}?page=1`')).toEqual([]);
+    expect(validate('`/api/users/abc?page=${page}`')).toEqual([
+      { message: "Ожидается тип 'integer' для параметра пути 'userId', получено 'abc'", text: 'abc' }
+    ]);
+  });
+
+  test('should parse query string and report required and enum parameters', () => {
+    expect(validate('/api/users/1?sort=up')).toEqual([
+      { message: 'Недопустимое значение "up" для параметра запроса \'sort\'. Допустимые значения: "asc", "desc"', text: 'sort=up' },
+      { message: "Отсутствует обязательный параметр запроса 'page'", text: '"/api/users/1?sort=up"' }
+    ]);
+  });
+
+  test('should read query parameters from object and skip required check for unknown sources', () => {
+    expect(validate('/api/users/1', `{ page: 'two' }`).map(issue => issue.message)).toEqual([
+      "Ожидается тип 'integer' для параметра запроса 'page', получено 'two'"
+    ]);
+    expect(validate('/api/users/1', `{ page: 2, sort: 'desc' }`)).toEqual([]);
+    expect(validate('/api/users/1', `filters`)).toEqual([]);
+    expect(validate('`/api/users/1${query}`')).toEqual([]);
+  });
+
+  test('should check required headers case-insensitively', () => {
+    expect(validate('/api/users/1?page=1', undefined, `{ 'x-request-id': 'abc' }`)).toEqual([]);
+    expect(validate('/api/users/1?page=1', undefined, `{ Accept: 'application/json' }`).map(issue => issue.message)).toEqual([
+      "Отсутствует обязательный заголовок 'X-Request-Id'"
+    ]);
+  });
+
+  test('should check cookies only in an explicit Cookie header', () => {
+    expect(validate('/api/users/1?page=1', undefined, `{ 'X-Request-Id': 'a' }`)).toEqual([]);
+    expect(validate('/api/users/1?page=1', undefined, `{ 'X-Request-Id': 'a', Cookie: 'session=abc; retries=2' }`)).toEqual([]);
+    expect(validate('/api/users/1?page=1', undefined, `{ 'X-Request-Id': 'a', cookie: 'theme=dark;retries= many ' }`)).toEqual([
+      { message: "Ожидается тип 'integer' для cookie 'retries', получено 'many'", text: 'many' },
+      { message: "Отсутствует обязательный cookie 'session'", text: `'theme=dark;retries= many '` }
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import * as ts from 'typescript';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { AjaxFeature } from '../../src/features/ajaxFeature';
+import { SpecRegistry } from '../../src/spec/specRegistry';
+import { mockSwagger } from '../../src/types/swagger';
+import { RuleConfiguration } from '../../src/validation/rules';
+
+describe('rules', () => {
+  function collectDiagnostics(rules: RuleConfiguration, code: string): Diagnostic[] {
+    const document = TextDocument.create('file:///test.js', 'javascript', 1, code);
+    const sourceFile = ts.createSourceFile('test.js', code, ts.ScriptTarget.Latest, true);
+    const call = (sourceFile.statements[0] as ts.ExpressionStatement).expression;
+    const diagnostics: Diagnostic[] = [];
+    new AjaxFeature(new SpecRegistry(mockSwagger), undefined, rules).provideDiagnostics(call, document, diagnostics);
+    return diagnostics;
+  }
+
+  const code = `$.ajax({ url: '/api/users', type: 'POST', data: { username: 1, email: 'a', emial: 'a' } });`;
+
+  test('should mark diagnostics with the rule code and documentation link', () => {
+    const diagnostics = collectDiagnostics(new RuleConfiguration(), code);
+
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.severity])).toEqual([
+      ['type-mismatch', DiagnosticSeverity.Warning],
+      ['unknown-field', DiagnosticSeverity.Error]
+    ]);
+    expect(diagnostics[1]).toMatchObject({
+      source: 'swagger-lsp',
+      codeDescription: { href: 'https://github.com/nokkov/ajax-linter/blob/main/docs/rules.md#unknown-field' }
+    });
+  });
+
+  test('should apply configured severities and skip disabled rules', () => {
+    const rules = new RuleConfiguration();
+    const invalid = rules.configure({ 'type-mismatch': 'off', 'unknown-field': 'hint', 'no-such-rule': 'error', 'unknown-url': 'fatal' });
+
+    expect(invalid).toEqual(['no-such-rule: error', 'unknown-url: fatal']);
+    expect(rules.getSeverity('unknown-url')).toBe('error');
+    expect(collectDiagnostics(rules, code).map(diagnostic => [diagnostic.code, diagnostic.severity])).toEqual([
+      ['unknown-field', DiagnosticSeverity.Hint]
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import * as ts from 'typescript';
+
+import { validateSchemaValue } from '../../src/validation/schemaValidator';
+import { mockSwagger } from '../../src/types/swagger';
+
+describe('schemaValidator', () => {
+  const orderSchema = mockSwagger['/api/orders'].post!.parameters![0].schema!;
+
+  function parseExpression(code: string): ts.Expression {
+    const sourceFile = ts.createSourceFile('test.ts', `const data = ${code};`, ts.ScriptTarget.Latest, true);
+    const statement = sourceFile.statements[0] as ts.VariableStatement;
+    return statement.declarationList.declarations[0].initializer!;
+  }
+
+  test('should accept valid nested data', () => {
+    const node = parseExpression(`{
+      items: [{ productId: 1, quantity: 2 }],
+      customerInfo: { name: 'John', address: 'Main St' }
+    }`);
+
+    expect(validateSchemaValue(node, orderSchema, 'data')).toEqual([]);
+  });
+
+  test('should report issues inside nested objects and arrays', () => {
+    const node = parseExpression(`{
+      items: [{ productId: 1, quantity: 2 }, { productId: '2', amount: 1 }],
+      customerInfo: { name: 'John' }
+    }`);
+
+    const issues = validateSchemaValue(node, orderSchema, 'data');
+    const messages = issues.map(issue => issue.message);
+
+    expect(messages).toHaveLength(4);
+    expect(messages).toEqual(expect.arrayContaining([
+      "Ожидается тип 'integer' для поля 'data.items[1].productId', получен 'string'",
+      "Отсутствует обязательное поле 'quantity' в data.items[1]",
+      "Неизвестное поле: 'amount' в data.items[1]",
+      "Отсутствует обязательное поле 'address' в data.customerInfo"
+    ]));
+    expect(issues.find(issue => issue.kind === 'unknown-field')!.node.getText()).toBe('amount');
+    expect(issues.find(issue => issue.kind === 'type-mismatch')!.node.getText()).toBe(`'2'`);
+  });
+
+  test('should report type mismatch of a nested container', () => {
+    const node = parseExpression(`{ items: {}, customerInfo: [] }`);
+
+    const issues = validateSchemaValue(node, orderSchema, 'data');
+
+    expect(issues.map(issue => issue.kind)).toEqual(['type-mismatch', 'type-mismatch']);
+  });
+
+  test('should skip required check for objects with spread', () => {
+    const node = parseExpression(`{ ...defaults, customerInfo: { ...customer } }`);
+
+    expect(validateSchemaValue(node, orderSchema, 'data')).toEqual([]);
+  });
+
+  test('should name fields checked by type from the root like literal fields', () => {
+    const code = `interface Item { productId: number; quantity?: number }
+declare const items: Item[];
+const data = { items, customerInfo: { name: 'John', address: 'Main St' } };`;
+    const host = ts.createCompilerHost({ strict: true });
+    const getSourceFile = host.getSourceFile;
+    host.getSourceFile = (fileName, languageVersion) => fileName === 'test.ts'
+      ? ts.createSourceFile(fileName, code, languageVersion, true)
+      : getSourceFile(fileName, languageVersion);
+    const program = ts.createProgram(['test.ts'], { strict: true, types: [] }, host);
+    const statement = program.getSourceFile('test.ts')!.statements[2] as ts.VariableStatement;
+
+    const issues = validateSchemaValue(statement.declarationList.declarations[0].initializer!, orderSchema, 'data', program.getTypeChecker());
+
+    expect(issues.map(issue => [issue.kind, issue.field])).toEqual([
+      ['optional-required-field', 'data.items[0].quantity']
+    ]);
+  });
+
+  test('should suggest similar names for unknown fields', () => {
+    const node = parseExpression(`{ items: [], customerInfo: { name: 'John', adress: 'Main St' } }`);
+
+    const [issue] = validateSchemaValue(node, orderSchema, 'data').filter(item => item.kind === 'unknown-field');
+
+    expect(issue.suggestions).toEqual(['address']);
+    expect(issue.message).toBe("Неизвестное поле: 'adress' в data.customerInfo. Возможно, имелось в виду: 'address'");
+  });
+});
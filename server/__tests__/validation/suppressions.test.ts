@@ -0,0 +1,77 @@
+import * as ts from 'typescript';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { SpecRegistry } from '../../src/spec/specRegistry';
+import { mockSwagger } from '../../src/types/swagger';
+import { RuleConfiguration } from '../../src/validation/rules';
+import { parseSuppressions } from '../../src/validation/suppressions';
+import { collectDiagnostics, createFeatureManager } from '../../src/workspace/linter';
+
+describe('suppressions', () => {
+  function lint(code: string, rules = new RuleConfiguration()): [string, number][] {
+    const document = TextDocument.create('file:///test.js', 'javascript', 1, code);
+    const sourceFile = ts.createSourceFile('test.js', code, ts.ScriptTarget.Latest, true);
+    const featureManager = createFeatureManager(new SpecRegistry(mockSwagger), undefined, rules);
+    return collectDiagnostics(featureManager, sourceFile, document, rules)
+      .map(diagnostic => [String(diagnostic.code), diagnostic.range.start.line]);
+  }
+
+  const unknownUrl = `$.ajax({ url: '/api/unknown', type: 'GET' });`;
+  const typeMismatch = `$.ajax({ url: '/api/users', type: 'POST', data: { username: 1, email: 'a' } });`;
+
+  test('should parse directives from comments only', () => {
+    const code = [
+      `// ajax-linter-disable-next-line unknown-url, type-mismatch -- legacy endpoint`,
+      `const text = '// ajax-linter-disable';`,
+      `/* ajax-linter-enable */`
+    ].join('\n');
+    const sourceFile = ts.createSourceFile('test.js', code, ts.ScriptTarget.Latest, true);
+
+    expect(parseSuppressions(sourceFile).map(({ kind, rules }) => [kind, rules])).toEqual([
+      ['disable-next-line', ['unknown-url', 'type-mismatch']],
+      ['enable', undefined]
+    ]);
+  });
+
+  test('should suppress diagnostics on the next line', () => {
+    expect(lint([`// ajax-linter-disable-next-line unknown-url`, unknownUrl, unknownUrl].join('\n'))).toEqual([
+      ['unknown-url', 2]
+    ]);
+    expect(lint([`// ajax-linter-disable-next-line`, typeMismatch].join('\n'))).toEqual([]);
+  });
+
+  test('should suppress diagnostics between disable and enable comments', () => {
+    const code = [
+      `/* ajax-linter-disable unknown-url */`,
+      unknownUrl,
+      typeMismatch,
+      `/* ajax-linter-enable unknown-url */`,
+      unknownUrl
+    ].join('\n');
+
+    expect(lint(code)).toEqual([
+      ['type-mismatch', 2],
+      ['unknown-url', 4]
+    ]);
+  });
+
+  test('should suppress diagnostics in the whole file without an enable comment', () => {
+    expect(lint([`/* ajax-linter-disable */`, unknownUrl, typeMismatch].join('\n'))).toEqual([]);
+  });
+
+  test('should report unused suppressions and unknown rules', () => {
+    const code = [
+      `// ajax-linter-disable-next-line unknown-url, type-mismatch, no-such-rule`,
+      unknownUrl
+    ].join('\n');
+
+    expect(lint(code)).toEqual([
+      ['unknown-suppressed-rule', 0],
+      ['unused-suppression', 0]
+    ]);
+
+    const rules = new RuleConfiguration();
+    rules.configure({ 'unused-suppression': 'off' });
+    expect(lint(code, rules)).toEqual([['unknown-suppressed-rule', 0]]);
+  });
+});
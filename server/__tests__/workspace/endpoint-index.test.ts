@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+import { SpecRegistry } from '../../src/spec/specRegistry';
+import { mockSwagger } from '../../src/types/swagger';
+import { RuleConfiguration } from '../../src/validation/rules';
+import { EndpointIndex } from '../../src/workspace/endpointIndex';
+import { createFeatureManager } from '../../src/workspace/linter';
+import { TypeScriptService } from '../../src/workspace/typeScriptService';
+import { WorkspaceDiagnostics } from '../../src/workspace/workspaceDiagnostics';
+
+describe('endpoint index', () => {
+  let workspaceDir: string;
+  let service: TypeScriptService;
+  let index: EndpointIndex;
+
+  const uriOf = (fileName: string) => pathToFileURL(path.join(workspaceDir, fileName)).toString();
+
+  beforeEach(() => {
+    workspaceDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'ajax-endpoints-')));
+    fs.writeFileSync(path.join(workspaceDir, 'users.js'), [
+      `$.ajax({ url: '/api/users/' + userId, type: 'PUT', data: user });`,
+      `fetch(\`/api/users/\${userId}\`);`
+    ].join('\n'));
+    fs.writeFileSync(path.join(workspaceDir, 'admin.js'), [
+      `axios.put('/api/users/42', user);`,
+      `axios.get('/api/products');`,
+      `axios.get('/api/unknown');`
+    ].join('\n'));
+
+    const rules = new RuleConfiguration();
+    const featureManager = createFeatureManager(new SpecRegistry(mockSwagger), undefined, rules);
+    service = new TypeScriptService({ all: () => [] });
+    service.configure(workspaceDir);
+    const workspace = new WorkspaceDiagnostics({ all: () => [] }, service, featureManager, rules);
+    workspace.scan([workspaceDir]);
+    index = new EndpointIndex(workspace, featureManager);
+  });
+
+  afterEach(() => {
+    service.dispose();
+    fs.rmSync(workspaceDir, { recursive: true, force: true });
+  });
+
+  test('should find all calls of the endpoint under the cursor', () => {
+    const references = index.findReferences(uriOf('users.js'), { line: 0, character: 20 });
+
+    expect(references).toEqual([
+      { uri: uriOf('admin.js'), range: { start: { line: 0, character: 11 }, end: { line: 0, character: 24 } } },
+      { uri: uriOf('users.js'), range: { start: { line: 0, character: 14 }, end: { line: 0, character: 36 } } },
+      { uri: uriOf('users.js'), range: { start: { line: 1, character: 6 }, end: { line: 1, character: 28 } } }
+    ]);
+    expect(index.findReferences(uriOf('admin.js'), { line: 2, character: 14 })).toEqual([]);
+  });
+
+  test('should provide workspace symbols named by operation', () => {
+    expect(index.findSymbols('').map(symbol => symbol.name)).toEqual([
+      'PUT /api/users/{userId}',
+      'GET /api/products',
+      'PUT /api/users/{userId}',
+      'GET /api/users/{userId}'
+    ]);
+    expect(index.findSymbols('put users').map(symbol => [symbol.name, symbol.location.uri])).toEqual([
+      ['PUT /api/users/{userId}', uriOf('admin.js')],
+      ['PUT /api/users/{userId}', uriOf('users.js')]
+    ]);
+  });
+});
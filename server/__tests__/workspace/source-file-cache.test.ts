@@ -0,0 +1,43 @@
+import * as ts from 'typescript';
+
+import { SourceFileCache } from '../../src/workspace/sourceFileCache';
+
+describe('SourceFileCache', () => {
+  const uri = 'file:///project/users.js';
+  const text = [
+    `const users = $.get('/api/users');`,
+    `$.ajax({ url: '/api/users', type: 'POST', data: { username: 'a' } });`
+  ].join('\n');
+  // Замена 'a' на 'bob' в последней строке
+  const edit = { range: { start: { line: 1, character: 61 }, end: { line: 1, character: 62 } }, text: 'bob' };
+
+  test('should update the tree incrementally and reuse unchanged nodes', () => {
+    const cache = new SourceFileCache();
+    const document = cache.create(uri, 'javascript', 1, text);
+    const before = cache.getSourceFile(document);
+    const firstStatement = before.statements[0];
+
+    cache.update(document, [edit], 2);
+    const after = cache.getSourceFile(document);
+
+    expect(after.text).toBe(document.getText());
+    expect(after.statements[0]).toBe(firstStatement);
+    expect(after.statements[1].getText()).toBe(`$.ajax({ url: '/api/users', type: 'POST', data: { username: 'bob' } });`);
+    expect(after.statements[1].parent).toBe(after);
+    expect(cache.getSourceFile(document)).toBe(after);
+  });
+
+  test('should give snapshots the range changed since the previous snapshot', () => {
+    const cache = new SourceFileCache();
+    const document = cache.create(uri, 'javascript', 1, text);
+    const first = cache.getSnapshot(document);
+
+    cache.update(document, [edit, { range: { start: { line: 0, character: 0 }, end: { line: 0, character: 5 } }, text: 'let' }], 2);
+    const second = cache.getSnapshot(document);
+    expect(second.getText(0, second.getLength())).toBe(document.getText());
+    expect(second.getChangeRange(first)).toEqual(ts.createTextChangeRange(ts.createTextSpan(0, 97), 97));
+
+    cache.update(document, [{ text: 'fetch("/api/users");' }], 3);
+    expect(cache.getSnapshot(document).getChangeRange(second)).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import * as ts from 'typescript';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostic } from 'vscode-languageserver/node';
+
+import { AjaxFeature } from '../../src/features/ajaxFeature';
+import { SpecRegistry } from '../../src/spec/specRegistry';
+import { SwaggerPaths } from '../../src/types/swagger';
+import { TypeScriptService } from '../../src/workspace/typeScriptService';
+
+const paths: SwaggerPaths = {
+  '/api/users': {
+    post: {
+      parameters: [
+        {
+          in: 'body',
+          name: 'body',
+          schema: {
+            type: 'object',
+            required: ['name', 'age'],
+            additionalProperties: false,
+            properties: {
+              name: { type: 'string' },
+              age: { type: 'integer' },
+              role: { type: 'string', enum: ['admin', 'user'] },
+              tags: { type: 'array', items: { type: 'string' } }
+            }
+          }
+        }
+      ]
+    }
+  }
+};
+
+describe('type-checked request validation', () => {
+  const registry = new SpecRegistry(paths);
+
+  function collectDiagnostics(code: string, fileName = 'test.ts'): Diagnostic[] {
+    const document = TextDocument.create(`file:///workspace/${fileName}`, 'typescript', 1, code);
+    const service = new TypeScriptService({ all: () => [document] });
+    const feature = new AjaxFeature(registry, service);
+    const sourceFile = service.getSourceFile(document.uri)!;
+    const diagnostics: Diagnostic[] = [];
+
+    ts.forEachChild(sourceFile, function visit(node) {
+      if (feature.matches(node)) {
+        feature.provideDiagnostics(node, document, diagnostics);
+      }
+      ts.forEachChild(node, visit);
+    });
+    service.dispose();
+    return diagnostics;
+  }
+
+  test('should check interface-typed data against the schema', () => {
+    const diagnostics = collectDiagnostics(`
+      interface User { name: string; age?: number; role: 'admin' | 'guest'; nickname: string; tags: number[] }
+      function save(user: User) {
+        $.ajax({ url: '/api/users', type: 'POST', data: user });
+      }
+    `);
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      "Обязательное поле 'data.age' объявлено необязательным в типе 'User'",
+      "Недопустимое значение \"guest\" для поля 'data.role' (тип '\"admin\" | \"guest\"'). Допустимые значения: \"admin\", \"user\"",
+      "Неизвестное поле: 'nickname' в data (тип 'User')",
+      "Ожидается тип 'string' для поля 'data.tags[0]', получен 'number'"
+    ]);
+  });
+
+  test('should check expressions inside literal data by their types', () => {
+    const diagnostics = collectDiagnostics(`
+      declare function findName(): string | undefined;
+      const count = 1.0;
+      $.ajax({ url: '/api/users', type: 'POST', data: { name: findName(), age: count, tags: [String(count)] } });
+      $.ajax({ url: '/api/users', type: 'POST', data: { name: 'John', age: 1.5 * count } });
+    `);
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      "Обязательное поле 'data.name' может быть undefined (тип 'string | undefined')"
+    ]);
+    expect(diagnostics[0].range.start.line).toBe(3);
+  });
+
+  test('should infer types in JavaScript files', () => {
+    const diagnostics = collectDiagnostics(`
+      const user = JSON.parse('{}') ? { name: 'John', age: '42' } : { name: 'Jane', age: 7 };
+      $.ajax({ url: '/api/users', type: 'POST', data: user });
+    `, 'test.js');
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      "Ожидается тип 'integer' для поля 'data.age', получен 'string'"
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { SpecRegistry } from '../../src/spec/specRegistry';
+import { mockSwagger } from '../../src/types/swagger';
+import { RuleConfiguration } from '../../src/validation/rules';
+import { createFeatureManager } from '../../src/workspace/linter';
+import { TypeScriptService } from '../../src/workspace/typeScriptService';
+import { WorkspaceDiagnostics } from '../../src/workspace/workspaceDiagnostics';
+
+describe('workspace diagnostics', () => {
+  let workspaceDir: string;
+  let openDocuments: TextDocument[];
+  let service: TypeScriptService;
+  let workspace: WorkspaceDiagnostics;
+
+  const unknownUrl = `$.ajax({ url: '/api/unknown', type: 'GET' });\n`;
+  const uriOf = (fileName: string) => pathToFileURL(path.join(workspaceDir, fileName)).toString();
+  const codesOf = (fileName: string) => workspace.getReport(uriOf(fileName))?.diagnostics.map(diagnostic => diagnostic.code);
+
+  beforeEach(() => {
+    workspaceDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'ajax-workspace-')));
+    fs.mkdirSync(path.join(workspaceDir, 'src'));
+    fs.mkdirSync(path.join(workspaceDir, 'node_modules'));
+    fs.writeFileSync(path.join(workspaceDir, 'src', 'closed.js'), unknownUrl);
+    fs.writeFileSync(path.join(workspaceDir, 'src', 'clean.ts'), `export const answer = 42;\n`);
+    fs.writeFileSync(path.join(workspaceDir, 'node_modules', 'library.js'), unknownUrl);
+    fs.mkdirSync(path.join(workspaceDir, 'dist'));
+    fs.writeFileSync(path.join(workspaceDir, 'dist', 'bundle.js'), unknownUrl);
+
+    openDocuments = [];
+    const rules = new RuleConfiguration();
+    service = new TypeScriptService({ all: () => openDocuments });
+    service.configure(workspaceDir);
+    workspace = new WorkspaceDiagnostics(
+      { all: () => openDocuments },
+      service,
+      createFeatureManager(new SpecRegistry(mockSwagger), service, rules),
+      rules
+    );
+  });
+
+  afterEach(() => {
+    service.dispose();
+    fs.rmSync(workspaceDir, { recursive: true, force: true });
+  });
+
+  test('should index workspace files and report diagnostics of closed files', () => {
+    expect(workspace.scan([workspaceDir])).toBe(2);
+    expect(workspace.getUris()).toEqual([uriOf('src/clean.ts'), uriOf('src/closed.js')]);
+    expect(codesOf('src/closed.js')).toEqual(['unknown-url']);
+    expect(codesOf('src/clean.ts')).toEqual([]);
+  });
+
+  test('should index only files selected by jsconfig.json', () => {
+    fs.mkdirSync(path.join(workspaceDir, 'scripts'));
+    fs.writeFileSync(path.join(workspaceDir, 'scripts', 'tool.js'), unknownUrl);
+    fs.writeFileSync(path.join(workspaceDir, 'jsconfig.json'), JSON.stringify({ include: ['src', 'dist'], exclude: ['src/clean.ts'] }));
+
+    expect(workspace.scan([workspaceDir])).toBe(2);
+    expect(workspace.getUris()).toEqual([uriOf('dist/bundle.js'), uriOf('src/closed.js')]);
+    expect(workspace.fileChanged(path.join(workspaceDir, 'scripts', 'tool.js'), false)).toBe(false);
+  });
+
+  test('should keep the result id while diagnostics do not change', () => {
+    workspace.scan([workspaceDir]);
+    const first = workspace.getReport(uriOf('src/closed.js'))!;
+
+    workspace.invalidate();
+    expect(workspace.getReport(uriOf('src/closed.js'))!.resultId).toBe(first.resultId);
+
+    openDocuments.push(TextDocument.create(uriOf('src/closed.js'), 'javascript', 2, `// ${unknownUrl}`));
+    const edited = workspace.getReport(uriOf('src/closed.js'))!;
+    expect(edited).toMatchObject({ version: 2, diagnostics: [] });
+    expect(edited.resultId).not.toBe(first.resultId);
+  });
+
+  test('should check a prepared file only while the document has not changed', () => {
+    workspace.scan([workspaceDir]);
+    openDocuments.push(TextDocument.create(uriOf('src/closed.js'), 'javascript', 2, unknownUrl));
+    const prepared = workspace.getFile(uriOf('src/closed.js'))!;
+
+    openDocuments[0] = TextDocument.create(uriOf('src/closed.js'), 'javascript', 3, `// ${unknownUrl}`);
+    expect(workspace.getReport(uriOf('src/closed.js'), prepared)).toMatchObject({ version: 3, diagnostics: [] });
+  });
+
+  test('should update the index when files change on disk', () => {
+    workspace.scan([workspaceDir]);
+    const createdPath = path.join(workspaceDir, 'src', 'created.js');
+    fs.writeFileSync(createdPath, unknownUrl);
+
+    expect(workspace.fileChanged(createdPath, false)).toBe(true);
+    expect(workspace.fileChanged(path.join(workspaceDir, 'node_modules', 'library.js'), false)).toBe(false);
+    expect(workspace.fileChanged(path.join(workspaceDir, 'dist', 'bundle.js'), false)).toBe(false);
+    expect(codesOf('src/created.js')).toEqual(['unknown-url']);
+
+    // Закрытый файл перечитывается с диска только после сообщения об изменении
+    expect(codesOf('src/closed.js')).toEqual(['unknown-url']);
+    fs.writeFileSync(path.join(workspaceDir, 'src', 'closed.js'), `// ${unknownUrl}`);
+    expect(workspace.fileChanged(path.join(workspaceDir, 'src', 'closed.js'), false)).toBe(true);
+    expect(codesOf('src/closed.js')).toEqual([]);
+
+    fs.rmSync(createdPath);
+    expect(workspace.fileChanged(createdPath, true)).toBe(true);
+    expect(workspace.getUris()).not.toContain(uriOf('src/created.js'));
+    expect(workspace.takeRemovedUris()).toEqual([uriOf('src/created.js')]);
+    expect(workspace.takeRemovedUris()).toEqual([]);
+  });
+});
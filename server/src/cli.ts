@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+/**
+ * @module cli
+ * @description Точка входа консольной утилиты `ajax-linter`.
+ */
+
+import { ExitCode, runLint } from './cli/lintCommand';
+
+runLint(process.argv.slice(2)).then(exitCode => {
+  process.exitCode = exitCode;
+}).catch(error => {
+  // Сбой проверки или записи отчета не должен выглядеть для CI как найденные ошибки
+  console.error(error);
+  process.exitCode = ExitCode.Fatal;
+});
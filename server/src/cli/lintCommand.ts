@@ -0,0 +1,184 @@
+/**
+ * @module lintCommand
+ * @description Команда консольной утилиты `ajax-linter`: проверяет файлы проекта по спецификации
+ * тем же конвейером диагностик, что и языковой сервер, и возвращает код завершения для pre-commit и CI.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { SpecRegistry } from '../spec/specRegistry';
+import { findSourceFiles, findWorkspaceFiles, lintFiles } from '../workspace/linter';
+import { countFindings, createReport, formatReport, isReportFormat, REPORT_FORMATS, ReportFormat } from '../reporters/report';
+import { isRuleId, isRuleSeverity, RuleConfiguration, RuleSeverity } from '../validation/rules';
+
+/**
+ * Коды завершения команды.
+ */
+export const ExitCode = {
+  /** Ошибок не найдено. */
+  Success: 0,
+  /** Найдены ошибки. */
+  LintErrors: 1,
+  /** Неверные аргументы или спецификацию не удалось загрузить. */
+  Fatal: 2
+} as const;
+
+/**
+ * Вывод команды (по умолчанию — консоль).
+ */
+export interface CommandOutput {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * Разобранные аргументы командной строки.
+ * @property {string[]} specPaths - Пути к файлам спецификаций.
+ * @property {string} [projectPath] - Корень проекта.
+ * @property {ReportFormat} format - Формат отчета.
+ * @property {string} [outputFile] - Файл для отчета (по умолчанию отчет выводится в консоль).
+ * @property {Object.<string, RuleSeverity>} rules - Важность правил, заданная опциями `--rule`.
+ * @property {string[]} patterns - Шаблоны проверяемых файлов.
+ * @property {boolean} help - Запрошена справка.
+ */
+export interface LintArguments {
+  specPaths: string[];
+  projectPath?: string;
+  format: ReportFormat;
+  outputFile?: string;
+  rules: { [ruleId: string]: RuleSeverity };
+  patterns: string[];
+  help: boolean;
+}
+
+const USAGE = `Usage: ajax-linter --spec <file> [--spec <file>...] [options] [patterns...]
+
+Checks HTTP requests in JavaScript/TypeScript files against an OpenAPI 3 / Swagger 2 spec.
+Patterns use tsconfig "include" syntax (e.g. "src/**/*.js"). By default, the files of tsconfig.json / jsconfig.json
+are checked, or all source files outside node_modules and build folders (out, dist, build, coverage).
+
+Options:
+  -s, --spec <file>         Spec file (JSON or YAML); repeat for several backends
+  -p, --project <dir>       Project root with tsconfig.json / jsconfig.json (default: current directory)
+  -f, --format <name>       Report format: ${REPORT_FORMATS.join(', ')} (default: stylish)
+  -o, --output-file <file>  Write the report to a file instead of the console
+  -r, --rule <id>=<level>   Set rule severity: off, hint, info, warning or error (repeatable)
+  -h, --help                Show this help`;
+
+/**
+ * Разбирает аргументы командной строки.
+ * @param {string[]} args - Аргументы без пути к node и скрипту.
+ * @returns {LintArguments} Разобранные аргументы.
+ * @throws {Error} Если опция неизвестна или у нее нет значения.
+ */
+export function parseArguments(args: string[]): LintArguments {
+  const result: LintArguments = { specPaths: [], format: 'stylish', rules: {}, patterns: [], help: false };
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    const [name, inlineValue] = arg.startsWith('--') && arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+    const takeValue = (): string => {
+      const value = inlineValue ?? args[++index];
+      if (value === undefined || value === '') {
+        throw new Error(`Option ${name} requires a value`);
+      }
+      return value;
+    };
+
+    switch (name) {
+      case '-s':
+      case '--spec':
+        result.specPaths.push(takeValue());
+        break;
+      case '-p':
+      case '--project':
+        result.projectPath = takeValue();
+        break;
+      case '-f':
+      case '--format': {
+        const format = takeValue();
+        if (!isReportFormat(format)) {
+          throw new Error(`Unknown format ${format}, expected one of: ${REPORT_FORMATS.join(', ')}`);
+        }
+        result.format = format;
+        break;
+      }
+      case '-o':
+      case '--output-file':
+        result.outputFile = takeValue();
+        break;
+      case '-r':
+      case '--rule': {
+        const [ruleId, severity] = takeValue().split('=');
+        if (!isRuleId(ruleId) || !isRuleSeverity(severity)) {
+          throw new Error(`Invalid rule setting ${ruleId}=${severity ?? ''}, expected <rule id>=<off|hint|info|warning|error>`);
+        }
+        result.rules[ruleId] = severity;
+        break;
+      }
+      case '-h':
+      case '--help':
+        result.help = true;
+        break;
+      default:
+        if (name.startsWith('-')) {
+          throw new Error(`Unknown option ${name}`);
+        }
+        result.patterns.push(arg);
+    }
+  }
+  return result;
+}
+
+/**
+ * Выполняет проверку проекта.
+ * @param {string[]} args - Аргументы командной строки.
+ * @param {CommandOutput} [output] - Вывод результатов.
+ * @param {string} [cwd] - Текущий каталог, относительно которого заданы пути.
+ * @returns {Promise<number>} Код завершения (`ExitCode`).
+ */
+export async function runLint(args: string[], output: CommandOutput = console, cwd = process.cwd()): Promise<number> {
+  let parsed: LintArguments;
+  try {
+    parsed = parseArguments(args);
+  } catch (error) {
+    output.error(`${(error as Error).message}\n\n${USAGE}`);
+    return ExitCode.Fatal;
+  }
+  if (parsed.help) {
+    output.log(USAGE);
+    return ExitCode.Success;
+  }
+  if (parsed.specPaths.length === 0) {
+    output.error(`Missing required option --spec\n\n${USAGE}`);
+    return ExitCode.Fatal;
+  }
+
+  const rootPath = path.resolve(cwd, parsed.projectPath ?? '.');
+  const specRegistry = new SpecRegistry();
+  const failures = await specRegistry.loadAll(parsed.specPaths.map(specPath => ({ filePath: path.resolve(cwd, specPath) })));
+  if (failures.length > 0) {
+    failures.forEach(({ filePath, error }) => output.error(`Failed to load spec ${filePath}: ${error.message}`));
+    return ExitCode.Fatal;
+  }
+
+  // Без шаблонов проверяются те же файлы, что и в рабочей области языкового сервера
+  const filePaths = parsed.patterns.length > 0 ? findSourceFiles(rootPath, parsed.patterns) : findWorkspaceFiles(rootPath);
+  if (filePaths.length === 0) {
+    output.error(`No files matching ${parsed.patterns.join(', ') || 'the project'} in ${rootPath}`);
+    return ExitCode.Fatal;
+  }
+
+  const rules = new RuleConfiguration();
+  rules.configure(parsed.rules);
+  const report = createReport(lintFiles(specRegistry, rootPath, filePaths, rules), cwd);
+  const text = formatReport(report, parsed.format);
+  if (parsed.outputFile) {
+    const outputPath = path.resolve(cwd, parsed.outputFile);
+    await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.promises.writeFile(outputPath, `${text}\n`, 'utf8');
+  } else {
+    output.log(text);
+  }
+  return countFindings(report).error > 0 ? ExitCode.LintErrors : ExitCode.Success;
+}
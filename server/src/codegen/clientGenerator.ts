@@ -0,0 +1,275 @@
+/**
+ * @module clientGenerator
+ * @description Генерация типизированного клиента API по спецификации.
+ * Создаются два файла: `api.d.ts` с интерфейсами схем и типами параметров, тел и ответов операций
+ * и `apiClient.ts` с функцией на каждую операцию, которая выполняет запрос через `fetch` или `$.ajax`.
+ */
+
+import { HTTP_METHODS, SwaggerMethod, SwaggerParameter, SwaggerPaths, SwaggerSchema, SwaggerSchemas } from '../types/swagger';
+import { getSuccessResponse } from '../utils/schemaUtils';
+import { formatPropertyKey } from '../utils/editUtils';
+import { formatDocComment, toTypeName, TypeDeclarations } from './typeGenerator';
+
+/**
+ * Способ выполнения запросов в сгенерированном клиенте.
+ * @typedef {'fetch' | 'jquery'} ApiClientKind
+ */
+export type ApiClientKind = 'fetch' | 'jquery';
+
+/**
+ * Сгенерированный файл.
+ * @property {string} fileName - Имя файла относительно каталога вывода.
+ * @property {string} content - Содержимое файла.
+ */
+export interface GeneratedFile {
+  fileName: string;
+  content: string;
+}
+
+const TYPES_FILE = 'api.d.ts';
+const CLIENT_FILE = 'apiClient.ts';
+const HEADER = '// Сгенерировано ajax-linter по спецификации API. Не редактируйте файл вручную.';
+
+// Зарезервированные слова, которые нельзя использовать как имя функции
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+  'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null',
+  'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with',
+  'implements', 'interface', 'let', 'package', 'private', 'protected', 'public', 'static', 'yield', 'await',
+  // Имена вспомогательных функций и настроек клиента
+  'request', 'buildUrl', 'buildHeaders', 'apiConfig'
+]);
+
+/**
+ * Операция спецификации, для которой генерируется функция клиента.
+ */
+interface OperationInfo {
+  functionName: string;
+  method: string;
+  template: string;
+  operation: SwaggerMethod;
+  parameters: SwaggerParameter[];
+  body?: SwaggerParameter;
+  paramsType?: string;
+  bodyType?: string;
+  responseType?: string;
+}
+
+/**
+ * Генерирует типы и клиент API по путям спецификации.
+ * Именованные схемы объявляются все, даже если операции на них не ссылаются.
+ * @param {SwaggerPaths} paths - Пути загруженной спецификации.
+ * @param {ApiClientKind} clientKind - Способ выполнения запросов.
+ * @param {SwaggerSchemas} [schemas] - Именованные схемы спецификации.
+ * @returns {GeneratedFile[]} Файл типов и файл клиента.
+ */
+export function generateApiClient(paths: SwaggerPaths, clientKind: ApiClientKind, schemas: SwaggerSchemas = {}): GeneratedFile[] {
+  const declarations = new TypeDeclarations();
+  const usedNames = new Set<string>();
+  const operations: OperationInfo[] = [];
+
+  for (const schema of Object.values(schemas)) {
+    declarations.typeOf(schema);
+  }
+
+  for (const [template, pathItem] of Object.entries(paths)) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) {
+        continue;
+      }
+      const functionName = reserveFunctionName(getFunctionName(method, template, operation), usedNames);
+      const typeName = toTypeName(functionName);
+      const info: OperationInfo = {
+        functionName,
+        method: method.toUpperCase(),
+        template,
+        operation,
+        parameters: (operation.parameters ?? []).filter(param => param.in === 'path' || param.in === 'query' || param.in === 'header'),
+        body: operation.parameters?.find(param => param.in === 'body')
+      };
+
+      if (info.parameters.length > 0) {
+        info.paramsType = declarations.declare(`${typeName}Params`, createParamsSchema(info.parameters),
+          `Параметры запроса ${info.method} ${template}`);
+      }
+      if (info.body) {
+        info.bodyType = declarations.declare(`${typeName}Body`, info.body.schema ?? {},
+          info.body.description ?? `Тело запроса ${info.method} ${template}`);
+      }
+      const responseSchema = getSuccessResponse(operation)?.response.schema;
+      if (responseSchema) {
+        info.responseType = declarations.declare(`${typeName}Response`, responseSchema,
+          `Ответ ${info.method} ${template}`);
+      }
+      operations.push(info);
+    }
+  }
+
+  return [
+    { fileName: TYPES_FILE, content: `${HEADER}\n\n${declarations.render()}\n` },
+    { fileName: CLIENT_FILE, content: renderClient(operations, clientKind) }
+  ];
+}
+
+/**
+ * Собирает параметры пути, строки запроса и заголовков в схему объекта,
+ * чтобы объявить их тип теми же правилами, что и схемы спецификации.
+ */
+function createParamsSchema(parameters: SwaggerParameter[]): SwaggerSchema {
+  const properties: { [key: string]: SwaggerSchema } = {};
+  for (const param of parameters) {
+    properties[param.name] = { ...param.schema, description: param.description ?? param.schema?.description };
+  }
+  return {
+    type: 'object',
+    properties,
+    required: parameters.filter(param => param.required || param.in === 'path').map(param => param.name),
+    additionalProperties: false
+  };
+}
+
+/**
+ * Возвращает имя функции операции: `operationId` в camelCase,
+ * иначе метод и сегменты пути ('GET /api/users/{userId}' -> 'getApiUsersByUserId').
+ */
+function getFunctionName(method: string, template: string, operation: SwaggerMethod): string {
+  const source = operation.operationId ?? [
+    method,
+    ...template.split('/').filter(segment => segment !== '').map(segment => segment.replace(/^\{(.+)\}$/, 'by-$1'))
+  ].join('-');
+  const typeName = toTypeName(source);
+  return typeName[0].toLowerCase() + typeName.slice(1);
+}
+
+function reserveFunctionName(name: string, usedNames: Set<string>): string {
+  let candidate = RESERVED_WORDS.has(name) ? `${name}Operation` : name;
+  for (let index = 2; usedNames.has(candidate); index++) {
+    candidate = `${name}${index}`;
+  }
+  usedNames.add(candidate);
+  return candidate;
+}
+
+function renderClient(operations: OperationInfo[], clientKind: ApiClientKind): string {
+  const sections = [
+    HEADER,
+    `import type * as Api from './${TYPES_FILE.replace(/\.d\.ts$/, '')}';`,
+    [
+      '/** Настройки клиента. */',
+      'export const apiConfig = {',
+      '  /** Адрес сервера, к которому добавляются пути спецификации, например \'https://example.com\'. */',
+      '  baseUrl: \'\'',
+      '};'
+    ].join('\n'),
+    HELPERS,
+    clientKind === 'jquery' ? JQUERY_REQUEST : FETCH_REQUEST,
+    ...operations.map(renderOperation)
+  ];
+  return `${sections.join('\n\n')}\n`;
+}
+
+function renderOperation(info: OperationInfo): string {
+  const args: string[] = [];
+  if (info.paramsType) {
+    const hasRequired = info.parameters.some(param => param.required || param.in === 'path');
+    args.push(hasRequired ? `params: Api.${info.paramsType}` : `params: Api.${info.paramsType} = {}`);
+  }
+  if (info.bodyType) {
+    args.push(info.body?.required ? `body: Api.${info.bodyType}` : `body?: Api.${info.bodyType}`);
+  }
+
+  const url = info.template.replace(/\{([^}]+)\}/g, (_match, name: string) => `\${encodeURIComponent(String(${getParamAccess(name)}))}`);
+  const options: string[] = [];
+  for (const location of ['query', 'header'] as const) {
+    const params = info.parameters.filter(param => param.in === location);
+    if (params.length > 0) {
+      const entries = params.map(param => `${formatPropertyKey(param.name)}: ${getParamAccess(param.name)}`);
+      options.push(`${location === 'query' ? 'query' : 'headers'}: { ${entries.join(', ')} }`);
+    }
+  }
+  if (info.bodyType) {
+    options.push('body');
+  }
+
+  const responseType = info.responseType ? `Api.${info.responseType}` : 'void';
+  const requestArgs = [`'${info.method}'`, `\`${url}\``, ...(options.length > 0 ? [`{ ${options.join(', ')} }`] : [])];
+  const description = [info.operation.description, `${info.method} ${info.template}`].filter(Boolean).join('\n');
+  return [
+    `${formatDocComment(description, '')}export function ${info.functionName}(${args.join(', ')}): Promise<${responseType}> {`,
+    `  return request<${responseType}>(${requestArgs.join(', ')});`,
+    '}'
+  ].join('\n');
+}
+
+function getParamAccess(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? `params.${name}` : `params[${JSON.stringify(name)}]`;
+}
+
+const HELPERS = `interface RequestOptions {
+  query?: { [name: string]: unknown };
+  headers?: { [name: string]: unknown };
+  body?: unknown;
+}
+
+function buildUrl(path: string, query: RequestOptions['query']): string {
+  const search = Object.entries(query ?? {})
+    .filter(([, value]) => value !== undefined && value !== null)
+    .flatMap(([name, value]) => (Array.isArray(value) ? value : [value])
+      .map(item => \`\${encodeURIComponent(name)}=\${encodeURIComponent(String(item))}\`))
+    .join('&');
+  return apiConfig.baseUrl + path + (search ? \`?\${search}\` : '');
+}
+
+function buildHeaders(headers: RequestOptions['headers']): { [name: string]: string } {
+  const result: { [name: string]: string } = {};
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (value !== undefined && value !== null) {
+      result[name] = String(value);
+    }
+  }
+  return result;
+}`;
+
+const FETCH_REQUEST = `async function request<T>(method: string, path: string, options: RequestOptions = {}): Promise<T> {
+  const headers = buildHeaders(options.headers);
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+  const response = await fetch(buildUrl(path, options.query), {
+    method,
+    headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+  });
+  if (!response.ok) {
+    throw new Error(\`\${method} \${path}: \${response.status} \${response.statusText}\`);
+  }
+  const text = await response.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}`;
+
+const JQUERY_REQUEST = `interface JQueryXhr {
+  status: number;
+  statusText: string;
+}
+
+declare const $: {
+  ajax(settings: { [key: string]: unknown }): {
+    then(done: (data: unknown) => void, fail: (xhr: JQueryXhr) => void): unknown;
+  };
+};
+
+function request<T>(method: string, path: string, options: RequestOptions = {}): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    $.ajax({
+      url: buildUrl(path, options.query),
+      type: method,
+      headers: buildHeaders(options.headers),
+      contentType: options.body !== undefined ? 'application/json' : undefined,
+      data: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    }).then(
+      data => resolve(data as T),
+      xhr => reject(new Error(\`\${method} \${path}: \${xhr.status} \${xhr.statusText}\`))
+    );
+  });
+}`;
@@ -0,0 +1,170 @@
+/**
+ * @module typeGenerator
+ * @description Перевод схем Swagger в типы TypeScript. Используется та же модель `SwaggerSchema`
+ * и те же правила разбора `allOf` / `oneOf` / `anyOf`, что и при проверке запросов,
+ * поэтому сгенерированные типы и диагностики описывают данные одинаково.
+ * Именованные схемы (`$ref`) объявляются отдельными интерфейсами, остальные встраиваются в место использования.
+ */
+
+import { SwaggerSchema } from '../types/swagger';
+import { getRefName, getSchemaVariants } from '../utils/schemaUtils';
+import { formatPropertyKey } from '../utils/editUtils';
+
+/**
+ * Набор объявлений типов генерируемого файла.
+ * Каждая именованная схема объявляется один раз; имена типов уникальны в пределах набора.
+ */
+export class TypeDeclarations {
+  private readonly refNames = new Map<string, string>();
+  private readonly usedNames = new Set<string>();
+  private readonly declarations: string[] = [];
+
+  /**
+   * Возвращает тип TypeScript для схемы, объявляя встреченные именованные схемы.
+   * @param {SwaggerSchema} schema - Схема.
+   * @param {string} [indent] - Отступ строки, в которой стоит тип (для многострочных объектных типов).
+   * @returns {string} Тип TypeScript, например `User[] | null`.
+   */
+  typeOf(schema: SwaggerSchema, indent = ''): string {
+    return schema.$ref ? this.declareRef(schema) : this.inlineType(schema, indent);
+  }
+
+  /**
+   * Объявляет именованный тип для схемы: объектный тип — интерфейсом, остальные — псевдонимом типа.
+   * @param {string} name - Желаемое имя типа (при совпадении к нему добавляется номер).
+   * @param {SwaggerSchema} schema - Схема.
+   * @param {string} [description] - Описание для комментария документации.
+   * @returns {string} Имя объявленного типа.
+   */
+  declare(name: string, schema: SwaggerSchema, description?: string): string {
+    const typeName = this.reserveName(name);
+    if (schema.$ref) {
+      // Именованная схема объявляется отдельно, здесь — только псевдоним
+      const refType = this.declareRef(schema);
+      this.declarations.push(`${formatDocComment(description, '')}export type ${typeName} = ${refType};`);
+    } else {
+      this.addDeclaration(typeName, schema, description ?? schema.description);
+    }
+    return typeName;
+  }
+
+  /**
+   * Возвращает текст всех объявлений.
+   */
+  render(): string {
+    return this.declarations.join('\n\n');
+  }
+
+  private declareRef(schema: SwaggerSchema): string {
+    const ref = schema.$ref!;
+    const existing = this.refNames.get(ref);
+    if (existing) {
+      return existing;
+    }
+    const typeName = this.reserveName(getRefName(ref));
+    // Имя регистрируется до разбора содержимого, чтобы рекурсивные схемы ссылались на сами себя
+    this.refNames.set(ref, typeName);
+    this.addDeclaration(typeName, schema, schema.description);
+    return typeName;
+  }
+
+  private addDeclaration(typeName: string, schema: SwaggerSchema, description: string | undefined): void {
+    const type = this.inlineType(schema, '');
+    const variants = getSchemaVariants(schema);
+    // Интерфейсом объявляется только объектный тип; объединения и nullable-объекты — псевдонимами
+    const declaration = variants.length === 1 && !variants[0].nullable && type.startsWith('{')
+      ? `export interface ${typeName} ${type}`
+      : `export type ${typeName} = ${type};`;
+    this.declarations.push(`${formatDocComment(description, '')}${declaration}`);
+  }
+
+  private reserveName(name: string): string {
+    const base = toTypeName(name);
+    let candidate = base;
+    for (let index = 2; this.usedNames.has(candidate); index++) {
+      candidate = `${base}${index}`;
+    }
+    this.usedNames.add(candidate);
+    return candidate;
+  }
+
+  private inlineType(schema: SwaggerSchema, indent: string): string {
+    const variants = getSchemaVariants(schema);
+    if (variants.length > 1) {
+      return [...new Set(variants.map(variant => this.typeOf(variant, indent)))].join(' | ');
+    }
+
+    const variant = variants[0];
+    let type: string;
+    // Альтернатива oneOf / anyOf, сохранившая ссылку, объявляется под своим именем
+    if (variant.$ref && variant.$ref !== schema.$ref) {
+      type = this.declareRef(variant);
+    } else if (variant.enum) {
+      type = variant.enum.map(value => JSON.stringify(value)).join(' | ');
+    } else if (variant.type === 'string') {
+      type = 'string';
+    } else if (variant.type === 'integer' || variant.type === 'number') {
+      type = 'number';
+    } else if (variant.type === 'boolean') {
+      type = 'boolean';
+    } else if (variant.type === 'array') {
+      const itemType = variant.items ? this.typeOf(variant.items, indent) : 'unknown';
+      type = itemType.includes('|') ? `Array<${itemType}>` : `${itemType}[]`;
+    } else if (variant.type === 'object' || variant.properties || variant.additionalProperties !== undefined) {
+      type = this.objectType(variant, indent);
+    } else {
+      type = 'unknown';
+    }
+    return variant.nullable ? `${type} | null` : type;
+  }
+
+  private objectType(schema: SwaggerSchema, indent: string): string {
+    const innerIndent = `${indent}  `;
+    const lines: string[] = [];
+    for (const [name, propSchema] of Object.entries(schema.properties ?? {})) {
+      const optional = schema.required?.includes(name) ? '' : '?';
+      lines.push(`${formatDocComment(propSchema.description, innerIndent)}${innerIndent}${formatPropertyKey(name)}${optional}: ${this.typeOf(propSchema, innerIndent)};`);
+    }
+
+    // Без описанных свойств объект свободный; при описанных свойствах индексная сигнатура должна их допускать
+    const additionalProps = schema.additionalProperties ?? !schema.properties;
+    if (additionalProps !== false) {
+      const valueType = typeof additionalProps === 'object' && !schema.properties
+        ? this.typeOf(additionalProps, innerIndent)
+        : 'unknown';
+      lines.push(`${innerIndent}[key: string]: ${valueType};`);
+    }
+    return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : '{}';
+  }
+}
+
+/**
+ * Переводит произвольное имя в имя типа: 'user-profile.v2' -> 'UserProfileV2'.
+ * @param {string} name - Исходное имя.
+ * @returns {string} Имя типа в PascalCase.
+ */
+export function toTypeName(name: string): string {
+  const words = name.split(/[^A-Za-z0-9_$]+/).filter(word => word !== '');
+  const typeName = words.map(word => word[0].toUpperCase() + word.slice(1)).join('');
+  if (typeName === '') {
+    return 'Type';
+  }
+  return /^[0-9]/.test(typeName) ? `_${typeName}` : typeName;
+}
+
+/**
+ * Форматирует описание в комментарий документации с переводом строки в конце.
+ * @param {string | undefined} description - Описание.
+ * @param {string} indent - Отступ комментария.
+ * @returns {string} Комментарий или пустая строка, если описания нет.
+ */
+export function formatDocComment(description: string | undefined, indent: string): string {
+  if (!description?.trim()) {
+    return '';
+  }
+  const lines = description.trim().replace(/\*\//g, '*\\/').split(/\r?\n/);
+  if (lines.length === 1) {
+    return `${indent}/** ${lines[0]} */\n`;
+  }
+  return `${indent}/**\n${lines.map(line => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+}
@@ -0,0 +1,151 @@
+/**
+ * @module responseAccess
+ * @description Поиск обработчиков ответа HTTP-запроса и обращений к полям ответа внутри них.
+ * Обработчиком считается функция, первый параметр которой получает данные ответа:
+ * колбэк `success`, колбэки-аргументы вызова и колбэки цепочек `.done()` / `.then()`.
+ * Обращение к полю — цепочка `response.user.name` или `response['items'][0]`, начинающаяся с этого параметра.
+ */
+
+import * as ts from 'typescript';
+
+import { resolveExpression } from './valueResolver';
+
+// Методы jqXHR, которые возвращают тот же объект, поэтому колбэки цепочки получают тот же ответ
+const SAME_PROMISE_METHODS = ['done', 'fail', 'always'];
+// Методы, первый колбэк которых получает ответ
+const RESPONSE_METHODS = ['done', 'then'];
+
+/**
+ * Обращение к полю ответа.
+ * @property {ts.PropertyAccessExpression | ts.ElementAccessExpression} node - Выражение обращения.
+ * @property {ts.Node} nameNode - Узел имени поля (идентификатор или строковый литерал).
+ * @property {(string | number)[]} path - Путь к полю от параметра обработчика, например ['user', 'name'].
+ */
+export interface ResponseAccess {
+  node: ts.PropertyAccessExpression | ts.ElementAccessExpression;
+  nameNode: ts.Node;
+  path: (string | number)[];
+}
+
+/**
+ * Обработчик ответа.
+ * @property {ts.FunctionLikeDeclaration} handler - Функция-обработчик.
+ * @property {ts.Identifier} parameter - Параметр, получающий ответ.
+ */
+export interface ResponseHandler {
+  handler: ts.FunctionLikeDeclaration;
+  parameter: ts.Identifier;
+}
+
+/**
+ * Находит обработчики ответа вызова: переданные колбэки и колбэки цепочек `.done()` / `.then()`.
+ * Цепочка продолжается через `.done()`, `.fail()` и `.always()` и заканчивается на первом `.then()`:
+ * он возвращает новое обещание с другим значением.
+ * @param {ts.CallExpression} call - Вызов HTTP-клиента.
+ * @param {ts.Expression[]} callbacks - Колбэки, переданные в сам вызов (например, `success`).
+ * @returns {ResponseHandler[]} Обработчики с параметром-идентификатором.
+ */
+export function findResponseHandlers(call: ts.CallExpression, callbacks: ts.Expression[]): ResponseHandler[] {
+  const candidates = [...callbacks];
+
+  let current: ts.Expression = call;
+  while (ts.isPropertyAccessExpression(current.parent) && ts.isCallExpression(current.parent.parent) &&
+    current.parent.parent.expression === current.parent) {
+    const methodName = current.parent.name.text;
+    const chainedCall = current.parent.parent;
+    if (RESPONSE_METHODS.includes(methodName) && chainedCall.arguments[0]) {
+      candidates.push(chainedCall.arguments[0]);
+    }
+    if (!SAME_PROMISE_METHODS.includes(methodName)) {
+      break;
+    }
+    current = chainedCall;
+  }
+
+  return candidates.flatMap(candidate => {
+    const handler = resolveExpression(candidate);
+    if (!ts.isFunctionExpression(handler) && !ts.isArrowFunction(handler)) {
+      return [];
+    }
+    const parameter = handler.parameters[0]?.name;
+    return parameter && ts.isIdentifier(parameter) ? [{ handler, parameter }] : [];
+  });
+}
+
+/**
+ * Собирает обращения к полям ответа в теле обработчика.
+ * Для цепочки `response.user.name` возвращается обращение к каждому уровню.
+ * Вложенные функции, параметр которых скрывает параметр ответа, не просматриваются.
+ * @param {ResponseHandler} handler - Обработчик ответа.
+ * @returns {ResponseAccess[]} Обращения к полям.
+ */
+export function collectResponseAccesses(handler: ResponseHandler): ResponseAccess[] {
+  const name = handler.parameter.text;
+  const accesses: ResponseAccess[] = [];
+  const body = handler.handler.body;
+  if (!body) {
+    return accesses;
+  }
+
+  ts.forEachChild(body, function visit(node) {
+    if (ts.isFunctionLike(node) && node.parameters.some(param => declaresName(param.name, name))) {
+      return;
+    }
+    if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+      const access = getResponseAccess(node, name);
+      if (access) {
+        accesses.push(access);
+      }
+    }
+    ts.forEachChild(node, visit);
+  });
+  return accesses;
+}
+
+/**
+ * Возвращает обращение к полю ответа, если выражение — цепочка от параметра ответа.
+ * @param {ts.PropertyAccessExpression | ts.ElementAccessExpression} node - Выражение обращения.
+ * @param {string} parameterName - Имя параметра ответа.
+ * @returns {ResponseAccess | undefined} Обращение или `undefined`.
+ */
+export function getResponseAccess(node: ts.PropertyAccessExpression | ts.ElementAccessExpression, parameterName: string): ResponseAccess | undefined {
+  const path: (string | number)[] = [];
+  let current: ts.Expression = node;
+  let nameNode: ts.Node | undefined;
+
+  while (ts.isPropertyAccessExpression(current) || ts.isElementAccessExpression(current)) {
+    let segment: string | number;
+    let segmentNode: ts.Node;
+    if (ts.isPropertyAccessExpression(current)) {
+      segment = current.name.text;
+      segmentNode = current.name;
+    } else if (ts.isStringLiteralLike(current.argumentExpression)) {
+      segment = current.argumentExpression.text;
+      segmentNode = current.argumentExpression;
+    } else if (ts.isNumericLiteral(current.argumentExpression)) {
+      segment = Number(current.argumentExpression.text);
+      segmentNode = current.argumentExpression;
+    } else {
+      // Невычислимый индекс: элемент массива или неизвестное поле объекта
+      segment = 0;
+      segmentNode = current.argumentExpression;
+    }
+    path.unshift(segment);
+    nameNode = nameNode ?? segmentNode;
+    current = current.expression;
+    while (ts.isParenthesizedExpression(current) || ts.isNonNullExpression(current)) {
+      current = current.expression;
+    }
+  }
+
+  return ts.isIdentifier(current) && current.text === parameterName && nameNode
+    ? { node, nameNode, path }
+    : undefined;
+}
+
+function declaresName(name: ts.BindingName, target: string): boolean {
+  if (ts.isIdentifier(name)) {
+    return name.text === target;
+  }
+  return name.elements.some(element => !ts.isOmittedExpression(element) && declaresName(element.name, target));
+}
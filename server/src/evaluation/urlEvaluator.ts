@@ -0,0 +1,123 @@
+/**
+ * @module urlEvaluator
+ * @description Частичное вычисление URL запроса по синтаксическому дереву файла.
+ * Строковые литералы, шаблонные строки и конкатенация склеиваются в шаблон URL,
+ * переменные и свойства объектов-констант подставляются из объявлений в том же файле (см. valueResolver),
+ * а значения, которые нельзя вычислить (`${id}`, параметры функций), заменяются на `URL_WILDCARD`:
+ * `` `/api/users/${id}` `` -> '/api/users/*'.
+ */
+
+import * as ts from 'typescript';
+
+import { URL_WILDCARD } from '../utils/utils';
+import { resolveReference } from './valueResolver';
+
+/**
+ * Часть вычисленного URL.
+ * @property {string} text - Текст части (для невычислимого выражения — `URL_WILDCARD`).
+ * @property {number} start - Начало исходного текста части в файле.
+ * @property {number} end - Конец исходного текста части в файле.
+ * @property {boolean} exact - Символы части взяты из литерала в выражении URL один к одному,
+ *   поэтому смещения внутри части можно перевести в смещения в файле.
+ */
+export interface UrlPart {
+  text: string;
+  start: number;
+  end: number;
+  exact: boolean;
+}
+
+/**
+ * Вычисленный URL запроса.
+ * @property {string} text - Шаблон URL, например '/api/users/*?page=1'.
+ * @property {ts.Expression} node - Исходное выражение URL.
+ * @property {UrlPart[]} parts - Части, из которых склеен шаблон.
+ */
+export interface EvaluatedUrl {
+  text: string;
+  node: ts.Expression;
+  parts: UrlPart[];
+}
+
+/**
+ * Вычисляет шаблон URL из выражения.
+ * URL, начало которого неизвестно (например, `base + '/users'` с невычислимым `base`), не возвращается:
+ * такой шаблон нельзя надежно сопоставить со спецификацией.
+ * @param {ts.Expression} node - Выражение URL.
+ * @returns {EvaluatedUrl | undefined} Вычисленный URL или `undefined`.
+ */
+export function evaluateUrl(node: ts.Expression): EvaluatedUrl | undefined {
+  const parts = evaluateParts(node, node, new Set());
+  const text = parts.map(part => part.text).join('');
+  if (text === '' || text.startsWith(URL_WILDCARD)) {
+    return undefined;
+  }
+  return { text, node, parts };
+}
+
+/**
+ * Переводит диапазон в тексте вычисленного URL в диапазон исходного файла.
+ * Если диапазон не попадает целиком в литерал из выражения URL, возвращается диапазон всего выражения.
+ * @param {EvaluatedUrl} url - Вычисленный URL.
+ * @param {number} from - Начало диапазона в тексте URL.
+ * @param {number} to - Конец диапазона в тексте URL.
+ * @returns {{ start: number, end: number }} Диапазон в файле.
+ */
+export function getUrlSourceRange(url: EvaluatedUrl, from: number, to: number): { start: number, end: number } {
+  let offset = 0;
+  for (const part of url.parts) {
+    const partEnd = offset + part.text.length;
+    if (from >= offset && to <= partEnd) {
+      return part.exact
+        ? { start: part.start + from - offset, end: part.start + to - offset }
+        : { start: part.start, end: part.end };
+    }
+    offset = partEnd;
+  }
+  return { start: url.node.getStart(), end: url.node.getEnd() };
+}
+
+function evaluateParts(node: ts.Expression, root: ts.Expression, visited: Set<ts.Node>): UrlPart[] {
+  // Части, пришедшие из объявлений вне выражения URL, указывают на само выражение
+  const inRoot = node.getStart() >= root.getStart() && node.getEnd() <= root.getEnd();
+
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return [literalPart(node.text, node.getStart() + 1, node.getEnd() - 1, inRoot, root)];
+  }
+  if (ts.isNumericLiteral(node)) {
+    return [literalPart(node.text, node.getStart(), node.getEnd(), inRoot, root)];
+  }
+  if (ts.isTemplateExpression(node)) {
+    const parts = [literalPart(node.head.text, node.head.getStart() + 1, node.head.getEnd() - 2, inRoot, root)];
+    for (const span of node.templateSpans) {
+      parts.push(...evaluateParts(span.expression, root, visited));
+      // Хвост шаблона начинается с '}' и заканчивается '${' или '`'
+      const literalEnd = ts.isTemplateTail(span.literal) ? span.literal.getEnd() - 1 : span.literal.getEnd() - 2;
+      parts.push(literalPart(span.literal.text, span.literal.getStart() + 1, literalEnd, inRoot, root));
+    }
+    return parts;
+  }
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    return [...evaluateParts(node.left, root, visited), ...evaluateParts(node.right, root, visited)];
+  }
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isNonNullExpression(node)) {
+    return evaluateParts(node.expression, root, visited);
+  }
+
+  // Константы: подставляем значение из объявления, защищаясь от циклических ссылок
+  const constant = resolveReference(node);
+  if (constant && !visited.has(constant)) {
+    visited.add(constant);
+    const parts = evaluateParts(constant, root, visited);
+    visited.delete(constant);
+    return parts;
+  }
+
+  return [{ text: URL_WILDCARD, start: node.getStart(), end: node.getEnd(), exact: false }];
+}
+
+function literalPart(text: string, start: number, end: number, inRoot: boolean, root: ts.Expression): UrlPart {
+  return inRoot
+    ? { text, start, end, exact: true }
+    : { text, start: root.getStart(), end: root.getEnd(), exact: false };
+}
@@ -0,0 +1,225 @@
+/**
+ * @module valueResolver
+ * @description Поток данных внутри файла: переход от идентификатора к значению, которым он инициализирован,
+ * и слияние spread-выражений в объектных литералах. Позволяет проверять настройки и данные запроса,
+ * заданные через переменные: `const opts = {...}; $.ajax(opts)`, `data: payload`, `{ ...defaults, url }`.
+ * Найденные узлы остаются узлами исходного литерала, поэтому диагностики указывают на место объявления значения.
+ */
+
+import * as ts from 'typescript';
+
+import { getPropertyName } from '../utils/utils';
+
+/**
+ * Свойства объектного литерала с учетом spread-выражений.
+ * @property {ts.ObjectLiteralElementLike[]} properties - Действующие свойства: свойства из spread-источников
+ *   и собственные свойства объекта; при повторении имени остается последнее объявление, как в JavaScript.
+ * @property {boolean} complete - `true`, если все spread-выражения удалось разрешить и список свойств полный.
+ */
+export interface ObjectProperties {
+  properties: ts.ObjectLiteralElementLike[];
+  complete: boolean;
+}
+
+/**
+ * Находит значение, на которое ссылается выражение: инициализатор переменной, которая не переприсваивается,
+ * или свойства объекта-константы (`API.USERS`, `API['USERS']`). Скобки и `as` пропускаются.
+ * @param {ts.Expression} node - Выражение-ссылка.
+ * @returns {ts.Expression | undefined} Значение или `undefined`, если выражение не является разрешимой ссылкой.
+ */
+export function resolveReference(node: ts.Expression): ts.Expression | undefined {
+  node = unwrapExpression(node);
+  if (ts.isIdentifier(node)) {
+    return findVariableInitializer(node);
+  }
+
+  let object: ts.Expression | undefined;
+  let propertyName: string | undefined;
+  if (ts.isPropertyAccessExpression(node)) {
+    object = node.expression;
+    propertyName = node.name.text;
+  } else if (ts.isElementAccessExpression(node) && ts.isStringLiteralLike(node.argumentExpression)) {
+    object = node.expression;
+    propertyName = node.argumentExpression.text;
+  }
+
+  const objectLiteral = object ? resolveObjectLiteral(object) : undefined;
+  if (!objectLiteral || propertyName === undefined) {
+    return undefined;
+  }
+  const property = findObjectProperty(objectLiteral, [propertyName]);
+  return property && ts.isPropertyAssignment(property) ? property.initializer : undefined;
+}
+
+/**
+ * Разрешает цепочку ссылок до конечного выражения: `payload` -> `{ name: 'John' }`.
+ * @param {ts.Expression} node - Исходное выражение.
+ * @returns {ts.Expression} Конечное выражение (или само выражение без скобок, если оно не ссылка).
+ */
+export function resolveExpression(node: ts.Expression): ts.Expression {
+  const visited = new Set<ts.Node>();
+  let current = unwrapExpression(node);
+  while (!visited.has(current)) {
+    visited.add(current);
+    const resolved = resolveReference(current);
+    if (!resolved) {
+      break;
+    }
+    current = unwrapExpression(resolved);
+  }
+  return current;
+}
+
+/**
+ * Разрешает выражение до объектного литерала.
+ * @param {ts.Expression | undefined} node - Исходное выражение.
+ * @returns {ts.ObjectLiteralExpression | undefined} Объектный литерал или `undefined`, если значение неизвестно.
+ */
+export function resolveObjectLiteral(node: ts.Expression | undefined): ts.ObjectLiteralExpression | undefined {
+  const resolved = node ? resolveExpression(node) : undefined;
+  return resolved && ts.isObjectLiteralExpression(resolved) ? resolved : undefined;
+}
+
+/**
+ * Возвращает действующие свойства объектного литерала, подставляя свойства из spread-выражений.
+ * @param {ts.ObjectLiteralExpression} object - Объектный литерал.
+ * @returns {ObjectProperties} Свойства и признак полноты списка.
+ */
+export function getObjectProperties(object: ts.ObjectLiteralExpression): ObjectProperties {
+  const byName = new Map<string, ts.ObjectLiteralElementLike>();
+  const unnamed: ts.ObjectLiteralElementLike[] = [];
+  const complete = collectProperties(object, byName, unnamed, new Set());
+  return { properties: [...byName.values(), ...unnamed], complete };
+}
+
+/**
+ * Имена действующих свойств объектного литерала с учетом spread-выражений.
+ * @param {ts.ObjectLiteralExpression} object - Объектный литерал.
+ * @returns {string[]} Имена свойств.
+ */
+export function getObjectPropertyNames(object: ts.ObjectLiteralExpression): string[] {
+  return getObjectProperties(object).properties
+    .map(prop => prop.name ? getPropertyName(prop.name) : undefined)
+    .filter((name): name is string => name !== undefined);
+}
+
+/**
+ * Находит действующее свойство объектного литерала по одному из имен с учетом spread-выражений.
+ * @param {ts.ObjectLiteralExpression} object - Объектный литерал.
+ * @param {string[]} names - Допустимые имена свойства.
+ * @returns {ts.ObjectLiteralElementLike | undefined} Последнее объявление свойства.
+ */
+export function findObjectProperty(object: ts.ObjectLiteralExpression, names: string[]): ts.ObjectLiteralElementLike | undefined {
+  let result: ts.ObjectLiteralElementLike | undefined;
+  for (const prop of getObjectProperties(object).properties) {
+    const name = prop.name ? getPropertyName(prop.name) : undefined;
+    if (name !== undefined && names.includes(name)) {
+      result = prop;
+    }
+  }
+  return result;
+}
+
+/**
+ * Значение свойства объекта: инициализатор или, для сокращенной записи `{ url }`, сам идентификатор.
+ * @param {ts.ObjectLiteralElementLike} property - Свойство.
+ * @returns {ts.Expression | undefined} Значение или `undefined` для методов и аксессоров.
+ */
+export function getPropertyValue(property: ts.ObjectLiteralElementLike): ts.Expression | undefined {
+  if (ts.isPropertyAssignment(property)) {
+    return property.initializer;
+  }
+  return ts.isShorthandPropertyAssignment(property) ? property.name : undefined;
+}
+
+function collectProperties(
+  object: ts.ObjectLiteralExpression,
+  byName: Map<string, ts.ObjectLiteralElementLike>,
+  unnamed: ts.ObjectLiteralElementLike[],
+  visited: Set<ts.ObjectLiteralExpression>
+): boolean {
+  if (visited.has(object)) {
+    return false;
+  }
+  visited.add(object);
+
+  let complete = true;
+  for (const prop of object.properties) {
+    if (ts.isSpreadAssignment(prop)) {
+      const source = resolveObjectLiteral(prop.expression);
+      complete = (source ? collectProperties(source, byName, unnamed, visited) : false) && complete;
+      continue;
+    }
+    const name = prop.name ? getPropertyName(prop.name) : undefined;
+    if (name === undefined) {
+      unnamed.push(prop);
+    } else {
+      // Повторное объявление переопределяет предыдущее и занимает его место в конце
+      byName.delete(name);
+      byName.set(name, prop);
+    }
+  }
+
+  visited.delete(object);
+  return complete;
+}
+
+/**
+ * Ищет объявление переменной в охватывающих областях видимости файла.
+ * Переменные `let` и `var` учитываются, только если им нигде не присваивается новое значение.
+ * Параметры функций с тем же именем скрывают внешние объявления.
+ */
+function findVariableInitializer(identifier: ts.Identifier): ts.Expression | undefined {
+  const name = identifier.text;
+  for (let scope: ts.Node | undefined = identifier.parent; scope; scope = scope.parent) {
+    if (ts.isFunctionLike(scope) && scope.parameters.some(param => ts.isIdentifier(param.name) && param.name.text === name)) {
+      return undefined;
+    }
+    if (!ts.isSourceFile(scope) && !ts.isBlock(scope) && !ts.isModuleBlock(scope)) {
+      continue;
+    }
+
+    for (const statement of scope.statements) {
+      if (!ts.isVariableStatement(statement)) {
+        continue;
+      }
+      const declarations = statement.declarationList;
+      for (const declaration of declarations.declarations) {
+        if (ts.isIdentifier(declaration.name) && declaration.name.text === name) {
+          const isConst = (declarations.flags & ts.NodeFlags.Const) !== 0;
+          return isConst || !isReassigned(name, scope) ? declaration.initializer : undefined;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Проверяет, присваивается ли переменной новое значение внутри области видимости.
+ */
+function isReassigned(name: string, scope: ts.Node): boolean {
+  let reassigned = false;
+  ts.forEachChild(scope, function visit(node) {
+    if (reassigned) {
+      return;
+    }
+    const isAssignment = ts.isBinaryExpression(node) &&
+      node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+      node.operatorToken.kind <= ts.SyntaxKind.LastAssignment &&
+      ts.isIdentifier(node.left) && node.left.text === name;
+    const isUpdate = (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) &&
+      (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken) &&
+      ts.isIdentifier(node.operand) && node.operand.text === name;
+    reassigned = isAssignment || isUpdate;
+    ts.forEachChild(node, visit);
+  });
+  return reassigned;
+}
+
+function unwrapExpression(node: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isNonNullExpression(node) || ts.isSatisfiesExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
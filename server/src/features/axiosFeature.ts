@@ -0,0 +1,102 @@
+import * as ts from 'typescript';
+
+import { resolveExpression, resolveObjectLiteral } from '../evaluation/valueResolver';
+import { HttpRequestCall, HttpRequestFeature, extractConfigRequest, findPropertyValue, resolveLiteralBody } from './requestFeature';
+
+// axios.post(url, data, config) и аналоги: тело запроса передается вторым аргументом
+const METHODS_WITH_DATA = ['post', 'put', 'patch'];
+// axios.get(url, config) и аналоги: второй аргумент - настройки
+const METHODS_WITHOUT_DATA = ['get', 'delete'];
+// axios.head(url, config), axios.options(url, config): спецификация не описывает эти методы, проверяется только URL
+const UNCHECKED_METHODS = ['head', 'options'];
+
+
+/**
+ * Вызовы axios: `axios({ url, method, data })`, `axios(url, config)`, `axios.request(config)`,
+ * `axios.post(url, data)`, `axios.get(url, config)` и другие методы-сокращения.
+ * Если метод не указан, проверяется GET.
+ */
+export class AxiosFeature extends HttpRequestFeature {
+
+    extractRequest(call: ts.CallExpression): HttpRequestCall | undefined {
+        const callee = call.expression;
+        const [first, second, third] = call.arguments;
+        if (!first) {
+            return undefined;
+        }
+
+        // axios(config), axios(url, config), axios.request(config)
+        if (
+            (ts.isIdentifier(callee) && callee.text === 'axios') ||
+            (isAxiosMember(callee) && callee.name.text === 'request')
+        ) {
+            const config = resolveObjectLiteral(first);
+            if (config) {
+                return withDefaultMethod(extractConfigRequest(config, ['method'], 'data'));
+            }
+            const secondConfig = resolveObjectLiteral(second);
+            const request = secondConfig
+                ? extractConfigRequest(secondConfig, ['method'], 'data')
+                : { bodyName: 'data' };
+            return withDefaultMethod({ ...request, url: first });
+        }
+
+        if (!isAxiosMember(callee)) {
+            return undefined;
+        }
+
+        const methodName = callee.name.text;
+        if (METHODS_WITH_DATA.includes(methodName)) {
+            return {
+                url: first,
+                method: callee.name,
+                methodName,
+                body: second && resolveLiteralBody(second),
+                bodyContainer: second,
+                bodyName: 'data',
+                config: resolveObjectLiteral(third)
+            };
+        }
+        if (UNCHECKED_METHODS.includes(methodName)) {
+            return { url: first, bodyName: 'data', config: resolveObjectLiteral(second) };
+        }
+        if (METHODS_WITHOUT_DATA.includes(methodName)) {
+            return {
+                url: first,
+                method: callee.name,
+                methodName,
+                bodyName: 'data',
+                config: resolveObjectLiteral(second)
+            };
+        }
+        return undefined;
+    }
+
+    protected getConfigProperties(): string[] {
+        return ['url', 'method', 'data', 'params', 'headers'];
+    }
+
+    protected getQueryParams(request: HttpRequestCall): ts.Expression | undefined {
+        const params = request.config ? findPropertyValue(request.config, ['params']) : undefined;
+        return params && resolveExpression(params);
+    }
+
+    protected getResponseDataPath(): string[] {
+        // Обработчики получают объект ответа axios, тело ответа находится в response.data
+        return ['data'];
+    }
+}
+
+/**
+ * Без `method` в настройках axios выполняет GET.
+ */
+function withDefaultMethod(request: HttpRequestCall): HttpRequestCall {
+    return request.method ? request : { ...request, methodName: 'get' };
+}
+
+function isAxiosMember(callee: ts.Expression): callee is ts.PropertyAccessExpression & { name: ts.Identifier } {
+    return ts.isPropertyAccessExpression(callee) &&
+        ts.isIdentifier(callee.expression) &&
+        callee.expression.text === 'axios' &&
+        ts.isIdentifier(callee.name);
+}
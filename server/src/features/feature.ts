@@ -1,5 +1,16 @@
 import * as ts from 'typescript';
-import { CompletionItem, Diagnostic, TextDocumentPositionParams, TextDocument } from 'vscode-languageserver/node';
+import {
+    CodeAction,
+    CodeActionParams,
+    CompletionItem,
+    Diagnostic,
+    Hover,
+    Location,
+    Range,
+    TextDocumentPositionParams,
+    TextDocument
+} from 'vscode-languageserver/node';
+import { getNodesAtOffset } from '../utils/utils';
 
 export interface ILanguageServerFeature {
     
@@ -17,7 +28,51 @@ export interface IDiagnosticFeature extends ILanguageServerFeature {
     provideDiagnostics(node: ts.Node, textDocument: TextDocument, diagnostics: Diagnostic[]): void;
 }
 
-export type LanguageServerFeature = ICompletionFeature | IDiagnosticFeature;
+export interface IHoverFeature extends ILanguageServerFeature {
+    provideHover(node: ts.Node, textDocumentPosition: TextDocumentPositionParams, document: TextDocument): Hover | undefined;
+}
+
+export interface ICodeActionFeature extends ILanguageServerFeature {
+    provideCodeActions(node: ts.Node, params: CodeActionParams, document: TextDocument): CodeAction[];
+}
+
+/**
+ * Вызов эндпоинта спецификации в коде.
+ * @property {string} template - Шаблон пути из спецификации, например '/api/users/{userId}'.
+ * @property {string} [method] - HTTP метод в нижнем регистре, если он известен.
+ * @property {Range} range - Диапазон URL в документе.
+ */
+export interface EndpointReference {
+    template: string;
+    method?: string;
+    range: Range;
+}
+
+export interface IEndpointFeature extends ILanguageServerFeature {
+    provideEndpointReference(node: ts.Node, document: TextDocument): EndpointReference | undefined;
+}
+
+export interface IDefinitionFeature extends ILanguageServerFeature {
+    provideDefinition(node: ts.Node, textDocumentPosition: TextDocumentPositionParams, document: TextDocument): Location | undefined;
+}
+
+/**
+ * Узел под курсором и функциональность подсказок, которая к нему относится.
+ * @property {ts.Node} node - Узел, содержащий курсор.
+ * @property {ICompletionFeature[]} features - Функциональность, для которой `matches(node)` вернул `true`.
+ */
+export interface CompletionTarget {
+    node: ts.Node;
+    features: ICompletionFeature[];
+}
+
+export type LanguageServerFeature =
+    | ICompletionFeature
+    | IDiagnosticFeature
+    | IHoverFeature
+    | ICodeActionFeature
+    | IEndpointFeature
+    | IDefinitionFeature;
 
 export class FeatureManager {
     private features: LanguageServerFeature[] = [];
@@ -25,11 +80,19 @@ export class FeatureManager {
     // Кэши для оптимизации
     private completionFeaturesByNodeType: Map<ts.SyntaxKind, ICompletionFeature[]> | null = null;
     private diagnosticFeaturesByNodeType: Map<ts.SyntaxKind, IDiagnosticFeature[]> | null = null;
+    private hoverFeaturesByNodeType: Map<ts.SyntaxKind, IHoverFeature[]> | null = null;
+    private codeActionFeaturesByNodeType: Map<ts.SyntaxKind, ICodeActionFeature[]> | null = null;
+    private endpointFeaturesByNodeType: Map<ts.SyntaxKind, IEndpointFeature[]> | null = null;
+    private definitionFeaturesByNodeType: Map<ts.SyntaxKind, IDefinitionFeature[]> | null = null;
 
     register(feature: LanguageServerFeature): void {
         this.features.push(feature);
         this.completionFeaturesByNodeType = null;
         this.diagnosticFeaturesByNodeType = null;
+        this.hoverFeaturesByNodeType = null;
+        this.codeActionFeaturesByNodeType = null;
+        this.endpointFeaturesByNodeType = null;
+        this.definitionFeaturesByNodeType = null;
     }
 
     getCompletionFeatures(): ICompletionFeature[] {
@@ -40,6 +103,22 @@ export class FeatureManager {
         return this.features.filter((f): f is IDiagnosticFeature => 'provideDiagnostics' in f);
     }
 
+    getHoverFeatures(): IHoverFeature[] {
+        return this.features.filter((f): f is IHoverFeature => 'provideHover' in f);
+    }
+
+    getCodeActionFeatures(): ICodeActionFeature[] {
+        return this.features.filter((f): f is ICodeActionFeature => 'provideCodeActions' in f);
+    }
+
+    getEndpointFeatures(): IEndpointFeature[] {
+        return this.features.filter((f): f is IEndpointFeature => 'provideEndpointReference' in f);
+    }
+
+    getDefinitionFeatures(): IDefinitionFeature[] {
+        return this.features.filter((f): f is IDefinitionFeature => 'provideDefinition' in f);
+    }
+
     getCompletionFeaturesByNodeType(): Map<ts.SyntaxKind, ICompletionFeature[]> {
         if (!this.completionFeaturesByNodeType) {
             this.completionFeaturesByNodeType = new Map<ts.SyntaxKind, ICompletionFeature[]>();
@@ -60,6 +139,27 @@ export class FeatureManager {
         return this.completionFeaturesByNodeType;
     }
 
+    /**
+     * Находит узлы под курсором, для которых есть функциональность подсказок.
+     * Обходятся только узлы, содержащие курсор, а не весь файл.
+     * @param {ts.SourceFile} sourceFile - Синтаксическое дерево документа.
+     * @param {number} offset - Смещение курсора.
+     * @returns {CompletionTarget[]} Узлы с функциональностью, самый вложенный первым.
+     */
+    getCompletionTargets(sourceFile: ts.SourceFile, offset: number): CompletionTarget[] {
+        const nodeTypeToFeatures = this.getCompletionFeaturesByNodeType();
+        const targets: CompletionTarget[] = [];
+
+        for (const node of getNodesAtOffset(sourceFile, offset).reverse()) {
+            const features = (nodeTypeToFeatures.get(node.kind) || []).filter(feature => feature.matches(node));
+            if (features.length > 0) {
+                targets.push({ node, features });
+            }
+        }
+
+        return targets;
+    }
+
     getDiagnosticFeaturesByNodeType(): Map<ts.SyntaxKind, IDiagnosticFeature[]> {
         if (!this.diagnosticFeaturesByNodeType) {
             this.diagnosticFeaturesByNodeType = new Map<ts.SyntaxKind, IDiagnosticFeature[]>();
@@ -79,4 +179,84 @@ export class FeatureManager {
 
         return this.diagnosticFeaturesByNodeType;
     }
+
+    getHoverFeaturesByNodeType(): Map<ts.SyntaxKind, IHoverFeature[]> {
+        if (!this.hoverFeaturesByNodeType) {
+            this.hoverFeaturesByNodeType = new Map<ts.SyntaxKind, IHoverFeature[]>();
+            const hoverFeatures = this.getHoverFeatures();
+
+            for (const feature of hoverFeatures) {
+                const nodeTypes = feature.getSupportedNodeTypes();
+
+                for (const nodeType of nodeTypes) {
+                    if (!this.hoverFeaturesByNodeType.has(nodeType)) {
+                        this.hoverFeaturesByNodeType.set(nodeType, []);
+                    }
+                    this.hoverFeaturesByNodeType.get(nodeType)!.push(feature);
+                }
+            }
+        }
+
+        return this.hoverFeaturesByNodeType;
+    }
+
+    getCodeActionFeaturesByNodeType(): Map<ts.SyntaxKind, ICodeActionFeature[]> {
+        if (!this.codeActionFeaturesByNodeType) {
+            this.codeActionFeaturesByNodeType = new Map<ts.SyntaxKind, ICodeActionFeature[]>();
+            const codeActionFeatures = this.getCodeActionFeatures();
+
+            for (const feature of codeActionFeatures) {
+                const nodeTypes = feature.getSupportedNodeTypes();
+
+                for (const nodeType of nodeTypes) {
+                    if (!this.codeActionFeaturesByNodeType.has(nodeType)) {
+                        this.codeActionFeaturesByNodeType.set(nodeType, []);
+                    }
+                    this.codeActionFeaturesByNodeType.get(nodeType)!.push(feature);
+                }
+            }
+        }
+
+        return this.codeActionFeaturesByNodeType;
+    }
+
+    getEndpointFeaturesByNodeType(): Map<ts.SyntaxKind, IEndpointFeature[]> {
+        if (!this.endpointFeaturesByNodeType) {
+            this.endpointFeaturesByNodeType = new Map<ts.SyntaxKind, IEndpointFeature[]>();
+            const endpointFeatures = this.getEndpointFeatures();
+
+            for (const feature of endpointFeatures) {
+                const nodeTypes = feature.getSupportedNodeTypes();
+
+                for (const nodeType of nodeTypes) {
+                    if (!this.endpointFeaturesByNodeType.has(nodeType)) {
+                        this.endpointFeaturesByNodeType.set(nodeType, []);
+                    }
+                    this.endpointFeaturesByNodeType.get(nodeType)!.push(feature);
+                }
+            }
+        }
+
+        return this.endpointFeaturesByNodeType;
+    }
+
+    getDefinitionFeaturesByNodeType(): Map<ts.SyntaxKind, IDefinitionFeature[]> {
+        if (!this.definitionFeaturesByNodeType) {
+            this.definitionFeaturesByNodeType = new Map<ts.SyntaxKind, IDefinitionFeature[]>();
+            const definitionFeatures = this.getDefinitionFeatures();
+
+            for (const feature of definitionFeatures) {
+                const nodeTypes = feature.getSupportedNodeTypes();
+
+                for (const nodeType of nodeTypes) {
+                    if (!this.definitionFeaturesByNodeType.has(nodeType)) {
+                        this.definitionFeaturesByNodeType.set(nodeType, []);
+                    }
+                    this.definitionFeaturesByNodeType.get(nodeType)!.push(feature);
+                }
+            }
+        }
+
+        return this.definitionFeaturesByNodeType;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,74 @@
+import * as ts from 'typescript';
+import { CompletionItem, CompletionItemKind, InsertTextFormat } from 'vscode-languageserver/node';
+
+import { resolveExpression, resolveObjectLiteral } from '../evaluation/valueResolver';
+import { HttpRequestCall, HttpRequestFeature, findPropertyValue, resolveLiteralBody, unwrapJsonStringify } from './requestFeature';
+
+
+/**
+ * Вызовы `fetch(url, { method, body: JSON.stringify({...}) })`.
+ * Телом запроса считается аргумент `JSON.stringify`. Если метод не указан, проверяется GET.
+ */
+export class FetchFeature extends HttpRequestFeature {
+
+    extractRequest(call: ts.CallExpression): HttpRequestCall | undefined {
+        if (!isFetchCallee(call.expression) || call.arguments.length === 0) {
+            return undefined;
+        }
+
+        const url = call.arguments[0];
+        const init = resolveObjectLiteral(call.arguments[1]);
+        const request: HttpRequestCall = { url, bodyName: 'body' };
+        // Без настроек или без `method` в них fetch выполняет GET
+        if (call.arguments.length < 2 || (init && !findPropertyValue(init, ['method']))) {
+            request.methodName = 'get';
+        }
+
+        if (init) {
+            request.config = init;
+            const method = findPropertyValue(init, ['method']);
+            request.method = method && resolveExpression(method);
+
+            const body = findPropertyValue(init, ['body']);
+            const payload = body && unwrapJsonStringify(resolveExpression(body));
+            request.body = payload && resolveLiteralBody(payload);
+            request.bodyContainer = payload;
+        }
+        return request;
+    }
+
+    protected getConfigProperties(): string[] {
+        return ['method', 'headers', 'body'];
+    }
+
+    protected getResponseDataPath(): undefined {
+        // Обработчики получают объект Response, тело читается отдельным вызовом response.json()
+        return undefined;
+    }
+
+    protected createConfigPropertyCompletion(prop: string, bodyName: string): CompletionItem {
+        if (prop === 'body') {
+            return {
+                label: prop,
+                kind: CompletionItemKind.Snippet,
+                insertText: `body: JSON.stringify({\n\t\${1}\n})`,
+                insertTextFormat: InsertTextFormat.Snippet,
+                detail: 'Данные запроса (body)'
+            };
+        }
+        return super.createConfigPropertyCompletion(prop, bodyName);
+    }
+}
+
+/**
+ * Проверяет, что вызывается `fetch`, `window.fetch` или `globalThis.fetch`.
+ */
+function isFetchCallee(callee: ts.Expression): boolean {
+    if (ts.isIdentifier(callee)) {
+        return callee.text === 'fetch';
+    }
+    return ts.isPropertyAccessExpression(callee) &&
+        ts.isIdentifier(callee.expression) &&
+        ['window', 'globalThis', 'self'].includes(callee.expression.text) &&
+        callee.name.text === 'fetch';
+}
@@ -0,0 +1,73 @@
+import * as ts from 'typescript';
+
+import { resolveExpression, resolveObjectLiteral } from '../evaluation/valueResolver';
+import { HttpRequestCall, HttpRequestFeature, extractConfigRequest, getDataExpression, resolveLiteralBody } from './requestFeature';
+
+// Методы-сокращения jQuery и HTTP методы, которые они выполняют
+const SHORTHAND_METHODS: { [name: string]: string } = {
+    get: 'get',
+    post: 'post',
+    getJSON: 'get'
+};
+
+
+/**
+ * Методы-сокращения jQuery: `$.get(url, data, success)`, `$.post(url, data, success)`,
+ * `$.getJSON(url, data, success)`, а также их форма с объектом настроек `$.post({ url, data })`.
+ */
+export class JQueryShorthandFeature extends HttpRequestFeature {
+
+    extractRequest(call: ts.CallExpression): HttpRequestCall | undefined {
+        const callee = call.expression;
+        if (
+            !ts.isPropertyAccessExpression(callee) ||
+            !ts.isIdentifier(callee.expression) ||
+            !['$', 'jQuery'].includes(callee.expression.text) ||
+            !ts.isIdentifier(callee.name) ||
+            !Object.prototype.hasOwnProperty.call(SHORTHAND_METHODS, callee.name.text)
+        ) {
+            return undefined;
+        }
+
+        const [first, second] = call.arguments;
+        if (!first) {
+            return undefined;
+        }
+
+        const method = { method: callee.name, methodName: SHORTHAND_METHODS[callee.name.text] };
+        const config = resolveObjectLiteral(first);
+        if (config) {
+            return { ...extractConfigRequest(config, [], 'data'), ...method };
+        }
+
+        // Второй аргумент - данные, если это не колбэк
+        const isCallback = second && isFunction(resolveExpression(second));
+        const data = second && !isCallback ? second : undefined;
+        return {
+            url: first,
+            ...method,
+            body: data && resolveLiteralBody(data),
+            bodyContainer: data,
+            bodyName: 'data'
+        };
+    }
+
+    protected getConfigProperties(): string[] {
+        return ['url', 'data', 'headers', 'success', 'error', 'complete'];
+    }
+
+    protected getQueryParams(request: HttpRequestCall, method: string): ts.Expression | undefined {
+        // jQuery добавляет data к URL в виде строки запроса только для GET
+        return method === 'get' ? getDataExpression(request) : undefined;
+    }
+
+    protected getResponseCallbacks(request: HttpRequestCall, call: ts.CallExpression): ts.Expression[] {
+        // Колбэк success передается позиционно: $.get(url, data, success) или $.get(url, success)
+        const positional = call.arguments.slice(1).filter(arg => isFunction(resolveExpression(arg)));
+        return [...super.getResponseCallbacks(request, call), ...positional.slice(0, 1)];
+    }
+}
+
+function isFunction(node: ts.Expression): boolean {
+    return ts.isFunctionExpression(node) || ts.isArrowFunction(node);
+}
@@ -0,0 +1,1257 @@
+import * as ts from 'typescript';
+import { pathToFileURL } from 'url';
+import {
+    CodeAction,
+    CodeActionKind,
+    CodeActionParams,
+    CompletionItem,
+    CompletionItemKind,
+    Diagnostic,
+    DiagnosticRelatedInformation,
+    Hover,
+    Location,
+    MarkupKind,
+    Range,
+    TextDocumentPositionParams,
+    TextEdit,
+    InsertTextFormat
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import {
+    EndpointReference,
+    ICodeActionFeature,
+    ICompletionFeature,
+    IDefinitionFeature,
+    IDiagnosticFeature,
+    IEndpointFeature,
+    IHoverFeature
+} from './feature';
+
+import { HTTP_METHODS, SwaggerMethod, SwaggerParameter, SwaggerPath, SwaggerSchema } from '../types/swagger';
+import { SpecRegistry } from '../spec/specRegistry';
+import { TypeScriptService } from '../workspace/typeScriptService';
+import {
+    getMatchingSwaggerUrl,
+    rankSimilarSwaggerUrls,
+    getPropertyName,
+    generateDataSnippet,
+    parseCookieHeader
+} from '../utils/utils';
+import {
+    getSchemaEnum,
+    getSchemaExampleValue,
+    getSchemaTypeLabel,
+    getSchemaValuePlaceholder,
+    getSchemaAtPath,
+    getSchemaVariants,
+    getSuccessResponse,
+    selectObjectVariant
+} from '../utils/schemaUtils';
+import { rankSimilarStrings } from '../utils/stringUtils';
+import { getAmbiguousSwaggerUrls } from '../utils/routeMatcher';
+import { formatFieldHover, formatOperationHover, formatPathHover } from '../utils/hoverUtils';
+import { createInsertPropertiesEdit, createRemovePropertyEdit, formatPropertyKey } from '../utils/editUtils';
+import { formatSuggestions, SchemaIssue, validateSchemaValue } from '../validation/schemaValidator';
+import { findCookieHeader, validateParameters } from '../validation/parameterValidator';
+import { RuleConfiguration, RuleDiagnostic, RuleId } from '../validation/rules';
+import { evaluateUrl } from '../evaluation/urlEvaluator';
+import { collectResponseAccesses, findResponseHandlers, ResponseHandler } from '../evaluation/responseAccess';
+import {
+    findObjectProperty,
+    getObjectPropertyNames,
+    getPropertyValue,
+    resolveExpression
+} from '../evaluation/valueResolver';
+
+/**
+ * Части HTTP-запроса, извлеченные из вызова HTTP-клиента.
+ * @property {ts.Expression} [url] - Выражение URL.
+ * @property {ts.Node} [method] - Узел метода: строковый литерал из настроек или имя функции (например, `post` в `axios.post`).
+ * @property {string} [methodName] - Метод, заданный именем функции (для него `method` не является литералом)
+ *   или подразумеваемый клиентом, если метод не указан (GET для `fetch` и `axios`; тогда `method` нет).
+ * @property {ts.Expression} [body] - Тело запроса (значение `data`, аргумент `JSON.stringify` и т.п.).
+ * @property {ts.Node} [bodyContainer] - Узел, внутри которого предлагается автодополнение полей тела:
+ *   свойство настроек (`data: ...`) или само выражение тела.
+ * @property {string} bodyName - Имя тела запроса в сообщениях диагностик ('data', 'body').
+ * @property {ts.ObjectLiteralExpression} [config] - Объект настроек запроса.
+ */
+export interface HttpRequestCall {
+    url?: ts.Expression;
+    method?: ts.Node;
+    methodName?: string;
+    body?: ts.Expression;
+    bodyContainer?: ts.Node;
+    bodyName: string;
+    config?: ts.ObjectLiteralExpression;
+}
+
+// Методы, для которых проверяется тело запроса
+const BODY_METHODS = ['post', 'put', 'patch'];
+
+/**
+ * Общая логика автодополнения, диагностик, подсказок и быстрых исправлений для вызовов HTTP-клиентов.
+ * Наследники описывают только форму вызова: как найти в нем URL, метод и тело запроса.
+ */
+export abstract class HttpRequestFeature
+    implements ICompletionFeature, IDiagnosticFeature, IHoverFeature, ICodeActionFeature, IEndpointFeature, IDefinitionFeature {
+
+    /**
+     * @param {SpecRegistry} specRegistry - Реестр текущей спецификации.
+     * @param {TypeScriptService} [typeScriptService] - Языковая служба рабочей области; без нее тело запроса
+     *   проверяется только по синтаксису литералов.
+     * @param {RuleConfiguration} [rules] - Важность правил; по умолчанию действует важность из описания правил.
+     */
+    constructor(
+        protected readonly specRegistry: SpecRegistry,
+        protected readonly typeScriptService?: TypeScriptService,
+        protected readonly rules: RuleConfiguration = new RuleConfiguration()
+    ) {}
+
+    /**
+     * Извлекает части запроса из вызова или возвращает `undefined`, если вызов не относится к этому клиенту.
+     */
+    abstract extractRequest(call: ts.CallExpression): HttpRequestCall | undefined;
+
+    /**
+     * Свойства объекта настроек, которые предлагаются в автодополнении.
+     */
+    protected abstract getConfigProperties(): string[];
+
+    /**
+     * Объект параметров строки запроса для указанного метода (например, `params` в axios).
+     * По умолчанию у клиента нет такого объекта.
+     */
+    protected getQueryParams(request: HttpRequestCall, method: string): ts.Expression | undefined {
+        return undefined;
+    }
+
+    /**
+     * Колбэки, переданные в вызов и получающие данные ответа. По умолчанию — `success` из объекта настроек.
+     */
+    protected getResponseCallbacks(request: HttpRequestCall, call: ts.CallExpression): ts.Expression[] {
+        const success = request.config ? findPropertyValue(request.config, ['success']) : undefined;
+        return success ? [success] : [];
+    }
+
+    /**
+     * Путь к телу ответа в значении, которое получает обработчик (например, `['data']` для `response.data` в axios).
+     * `undefined`, если обработчики ответа клиента не поддерживаются.
+     */
+    protected getResponseDataPath(): string[] | undefined {
+        return [];
+    }
+
+    getSupportedNodeTypes(): ts.SyntaxKind[] {
+        // Все HTTP-клиенты вызываются как функции (CallExpression)
+        return [ts.SyntaxKind.CallExpression];
+    }
+
+    matches(node: ts.Node): boolean {
+        return ts.isCallExpression(node) && this.extractRequest(node) !== undefined;
+    }
+
+    provideCompletionItems(node: ts.Node, textDocumentPosition: TextDocumentPositionParams, document: TextDocument): CompletionItem[] {
+        const request = this.extractRequest(node as ts.CallExpression);
+        if (!request) {
+            return [];
+        }
+
+        const swaggerPaths = this.specRegistry.getPaths();
+        const offset = document.offsetAt(textDocumentPosition.position);
+        const currentUrl = getUrlValue(request);
+        const currentType = getMethodValue(request);
+
+        // Курсор находится между кавычками URL (или сразу после открывающей кавычки)
+        if (request.url && isStringNode(request.url) && offset > request.url.getStart() && offset <= request.url.getEnd()) {
+            return Object.keys(swaggerPaths).map(url => ({
+                label: url,
+                kind: CompletionItemKind.Value,
+                insertText: url,
+                filterText: url
+            }));
+        }
+
+        // Курсор находится внутри строкового литерала метода
+        if (request.method && isStringNode(request.method) && offset > request.method.getStart() && offset <= request.method.getEnd()) {
+            if (currentUrl) {
+                const availableMethods: string[] = [];
+                const swaggerUrlMatch = getMatchingSwaggerUrl(currentUrl, swaggerPaths);
+                if (swaggerUrlMatch) {
+                    const methods = swaggerPaths[swaggerUrlMatch];
+                    for (const method in methods) {
+                        if (method !== 'description' && !availableMethods.includes(method.toUpperCase())) {
+                            availableMethods.push(method.toUpperCase());
+                        }
+                    }
+                }
+                return availableMethods.map(method => ({
+                    label: method,
+                    kind: CompletionItemKind.Value,
+                    insertText: method,
+                    filterText: method
+                }));
+            }
+        }
+
+        // Курсор находится в объекте параметров строки запроса или заголовков
+        if (currentUrl && currentType) {
+            const swaggerUrlMatch = getMatchingSwaggerUrl(currentUrl, swaggerPaths);
+            const method = swaggerUrlMatch ? swaggerPaths[swaggerUrlMatch]?.[currentType as keyof SwaggerPath] : undefined;
+            const parameterCompletions = method && (
+                this.provideParameterCompletions(this.getQueryParams(request, currentType), method, 'query', offset) ??
+                this.provideCookieCompletions(getHeaders(request), method, offset) ??
+                this.provideParameterCompletions(getHeaders(request), method, 'header', offset)
+            );
+            if (parameterCompletions) {
+                return parameterCompletions;
+            }
+        }
+
+        // Курсор находится в теле запроса
+        if (this.isInBodyArea(request, offset)) {
+            if (currentUrl && currentType && BODY_METHODS.includes(currentType)) {
+                const swaggerUrlMatch = getMatchingSwaggerUrl(currentUrl, swaggerPaths);
+                const method = swaggerUrlMatch ? swaggerPaths[swaggerUrlMatch]?.[currentType as keyof SwaggerPath] : undefined;
+                if (method) {
+                    const bodyCompletions = this.provideBodyCompletions(request, method, textDocumentPosition, document);
+                    if (bodyCompletions) {
+                        return bodyCompletions;
+                    }
+                }
+            }
+        }
+
+        // Курсор внутри обработчика ответа: поля схемы ответа после точки
+        const responseCompletions = this.provideResponseCompletions(node as ts.CallExpression, request, offset);
+        if (responseCompletions) {
+            return responseCompletions;
+        }
+
+        const config = request.config;
+        if (config && offset > config.getStart() && offset < config.getEnd()) {
+            const existingProps = getObjectPropertyNames(config);
+            const responseSchema = this.getSuccessResponseSchema(request)?.schema;
+            return this.getConfigProperties()
+                .filter(prop => !existingProps.includes(prop))
+                .map(prop => this.createConfigPropertyCompletion(prop, request.bodyName, responseSchema));
+        }
+
+        return [];
+    }
+
+    provideDiagnostics(node: ts.Node, textDocument: TextDocument, diagnostics: Diagnostic[]): void {
+        const request = this.extractRequest(node as ts.CallExpression);
+        if (!request) {
+            return;
+        }
+        const swaggerPaths = this.specRegistry.getPaths();
+
+        if (request.config) {
+            this.checkDuplicateProperties(request.config, textDocument, diagnostics);
+        }
+
+        // Логика валидации URL, метода и данных
+        const urlNode = request.url;
+        const currentUrl = getUrlValue(request);
+        if (!urlNode || currentUrl === undefined) {
+            return;
+        }
+
+        const swaggerUrlMatch = getMatchingSwaggerUrl(currentUrl, swaggerPaths);
+        if (!swaggerUrlMatch) {
+            const range = getValueRange(urlNode, textDocument);
+            const suggestions = rankSimilarSwaggerUrls(currentUrl, swaggerPaths);
+            this.report(diagnostics, 'unknown-url', {
+                range,
+                message: `Неизвестный URL: ${currentUrl}${formatSuggestions(suggestions)}`,
+                relatedInformation: this.createSuggestionInformation(suggestions, url => this.getSpecLocation(swaggerPaths[url]), textDocument, range)
+            });
+            return;
+        }
+
+        const ambiguousUrls = getAmbiguousSwaggerUrls(currentUrl, swaggerPaths);
+        if (ambiguousUrls.length > 0) {
+            const range = getValueRange(urlNode, textDocument);
+            this.report(diagnostics, 'ambiguous-url', {
+                range,
+                message: `Неоднозначный URL: ${currentUrl} подходит под пути ${ambiguousUrls.map(url => `'${url}'`).join(', ')}`,
+                relatedInformation: ambiguousUrls.map(url => ({
+                    location: this.getSpecLocation(swaggerPaths[url]) ?? { uri: textDocument.uri, range },
+                    message: `Путь спецификации: '${url}'`
+                }))
+            });
+        }
+
+        const type = getMethodValue(request);
+        if (type === undefined) {
+            return;
+        }
+
+        const method = swaggerPaths[swaggerUrlMatch]?.[type as keyof SwaggerPath];
+        const evaluatedUrl = evaluateUrl(urlNode);
+        if (method && evaluatedUrl) {
+            // Параметры пути, строки запроса и заголовки
+            const parameterIssues = validateParameters(method, {
+                url: evaluatedUrl,
+                template: swaggerUrlMatch,
+                query: this.getQueryParams(request, type),
+                headers: getHeaders(request)
+            });
+            for (const issue of parameterIssues) {
+                this.report(diagnostics, issue.kind, {
+                    range: { start: textDocument.positionAt(issue.start), end: textDocument.positionAt(issue.end) },
+                    message: issue.message
+                });
+            }
+        }
+
+        if (!method) {
+            this.report(diagnostics, 'invalid-method', {
+                // Подразумеваемый метод не записан в коде, диагностика указывает на URL
+                range: getValueRange(request.method ?? urlNode, textDocument),
+                message: `Недопустимый HTTP метод '${type.toUpperCase()}' для URL: ${currentUrl}`
+            });
+        } else if (BODY_METHODS.includes(type)) {
+            const bodyParam = method.parameters?.find(param => param.in === 'body');
+            const { data, checker } = this.getCheckedBody(request, node.getSourceFile());
+
+            // Рекурсивная проверка тела запроса по схеме
+            if (bodyParam?.schema && data) {
+                for (const issue of validateSchemaValue(data, bodyParam.schema, request.bodyName, checker)) {
+                    const range = getNodeRange(issue.node, textDocument);
+                    this.report(diagnostics, issue.kind, {
+                        range,
+                        message: issue.message,
+                        relatedInformation: issue.suggestions && this.createSuggestionInformation(
+                            issue.suggestions,
+                            name => issue.schema && this.getPropertyLocation(issue.schema, name),
+                            textDocument,
+                            range
+                        )
+                    });
+                }
+            }
+        }
+
+        if (method) {
+            this.checkResponseAccesses(node as ts.CallExpression, request, textDocument, diagnostics);
+        }
+    }
+
+    provideHover(node: ts.Node, textDocumentPosition: TextDocumentPositionParams, document: TextDocument): Hover | undefined {
+        const request = this.extractRequest(node as ts.CallExpression);
+        const currentUrl = request ? getUrlValue(request) : undefined;
+        if (!request || currentUrl === undefined) {
+            return undefined;
+        }
+
+        const swaggerPaths = this.specRegistry.getPaths();
+        const swaggerUrlMatch = getMatchingSwaggerUrl(currentUrl, swaggerPaths);
+        if (!swaggerUrlMatch) {
+            return undefined;
+        }
+
+        const offset = document.offsetAt(textDocumentPosition.position);
+        const pathItem = swaggerPaths[swaggerUrlMatch];
+
+        // Наведение на URL: шаблон пути и доступные методы
+        if (request.url && containsOffset(request.url, offset)) {
+            return createHover(formatPathHover(swaggerUrlMatch, pathItem), request.url, document);
+        }
+
+        const type = getMethodValue(request);
+        const method = type ? pathItem[type as keyof SwaggerPath] : undefined;
+        if (!type || !method) {
+            return undefined;
+        }
+
+        // Наведение на метод: параметры операции
+        if (request.method && containsOffset(request.method, offset)) {
+            return createHover(formatOperationHover(swaggerUrlMatch, type, method), request.method, document);
+        }
+
+        // Наведение на поле ответа в обработчике: описание поля из схемы ответа
+        const responseHover = this.provideResponseHover(node as ts.CallExpression, request, offset, document);
+        if (responseHover) {
+            return responseHover;
+        }
+
+        // Наведение на ключ внутри тела запроса: описание поля из схемы
+        const bodySchema = method.parameters?.find(param => param.in === 'body')?.schema;
+        if (request.body && bodySchema && containsOffset(request.body, offset)) {
+            const field = findFieldAtOffset(request.body, bodySchema, offset, [request.bodyName]);
+            if (field) {
+                return createHover(formatFieldHover(field.path.join('.'), field.schema, field.required), field.nameNode, document);
+            }
+        }
+        return undefined;
+    }
+
+    provideDefinition(node: ts.Node, textDocumentPosition: TextDocumentPositionParams, document: TextDocument): Location | undefined {
+        const request = this.extractRequest(node as ts.CallExpression);
+        const currentUrl = request ? getUrlValue(request) : undefined;
+        if (!request || currentUrl === undefined) {
+            return undefined;
+        }
+
+        const swaggerPaths = this.specRegistry.getPaths();
+        const swaggerUrlMatch = getMatchingSwaggerUrl(currentUrl, swaggerPaths);
+        if (!swaggerUrlMatch) {
+            return undefined;
+        }
+
+        const offset = document.offsetAt(textDocumentPosition.position);
+        const pathItem = swaggerPaths[swaggerUrlMatch];
+        const type = getMethodValue(request);
+        const method = type ? pathItem[type as keyof SwaggerPath] : undefined;
+        const bodySchema = method?.parameters?.find(param => param.in === 'body')?.schema;
+
+        // URL ведет к пути, метод — к операции, ключ тела запроса — к ключу свойства в схеме
+        if (request.url && containsOffset(request.url, offset)) {
+            return this.getSpecLocation(pathItem);
+        } else if (request.method && containsOffset(request.method, offset)) {
+            return method && this.getSpecLocation(method);
+        } else if (request.body && bodySchema && containsOffset(request.body, offset)) {
+            const field = findFieldAtOffset(request.body, bodySchema, offset, [request.bodyName]);
+            return field && containsOffset(field.nameNode, offset)
+                ? this.getPropertyLocation(field.parentSchema, field.path[field.path.length - 1])
+                : undefined;
+        }
+        return undefined;
+    }
+
+    provideCodeActions(node: ts.Node, params: CodeActionParams, document: TextDocument): CodeAction[] {
+        const request = this.extractRequest(node as ts.CallExpression);
+        const currentUrl = request ? getUrlValue(request) : undefined;
+        if (!request?.url || currentUrl === undefined) {
+            return [];
+        }
+
+        const swaggerPaths = this.specRegistry.getPaths();
+        const requestedRange = {
+            start: document.offsetAt(params.range.start),
+            end: document.offsetAt(params.range.end)
+        };
+        const isRequested = (target: ts.Node) => target.getStart() <= requestedRange.end && target.getEnd() >= requestedRange.start;
+
+        // Неизвестный URL: замена на ближайший шаблон пути
+        const swaggerUrlMatch = getMatchingSwaggerUrl(currentUrl, swaggerPaths);
+        if (!swaggerUrlMatch) {
+            // Заменить можно только URL, заданный строковым литералом
+            if (!isStringNode(request.url) || !isRequested(request.url)) {
+                return [];
+            }
+            const range = getValueRange(request.url, document);
+            const diagnostics = findDiagnostics(params, range);
+            return rankSimilarSwaggerUrls(currentUrl, swaggerPaths).map((url, index) =>
+                createQuickFix(`Заменить на '${url}'`, document, [TextEdit.replace(range, url)], diagnostics, index === 0)
+            );
+        }
+
+        const type = getMethodValue(request);
+        if (type === undefined) {
+            return [];
+        }
+
+        // Недопустимый метод: замена на один из методов пути
+        const pathItem = swaggerPaths[swaggerUrlMatch];
+        const method = pathItem[type as keyof SwaggerPath];
+        if (!method) {
+            if (!request.method || !isRequested(request.method)) {
+                return [];
+            }
+            const range = getValueRange(request.method, document);
+            const methodText = isStringNode(request.method) ? request.method.text : '';
+            const diagnostics = findDiagnostics(params, range);
+            return HTTP_METHODS
+                .filter(allowed => pathItem[allowed])
+                .map(allowed => {
+                    // Сохраняем регистр, в котором метод записан в коде
+                    const newText = methodText && methodText === methodText.toUpperCase() ? allowed.toUpperCase() : allowed;
+                    return createQuickFix(`Заменить метод на '${allowed.toUpperCase()}'`, document, [TextEdit.replace(range, newText)], diagnostics);
+                });
+        }
+
+        const bodySchema = method.parameters?.find(param => param.in === 'body')?.schema;
+        // Тело проверяется так же, как при построении диагностик, иначе исправления не совпадут с ними
+        const { data, checker } = this.getCheckedBody(request, node.getSourceFile());
+        if (!BODY_METHODS.includes(type) || !data || !bodySchema) {
+            return [];
+        }
+
+        const actions: CodeAction[] = [];
+        const missingFields = new Map<ts.ObjectLiteralExpression, SchemaIssue[]>();
+        for (const issue of validateSchemaValue(data, bodySchema, request.bodyName, checker)) {
+            if (!isRequested(issue.node) || !issue.field || !issue.schema) {
+                continue;
+            }
+            const diagnostics = findDiagnostics(params, getNodeRange(issue.node, document), issue.message);
+
+            if (issue.kind === 'missing-required-field' && ts.isObjectLiteralExpression(issue.node)) {
+                const edit = createInsertPropertiesEdit(issue.node, [formatRequiredField(issue.field, issue.schema)], document);
+                actions.push(createQuickFix(`Добавить обязательное поле '${issue.field}'`, document, [edit], diagnostics));
+                missingFields.set(issue.node, [...(missingFields.get(issue.node) ?? []), issue]);
+            } else if (issue.kind === 'unknown-field') {
+                actions.push(...this.createUnknownFieldFixes(issue, document, diagnostics));
+            }
+        }
+
+        // Все обязательные поля объекта одним исправлением
+        for (const [object, issues] of missingFields) {
+            if (issues.length > 1) {
+                const entries = issues.map(issue => formatRequiredField(issue.field!, issue.schema!));
+                const diagnostics = issues.flatMap(issue => findDiagnostics(params, getNodeRange(object, document), issue.message));
+                actions.push(createQuickFix('Заполнить все обязательные поля', document, [createInsertPropertiesEdit(object, entries, document)], diagnostics));
+            }
+        }
+        return actions;
+    }
+
+    provideEndpointReference(node: ts.Node, document: TextDocument): EndpointReference | undefined {
+        const request = this.extractRequest(node as ts.CallExpression);
+        const currentUrl = request ? getUrlValue(request) : undefined;
+        if (!request?.url || currentUrl === undefined) {
+            return undefined;
+        }
+
+        const template = getMatchingSwaggerUrl(currentUrl, this.specRegistry.getPaths());
+        if (!template) {
+            return undefined;
+        }
+        return { template, method: getMethodValue(request), range: getValueRange(request.url, document) };
+    }
+
+    /**
+     * Создает элемент автодополнения для свойства объекта настроек.
+     */
+    protected createConfigPropertyCompletion(prop: string, bodyName: string, responseSchema?: SwaggerSchema): CompletionItem {
+        let insertText = `${prop}: `;
+        let kind: CompletionItemKind;
+        let detail: string | undefined;
+
+        if (prop === 'url') {
+            insertText += `"\${1}"`; // Добавляем кавычки и snippet
+            detail = 'URL запроса';
+            kind = CompletionItemKind.Snippet;
+        } else if (prop === 'type' || prop === 'method') {
+            insertText += `"\${1}"`; // Добавляем кавычки и snippet
+            detail = 'HTTP метод';
+            kind = CompletionItemKind.Snippet;
+        } else if (prop === bodyName) {
+            insertText += `{\n\t\${1}\n}`; // Добавляем пустой объект и snippet
+            detail = 'Данные запроса (body)';
+            kind = CompletionItemKind.Snippet;
+        } else if (prop === 'headers' || prop === 'params') {
+            insertText += `{\n\t\${1}\n}`;
+            detail = prop === 'headers' ? 'Заголовки запроса' : 'Параметры строки запроса';
+            kind = CompletionItemKind.Snippet;
+        } else if (prop === 'success') {
+            // Первый аргумент success — тело ответа, его поля доступны в автодополнении внутри колбэка
+            insertText += `(\${1:response}) => {\n\t\${0}\n}`;
+            detail = responseSchema ? `success колбэк (ответ: ${getSchemaTypeLabel(responseSchema)})` : 'success колбэк';
+            kind = CompletionItemKind.Snippet;
+        } else if (prop === 'error' || prop === 'complete') {
+            // Snippet для колбэков с аргументом и телом
+            insertText += `(\${1}) => {\n\t\${0}\n}`;
+            detail = `${prop} колбэк`;
+            kind = CompletionItemKind.Snippet;
+        } else {
+            // Для других свойств по умолчанию - просто имя:
+            insertText = `${prop}: \${1}`;
+            kind = CompletionItemKind.Property;
+        }
+
+        return {
+            label: prop,
+            kind: kind,
+            insertText: insertText,
+            insertTextFormat: InsertTextFormat.Snippet,
+            detail: detail
+        };
+    }
+
+    /**
+     * Исправления неизвестного поля: замена на похожие имена из схемы и удаление поля.
+     */
+    private createUnknownFieldFixes(issue: SchemaIssue, document: TextDocument, diagnostics: Diagnostic[]): CodeAction[] {
+        // Поле из типа выражения в коде не записано, исправлять нечего
+        const property = issue.node.parent;
+        if ((!ts.isPropertyAssignment(property) && !ts.isShorthandPropertyAssignment(property)) || property.name !== issue.node) {
+            return [];
+        }
+
+        const actions = (issue.suggestions ?? []).map((name, index) => {
+            const edit = ts.isShorthandPropertyAssignment(property)
+                // Сокращенная запись ссылается на переменную, поэтому сохраняем значение
+                ? TextEdit.replace(getNodeRange(property, document), `${formatPropertyKey(name)}: ${property.name.text}`)
+                : ts.isStringLiteral(property.name)
+                    ? TextEdit.replace(getValueRange(property.name, document), name)
+                    : TextEdit.replace(getNodeRange(property.name, document), formatPropertyKey(name));
+            return createQuickFix(`Заменить на '${name}'`, document, [edit], diagnostics, index === 0);
+        });
+        actions.push(createQuickFix(`Удалить поле '${issue.field}'`, document, [createRemovePropertyEdit(property.parent, property, document)], diagnostics));
+        return actions;
+    }
+
+    /**
+     * Тело запроса для проверки по схеме и средство проверки типов для него.
+     * С проверкой типов тело может быть любым выражением, без нее — только литералом.
+     */
+    private getCheckedBody(request: HttpRequestCall, sourceFile: ts.SourceFile): { data?: ts.Expression, checker?: ts.TypeChecker } {
+        const checker = this.typeScriptService?.getTypeChecker(sourceFile);
+        return { data: request.body ?? (checker ? getDataExpression(request) : undefined), checker };
+    }
+
+    /**
+     * Место описания элемента спецификации (пути, операции или схемы) в файле той спецификации, где он описан.
+     */
+    private getSpecLocation(node: object): Location | undefined {
+        const location = this.specRegistry.getSourceLocation(node);
+        return location && Location.create(pathToFileURL(location.filePath).toString(), location.range);
+    }
+
+    /**
+     * Место ключа свойства схемы объекта в файле спецификации. Если позиция ключа неизвестна
+     * (например, схема объединена из `allOf`), — место описания схемы свойства.
+     */
+    private getPropertyLocation(objectSchema: SwaggerSchema, name: string): Location | undefined {
+        const location = this.specRegistry.getPropertyLocation(objectSchema, name);
+        if (location) {
+            return Location.create(pathToFileURL(location.filePath).toString(), location.range);
+        }
+        const propertySchema = getSchemaAtPath(objectSchema, [name]);
+        return propertySchema && this.getSpecLocation(propertySchema);
+    }
+
+    /**
+     * Связанная информация с вариантами "возможно, имелось в виду".
+     * Каждый вариант ссылается на свое место в спецификации, а если оно неизвестно — на место самой диагностики.
+     * @param {string[]} suggestions - Варианты.
+     * @param {Function} getLocation - Возвращает место варианта в спецификации (пути или ключа поля).
+     */
+    private createSuggestionInformation(
+        suggestions: string[],
+        getLocation: (suggestion: string) => Location | undefined,
+        document: TextDocument,
+        range: Range
+    ): DiagnosticRelatedInformation[] {
+        return suggestions.map(suggestion => ({
+            location: getLocation(suggestion) ?? { uri: document.uri, range },
+            message: `Возможно, имелось в виду: '${suggestion}'`
+        }));
+    }
+
+    /**
+     * Схема тела успешного ответа операции, соответствующей запросу.
+     */
+    private getSuccessResponseSchema(request: HttpRequestCall): { schema: SwaggerSchema, label: string } | undefined {
+        const currentUrl = getUrlValue(request);
+        const type = getMethodValue(request);
+        if (currentUrl === undefined || !type) {
+            return undefined;
+        }
+
+        const swaggerPaths = this.specRegistry.getPaths();
+        const template = getMatchingSwaggerUrl(currentUrl, swaggerPaths);
+        const operation = template ? swaggerPaths[template][type as keyof SwaggerPath] : undefined;
+        const success = operation ? getSuccessResponse(operation) : undefined;
+        return success?.response.schema
+            ? { schema: success.response.schema, label: `${type.toUpperCase()} ${template} (${success.status})` }
+            : undefined;
+    }
+
+    /**
+     * Обработчики ответа вызова и схема значения, которое они получают.
+     * Если клиент оборачивает тело ответа (`response.data`), схема тела вкладывается в открытый объект-обертку.
+     */
+    private getResponseContext(request: HttpRequestCall, call: ts.CallExpression): ResponseContext | undefined {
+        const dataPath = this.getResponseDataPath();
+        const response = dataPath ? this.getSuccessResponseSchema(request) : undefined;
+        if (!dataPath || !response) {
+            return undefined;
+        }
+
+        const handlers = findResponseHandlers(call, this.getResponseCallbacks(request, call));
+        const schema = dataPath.reduceRight<SwaggerSchema>(
+            (inner, segment) => ({ type: 'object', properties: { [segment]: inner }, additionalProperties: true }),
+            response.schema
+        );
+        return handlers.length > 0 ? { schema, label: response.label, handlers } : undefined;
+    }
+
+    /**
+     * Автодополнение внутри обработчика ответа: после `response.` предлагаются поля схемы ответа.
+     * Внутри обработчика другие варианты (например, свойства объекта настроек) не предлагаются.
+     */
+    private provideResponseCompletions(call: ts.CallExpression, request: HttpRequestCall, offset: number): CompletionItem[] | undefined {
+        const context = this.getResponseContext(request, call);
+        const handler = context?.handlers.find(item => item.handler.body && containsOffset(item.handler.body, offset));
+        if (!context || !handler) {
+            return undefined;
+        }
+
+        const access = collectResponseAccesses(handler).find(item =>
+            ts.isPropertyAccessExpression(item.node) && offset > item.node.expression.getEnd() && offset <= item.node.name.getEnd()
+        );
+        const objectSchema = access ? getSchemaAtPath(context.schema, access.path.slice(0, -1)) : undefined;
+        if (!objectSchema) {
+            return [];
+        }
+
+        const items = new Map<string, CompletionItem>();
+        for (const variant of getSchemaVariants(objectSchema)) {
+            for (const [name, propSchema] of Object.entries(variant.properties ?? {})) {
+                const required = variant.required?.includes(name);
+                items.set(name, {
+                    label: name,
+                    kind: CompletionItemKind.Field,
+                    detail: `${getSchemaTypeLabel(propSchema)}${required ? ' (обязательное)' : ''}`,
+                    documentation: propSchema.description
+                });
+            }
+        }
+        return [...items.values()];
+    }
+
+    /**
+     * Подсказка для поля ответа, на котором находится курсор.
+     */
+    private provideResponseHover(call: ts.CallExpression, request: HttpRequestCall, offset: number, document: TextDocument): Hover | undefined {
+        const context = this.getResponseContext(request, call);
+        const handler = context?.handlers.find(item => containsOffset(item.handler, offset));
+        const access = handler && collectResponseAccesses(handler).find(item => containsOffset(item.nameNode, offset));
+        const schema = context && access ? getSchemaAtPath(context.schema, access.path) : undefined;
+        if (!context || !handler || !access || !schema) {
+            return undefined;
+        }
+
+        const name = access.path[access.path.length - 1];
+        const parentSchema = getSchemaAtPath(context.schema, access.path.slice(0, -1));
+        const required = typeof name === 'string' && !!parentSchema &&
+            getSchemaVariants(parentSchema).some(variant => variant.required?.includes(name));
+        const fieldPath = formatAccessPath(handler.parameter.text, access.path);
+        return createHover(formatFieldHover(fieldPath, schema, required), access.nameNode, document);
+    }
+
+    /**
+     * Предупреждает об обращениях к полям, которых нет в схеме успешного ответа.
+     * Проверяются только поля объектов со списком свойств, не допускающих дополнительных полей;
+     * присваивания и встроенные члены объектов (`toString`, `hasOwnProperty`) не проверяются.
+     */
+    private checkResponseAccesses(call: ts.CallExpression, request: HttpRequestCall, document: TextDocument, diagnostics: Diagnostic[]): void {
+        const context = this.getResponseContext(request, call);
+        if (!context) {
+            return;
+        }
+
+        for (const handler of context.handlers) {
+            for (const access of collectResponseAccesses(handler)) {
+                const name = access.path[access.path.length - 1];
+                if (typeof name !== 'string' || name === '' || name in Object.prototype || isAssignmentTarget(access.node)) {
+                    continue;
+                }
+
+                const parentSchema = getSchemaAtPath(context.schema, access.path.slice(0, -1));
+                const objectVariants = parentSchema
+                    ? getSchemaVariants(parentSchema).filter(variant => variant.type === 'object' || variant.properties)
+                    : [];
+                if (objectVariants.length === 0 || objectVariants.some(allowsUnknownProperties) || getSchemaAtPath(parentSchema!, [name])) {
+                    continue;
+                }
+
+                const candidates = [...new Set(objectVariants.flatMap(variant => Object.keys(variant.properties ?? {})))];
+                const suggestions = rankSimilarStrings(name, candidates);
+                const range = getValueRange(access.nameNode, document);
+                this.report(diagnostics, 'unknown-response-field', {
+                    range,
+                    message: `Поле '${name}' отсутствует в схеме ответа ${context.label}${formatSuggestions(suggestions)}`,
+                    relatedInformation: suggestions.length > 0
+                        ? this.createSuggestionInformation(suggestions, suggestion => this.getPropertyLocation(parentSchema!, suggestion), document, range)
+                        : undefined
+                });
+            }
+        }
+    }
+
+    /**
+     * Добавляет диагностику правила с настроенной важностью; выключенные правила не сообщают о проблемах.
+     */
+    private report(diagnostics: Diagnostic[], ruleId: RuleId, diagnostic: RuleDiagnostic): void {
+        const created = this.rules.createDiagnostic(ruleId, diagnostic);
+        if (created) {
+            diagnostics.push(created);
+        }
+    }
+
+    private checkDuplicateProperties(config: ts.ObjectLiteralExpression, textDocument: TextDocument, diagnostics: Diagnostic[]): void {
+        const encounteredProps = new Set<string>();
+
+        for (const prop of config.properties) {
+            if (ts.isPropertyAssignment(prop) && ts.isIdentifier(prop.name)) {
+                const propName = prop.name.text;
+
+                if (encounteredProps.has(propName)) {
+                    this.report(diagnostics, 'duplicate-property', {
+                        range: {
+                            start: textDocument.positionAt(prop.name.getStart()),
+                            end: textDocument.positionAt(prop.name.getEnd())
+                        },
+                        message: `Дублирующееся свойство: '${propName}'`
+                    });
+                }
+                encounteredProps.add(propName);
+            }
+        }
+    }
+
+    /**
+     * Предлагает имена параметров операции (строки запроса или заголовков), если курсор находится
+     * внутри объекта параметров, но не в значении свойства.
+     */
+    private provideParameterCompletions(
+        container: ts.Expression | undefined,
+        method: SwaggerMethod,
+        location: SwaggerParameter['in'],
+        offset: number
+    ): CompletionItem[] | undefined {
+        if (!container || !ts.isObjectLiteralExpression(container) || offset <= container.getStart() || offset >= container.getEnd()) {
+            return undefined;
+        }
+        const inValue = container.properties.some(prop =>
+            ts.isPropertyAssignment(prop) && offset > prop.name.getEnd() && offset <= prop.getEnd()
+        );
+        if (inValue) {
+            return [];
+        }
+
+        const existingNames = getObjectPropertyNames(container).map(name => location === 'header' ? name.toLowerCase() : name);
+        return (method.parameters ?? [])
+            .filter(param => param.in === location)
+            .filter(param => !existingNames.includes(location === 'header' ? param.name.toLowerCase() : param.name))
+            .map(param => {
+                // Значения заголовков всегда строки
+                const value = location === 'header'
+                    ? '"${1}"'
+                    : param.schema ? getSchemaValuePlaceholder(param.schema, 1) : '${1}';
+                return {
+                    label: param.name,
+                    kind: CompletionItemKind.Property,
+                    insertText: `${formatPropertyKey(param.name)}: ${value}`,
+                    insertTextFormat: InsertTextFormat.Snippet,
+                    detail: `${param.schema ? getSchemaTypeLabel(param.schema) : 'string'}${param.required ? ' (обязательный)' : ''}`,
+                    documentation: param.description
+                };
+            });
+    }
+
+    /**
+     * Предлагает имена cookie операции, если курсор находится внутри значения заголовка Cookie.
+     */
+    private provideCookieCompletions(headers: ts.Expression | undefined, method: SwaggerMethod, offset: number): CompletionItem[] | undefined {
+        const cookieHeader = headers && findCookieHeader(headers);
+        if (!cookieHeader || offset <= cookieHeader.getStart() || offset >= cookieHeader.getEnd()) {
+            return undefined;
+        }
+
+        const existingNames = parseCookieHeader(cookieHeader.text).map(entry => entry.name);
+        return (method.parameters ?? [])
+            .filter(param => param.in === 'cookie' && !existingNames.includes(param.name))
+            .map(param => ({
+                label: param.name,
+                kind: CompletionItemKind.Property,
+                insertText: `${param.name}=`,
+                detail: `${param.schema ? getSchemaTypeLabel(param.schema) : 'string'}${param.required ? ' (обязательный)' : ''}`,
+                documentation: param.description
+            }));
+    }
+
+    private isInBodyArea(request: HttpRequestCall, offset: number): boolean {
+        const container = request.bodyContainer;
+        if (!container) {
+            return false;
+        }
+        // Курсор находится после двоеточия свойства тела или внутри потенциального объекта
+        if (ts.isPropertyAssignment(container)) {
+            return offset >= container.name.getEnd() + 1 && offset <= container.getEnd() + 1;
+        }
+        return offset >= container.getStart() && offset <= container.getEnd();
+    }
+
+    private provideBodyCompletions(
+        request: HttpRequestCall,
+        method: SwaggerMethod,
+        textDocumentPosition: TextDocumentPositionParams,
+        document: TextDocument
+    ): CompletionItem[] | undefined {
+        const offset = document.offsetAt(textDocumentPosition.position);
+        const bodyParam = method.parameters?.find(param => param.in === 'body');
+        const dataObject = request.body && ts.isObjectLiteralExpression(request.body) ? request.body : undefined;
+        const bodySchema = bodyParam?.schema
+            ? selectObjectVariant(bodyParam.schema, dataObject ? getObjectPropertyNames(dataObject) : [])
+            : undefined;
+
+        // Курсор в значении поля: предлагаем допустимые значения enum
+        const valueCompletions = dataObject && bodySchema?.properties
+            ? this.provideEnumValueCompletions(dataObject, bodySchema, offset, document)
+            : undefined;
+        if (valueCompletions) {
+            return valueCompletions;
+        }
+
+        if (!bodySchema?.properties) {
+            return undefined;
+        }
+
+        const completionsForData: CompletionItem[] = [];
+        for (const propName in bodySchema.properties) {
+            const propSchema = getSchemaVariants(bodySchema.properties[propName])[0];
+            const isRequired = bodySchema.required?.includes(propName);
+
+            let insertTextForProp: string;
+            let detailForProp: string = getSchemaTypeLabel(bodySchema.properties[propName]);
+
+            if (propSchema.type === 'object' && propSchema.properties) {
+                insertTextForProp = `"${propName}": ${generateDataSnippet(propSchema, 2, true)}`;
+            } else if (propSchema.type === 'array' && propSchema.items) {
+                insertTextForProp = `"${propName}": [\n\t\t${getSchemaValuePlaceholder(propSchema.items, 1)}\n\t]`;
+            } else {
+                insertTextForProp = `"${propName}": ${getSchemaValuePlaceholder(propSchema, 1)}`;
+                detailForProp += isRequired ? ' (обязательное)' : ' (необязательное)';
+            }
+
+            const item: CompletionItem = {
+                label: propName,
+                kind: CompletionItemKind.Property,
+                insertText: insertTextForProp,
+                insertTextFormat: InsertTextFormat.Snippet,
+                detail: detailForProp
+            };
+
+            // Проверяем, был ли триггер точкой
+            const currentPosition = textDocumentPosition.position;
+            const rangeBefore = Range.create(
+                { line: currentPosition.line, character: currentPosition.character - 1 },
+                currentPosition
+            );
+            const charBefore = document.getText(rangeBefore);
+
+            if (charBefore === '.') {
+                item.textEdit = {
+                    range: rangeBefore,
+                    newText: insertTextForProp
+                };
+            }
+
+            completionsForData.push(item);
+        }
+        return completionsForData;
+    }
+
+    /**
+     * Возвращает варианты значений `enum`, если курсор находится в значении поля объекта тела запроса.
+     * Возвращает `undefined`, если курсор не в значении поля или значения поля не ограничены.
+     */
+    private provideEnumValueCompletions(
+        dataObject: ts.ObjectLiteralExpression,
+        bodySchema: SwaggerSchema,
+        offset: number,
+        document: TextDocument
+    ): CompletionItem[] | undefined {
+        const dataProps = dataObject.properties;
+        for (let i = 0; i < dataProps.length; i++) {
+            const dataProp = dataProps[i];
+            if (!ts.isPropertyAssignment(dataProp)) {
+                continue;
+            }
+
+            // Пока значение не набрано, оно занимает все место до следующего свойства
+            const valueNode = dataProp.initializer;
+            const valueEnd = valueNode.getWidth() > 0
+                ? valueNode.getEnd()
+                : i + 1 < dataProps.length ? dataProps[i + 1].getStart() : dataObject.getEnd() - 1;
+            const propName = getPropertyName(dataProp.name);
+            if (!propName || offset <= dataProp.name.getEnd() || offset > valueEnd) {
+                continue;
+            }
+
+            const propSchema = bodySchema.properties?.[propName];
+            const values = propSchema ? getSchemaEnum(propSchema) : undefined;
+            if (!propSchema || !values) {
+                return undefined;
+            }
+
+            const inString = ts.isStringLiteral(valueNode);
+            return values.map(value => {
+                const text = inString && typeof value === 'string' ? value : JSON.stringify(value);
+                const item: CompletionItem = {
+                    label: JSON.stringify(value),
+                    kind: CompletionItemKind.EnumMember,
+                    filterText: text,
+                    detail: getSchemaTypeLabel(propSchema)
+                };
+                if (inString) {
+                    item.textEdit = {
+                        range: {
+                            start: document.positionAt(valueNode.getStart() + 1),
+                            end: document.positionAt(valueNode.getEnd() - 1)
+                        },
+                        newText: text
+                    };
+                } else {
+                    item.insertText = text;
+                }
+                return item;
+            });
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Возвращает значение URL запроса. Невычислимые части URL (например, `${id}`) заменяются на `URL_WILDCARD`.
+ */
+export function getUrlValue(request: HttpRequestCall): string | undefined {
+    return request.url ? evaluateUrl(request.url)?.text : undefined;
+}
+
+/**
+ * Возвращает HTTP метод запроса в нижнем регистре, если он известен.
+ */
+export function getMethodValue(request: HttpRequestCall): string | undefined {
+    if (request.methodName) {
+        return request.methodName.toLowerCase();
+    }
+    return request.method && isStringNode(request.method) ? request.method.text.toLowerCase() : undefined;
+}
+
+/**
+ * Возвращает выражение данных запроса, даже если оно задано не литералом (например, переменной).
+ * Ссылки на переменные разрешаются до их значений.
+ */
+export function getDataExpression(request: HttpRequestCall): ts.Expression | undefined {
+    const container = request.bodyContainer;
+    if (container && ts.isObjectLiteralElementLike(container)) {
+        const value = getPropertyValue(container);
+        return value && resolveExpression(unwrapJsonStringify(resolveExpression(value)));
+    }
+    return request.body ?? (container && ts.isExpression(container) ? resolveExpression(unwrapJsonStringify(resolveExpression(container))) : undefined);
+}
+
+/**
+ * Возвращает объект заголовков из настроек запроса (`headers: {...}`), если он задан.
+ */
+export function getHeaders(request: HttpRequestCall): ts.Expression | undefined {
+    const headers = request.config ? findPropertyValue(request.config, ['headers']) : undefined;
+    return headers && resolveExpression(headers);
+}
+
+/**
+ * Извлекает URL, метод и тело запроса из объекта настроек (`{ url, type, data }`).
+ * Свойства из spread-выражений и значения-переменные разрешаются в пределах файла.
+ * Тело учитывается, только если оно разрешается в объектный или массивный литерал.
+ * @param {ts.ObjectLiteralExpression} config - Объект настроек запроса.
+ * @param {string[]} methodProps - Имена свойств, задающих метод.
+ * @param {string} bodyProp - Имя свойства тела запроса.
+ * @returns {HttpRequestCall} Части запроса.
+ */
+export function extractConfigRequest(config: ts.ObjectLiteralExpression, methodProps: string[], bodyProp: string): HttpRequestCall {
+    const method = findPropertyValue(config, methodProps);
+    const dataProp = findObjectProperty(config, [bodyProp]);
+    const data = dataProp && getPropertyValue(dataProp);
+
+    return {
+        url: findPropertyValue(config, ['url']),
+        method: method && resolveExpression(method),
+        body: data && resolveLiteralBody(data),
+        bodyContainer: dataProp,
+        bodyName: bodyProp,
+        config
+    };
+}
+
+/**
+ * Находит значение свойства объектного литерала по одному из имен с учетом spread-выражений
+ * (последнее объявление побеждает, как в JavaScript).
+ */
+export function findPropertyValue(object: ts.ObjectLiteralExpression, names: string[]): ts.Expression | undefined {
+    const property = findObjectProperty(object, names);
+    return property && getPropertyValue(property);
+}
+
+/**
+ * Разрешает выражение тела запроса; возвращает его, только если это объектный или массивный литерал.
+ */
+export function resolveLiteralBody(node: ts.Expression): ts.ObjectLiteralExpression | ts.ArrayLiteralExpression | undefined {
+    const resolved = resolveExpression(unwrapJsonStringify(resolveExpression(node)));
+    return ts.isObjectLiteralExpression(resolved) || ts.isArrayLiteralExpression(resolved) ? resolved : undefined;
+}
+
+/**
+ * Возвращает аргумент `JSON.stringify(...)` или само выражение, если это не вызов `JSON.stringify`:
+ * тело, сериализованное перед отправкой, проверяется по схеме как исходное значение.
+ */
+export function unwrapJsonStringify(node: ts.Expression): ts.Expression {
+    if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        ts.isIdentifier(node.expression.expression) &&
+        node.expression.expression.text === 'JSON' &&
+        node.expression.name.text === 'stringify' &&
+        node.arguments.length > 0
+    ) {
+        return node.arguments[0];
+    }
+    return node;
+}
+
+/**
+ * Обработчики ответа вызова и схема значения, которое они получают.
+ */
+interface ResponseContext {
+    schema: SwaggerSchema;
+    label: string;
+    handlers: ResponseHandler[];
+}
+
+/**
+ * Форматирует путь к полю ответа, например ('response', ['items', 0, 'name']) -> 'response.items[0].name'.
+ */
+function formatAccessPath(root: string, path: (string | number)[]): string {
+    return path.reduce<string>((result, segment) => typeof segment === 'number' ? `${result}[${segment}]` : `${result}.${segment}`, root);
+}
+
+/**
+ * Допускает ли объектная схема поля, не перечисленные в `properties` (правило то же, что и при проверке тела запроса).
+ */
+function allowsUnknownProperties(objectSchema: SwaggerSchema): boolean {
+    const additionalProps = objectSchema.additionalProperties;
+    return additionalProps !== undefined ? additionalProps !== false : !objectSchema.properties;
+}
+
+function isAssignmentTarget(node: ts.Expression): boolean {
+    const parent = node.parent;
+    return ts.isBinaryExpression(parent) && parent.left === node &&
+        parent.operatorToken.kind >= ts.SyntaxKind.FirstAssignment && parent.operatorToken.kind <= ts.SyntaxKind.LastAssignment;
+}
+
+/**
+ * Поле тела запроса, на имени которого находится курсор.
+ */
+interface HoveredField {
+    path: string[];
+    schema: SwaggerSchema;
+    // Схема объекта, в котором описано поле (до объединения `allOf` и выбора варианта)
+    parentSchema: SwaggerSchema;
+    required: boolean;
+    nameNode: ts.Node;
+}
+
+/**
+ * Находит поле, на имени которого находится курсор, спускаясь по вложенным объектам и массивам вместе со схемой.
+ */
+function findFieldAtOffset(node: ts.Expression, schema: SwaggerSchema, offset: number, path: string[]): HoveredField | undefined {
+    if (ts.isArrayLiteralExpression(node)) {
+        const itemsSchema = getSchemaVariants(schema).find(variant => variant.items)?.items;
+        const element = node.elements.find(item => containsOffset(item, offset));
+        if (!itemsSchema || !element) {
+            return undefined;
+        }
+        const itemPath = [...path.slice(0, -1), `${path[path.length - 1]}[${node.elements.indexOf(element)}]`];
+        return findFieldAtOffset(element, itemsSchema, offset, itemPath);
+    }
+    if (!ts.isObjectLiteralExpression(node)) {
+        return undefined;
+    }
+
+    const objectSchema = selectObjectVariant(schema, getObjectPropertyNames(node));
+    for (const prop of node.properties) {
+        if (!(ts.isPropertyAssignment(prop) || ts.isShorthandPropertyAssignment(prop)) || !containsOffset(prop, offset)) {
+            continue;
+        }
+        const propName = getPropertyName(prop.name);
+        const propSchema = propName !== undefined ? objectSchema?.properties?.[propName] : undefined;
+        if (propName === undefined || !propSchema) {
+            return undefined;
+        }
+        if (containsOffset(prop.name, offset)) {
+            return {
+                path: [...path, propName],
+                schema: propSchema,
+                parentSchema: schema,
+                required: objectSchema?.required?.includes(propName) ?? false,
+                nameNode: prop.name
+            };
+        }
+        return ts.isPropertyAssignment(prop) ? findFieldAtOffset(prop.initializer, propSchema, offset, [...path, propName]) : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * Свойство обязательного поля с примером значения из схемы объекта.
+ */
+function formatRequiredField(field: string, objectSchema: SwaggerSchema): string {
+    const fieldSchema = objectSchema.properties?.[field];
+    return `${formatPropertyKey(field)}: ${fieldSchema ? getSchemaExampleValue(fieldSchema) : 'null'}`;
+}
+
+/**
+ * Диагностики из запроса, к которым относится исправление (совпадает диапазон и, если указано, сообщение).
+ */
+function findDiagnostics(params: CodeActionParams, range: Range, message?: string): Diagnostic[] {
+    return params.context.diagnostics.filter(diagnostic =>
+        diagnostic.source === 'swagger-lsp' &&
+        (message === undefined || diagnostic.message === message) &&
+        diagnostic.range.start.line === range.start.line &&
+        diagnostic.range.start.character === range.start.character &&
+        diagnostic.range.end.line === range.end.line &&
+        diagnostic.range.end.character === range.end.character
+    );
+}
+
+function createQuickFix(title: string, document: TextDocument, edits: TextEdit[], diagnostics: Diagnostic[], isPreferred = false): CodeAction {
+    return {
+        title,
+        kind: CodeActionKind.QuickFix,
+        diagnostics,
+        isPreferred,
+        edit: { changes: { [document.uri]: edits } }
+    };
+}
+
+function getNodeRange(node: ts.Node, document: TextDocument): Range {
+    return {
+        start: document.positionAt(node.getStart()),
+        end: document.positionAt(node.getEnd())
+    };
+}
+
+function containsOffset(node: ts.Node, offset: number): boolean {
+    return offset >= node.getStart() && offset <= node.getEnd();
+}
+
+function createHover(markdown: string, node: ts.Node, document: TextDocument): Hover {
+    return {
+        contents: { kind: MarkupKind.Markdown, value: markdown },
+        range: {
+            start: document.positionAt(node.getStart()),
+            end: document.positionAt(node.getEnd())
+        }
+    };
+}
+
+function isStringNode(node: ts.Node): node is ts.StringLiteral | ts.NoSubstitutionTemplateLiteral {
+    return ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node);
+}
+
+/**
+ * Диапазон значения: для строковых литералов — без кавычек, для остальных узлов — весь узел.
+ */
+function getValueRange(node: ts.Node, textDocument: TextDocument): Range {
+    const quoteWidth = isStringNode(node) ? 1 : 0;
+    return {
+        start: textDocument.positionAt(node.getStart() + quoteWidth),
+        end: textDocument.positionAt(node.getEnd() - quoteWidth)
+    };
+}
@@ -0,0 +1,34 @@
+/**
+ * @module jsonReporter
+ * @description Отчет в формате JSON: файлы с находками и счетчиками.
+ * Строки и столбцы считаются с единицы, конец диапазона не включается.
+ */
+
+import { countFindings, LintReport } from './report';
+
+/**
+ * Форматирует отчет в JSON.
+ * @param {LintReport} report - Отчет.
+ * @returns {string} Текст JSON.
+ */
+export function formatJson(report: LintReport): string {
+  const counts = countFindings(report);
+  return JSON.stringify({
+    errorCount: counts.error,
+    warningCount: counts.warning,
+    files: report.files.map(file => ({
+      filePath: file.relativePath,
+      errorCount: file.findings.filter(finding => finding.severity === 'error').length,
+      warningCount: file.findings.filter(finding => finding.severity === 'warning').length,
+      findings: file.findings.map(finding => ({
+        ruleId: finding.ruleId,
+        severity: finding.severity,
+        message: finding.message,
+        line: finding.range.start.line + 1,
+        column: finding.range.start.character + 1,
+        endLine: finding.range.end.line + 1,
+        endColumn: finding.range.end.character + 1
+      }))
+    }))
+  }, null, 2);
+}
@@ -0,0 +1,46 @@
+/**
+ * @module junitReporter
+ * @description Отчет в формате JUnit XML для CI: набор тестов на файл, тест на каждую находку.
+ * Файл без находок представлен одним успешным тестом.
+ */
+
+import { countFindings, LintReport } from './report';
+
+/**
+ * Форматирует отчет в JUnit XML.
+ * @param {LintReport} report - Отчет.
+ * @returns {string} Текст XML.
+ */
+export function formatJUnit(report: LintReport): string {
+  const counts = countFindings(report);
+  const failures = counts.error + counts.warning + counts.info + counts.hint;
+  const tests = report.files.reduce((total, file) => total + Math.max(file.findings.length, 1), 0);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="ajax-linter" tests="${tests}" failures="${failures}" errors="0">`
+  ];
+  for (const file of report.files) {
+    const fileName = escapeXml(file.relativePath);
+    lines.push(`  <testsuite name="${fileName}" tests="${Math.max(file.findings.length, 1)}" failures="${file.findings.length}" errors="0">`);
+    if (file.findings.length === 0) {
+      lines.push(`    <testcase name="ajax-linter" classname="${fileName}"/>`);
+    }
+    for (const finding of file.findings) {
+      const position = `${finding.range.start.line + 1}:${finding.range.start.character + 1}`;
+      lines.push(
+        `    <testcase name="${escapeXml(`${finding.ruleId} (${position})`)}" classname="${fileName}">`,
+        `      <failure type="${finding.severity}" message="${escapeXml(finding.message)}">` +
+          `${escapeXml(`${file.relativePath}:${position}: ${finding.severity} ${finding.message} [${finding.ruleId}]`)}</failure>`,
+        '    </testcase>'
+      );
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return lines.join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', '\'': '&apos;' })[char]!);
+}
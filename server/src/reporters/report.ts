@@ -0,0 +1,140 @@
+/**
+ * @module report
+ * @description Модель отчета пакетной проверки и выбор формата вывода.
+ * Диагностики модулей функциональности (`Diagnostic[]`) переводятся в находки с идентификатором правила,
+ * файлом, диапазоном и важностью; форматы отчета строятся только по этой модели.
+ */
+
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver/node';
+
+import { FileDiagnostics } from '../workspace/linter';
+import { formatJson } from './jsonReporter';
+import { formatJUnit } from './junitReporter';
+import { formatSarif } from './sarifReporter';
+import { formatCompact, formatStylish } from './stylishReporter';
+
+/**
+ * Важность находки.
+ * @typedef {'error' | 'warning' | 'info' | 'hint'} FindingSeverity
+ */
+export type FindingSeverity = 'error' | 'warning' | 'info' | 'hint';
+
+/**
+ * Находка проверки.
+ * @property {string} ruleId - Идентификатор правила (код диагностики, иначе ее источник).
+ * @property {FindingSeverity} severity - Важность.
+ * @property {string} message - Сообщение.
+ * @property {Range} range - Диапазон в файле (строки и символы с нуля, как в LSP).
+ */
+export interface LintFinding {
+  ruleId: string;
+  severity: FindingSeverity;
+  message: string;
+  range: Range;
+}
+
+/**
+ * Находки одного файла.
+ * @property {string} filePath - Абсолютный путь к файлу.
+ * @property {string} relativePath - Путь относительно корня отчета с прямыми слешами.
+ * @property {LintFinding[]} findings - Находки файла.
+ */
+export interface FileReport {
+  filePath: string;
+  relativePath: string;
+  findings: LintFinding[];
+}
+
+/**
+ * Отчет пакетной проверки.
+ * @property {string} rootPath - Корень, относительно которого указаны пути файлов.
+ * @property {FileReport[]} files - Все проверенные файлы, в том числе без находок.
+ */
+export interface LintReport {
+  rootPath: string;
+  files: FileReport[];
+}
+
+/**
+ * Форматы отчета.
+ */
+export const REPORT_FORMATS = ['stylish', 'compact', 'json', 'sarif', 'junit'] as const;
+
+/**
+ * Формат отчета.
+ * @typedef {'stylish' | 'compact' | 'json' | 'sarif' | 'junit'} ReportFormat
+ */
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+/**
+ * Проверяет, что строка — известный формат отчета.
+ */
+export function isReportFormat(value: string): value is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Строит отчет по результатам проверки файлов.
+ * @param {FileDiagnostics[]} results - Диагностики файлов.
+ * @param {string} rootPath - Корень для относительных путей.
+ * @returns {LintReport} Отчет.
+ */
+export function createReport(results: FileDiagnostics[], rootPath: string): LintReport {
+  return {
+    rootPath,
+    files: results.map(result => ({
+      filePath: result.filePath,
+      relativePath: path.relative(rootPath, result.filePath).replace(/\\/g, '/'),
+      findings: result.diagnostics.map(toFinding)
+    }))
+  };
+}
+
+/**
+ * Форматирует отчет в указанном формате.
+ * @param {LintReport} report - Отчет.
+ * @param {ReportFormat} format - Формат.
+ * @returns {string} Текст отчета.
+ */
+export function formatReport(report: LintReport, format: ReportFormat): string {
+  switch (format) {
+    case 'compact': return formatCompact(report);
+    case 'json': return formatJson(report);
+    case 'sarif': return formatSarif(report);
+    case 'junit': return formatJUnit(report);
+    default: return formatStylish(report);
+  }
+}
+
+/**
+ * Считает находки отчета по важности.
+ */
+export function countFindings(report: LintReport): { [severity in FindingSeverity]: number } {
+  const counts = { error: 0, warning: 0, info: 0, hint: 0 };
+  for (const file of report.files) {
+    for (const finding of file.findings) {
+      counts[finding.severity]++;
+    }
+  }
+  return counts;
+}
+
+function toFinding(diagnostic: Diagnostic): LintFinding {
+  return {
+    ruleId: String(diagnostic.code ?? diagnostic.source ?? 'swagger-lsp'),
+    severity: toFindingSeverity(diagnostic.severity),
+    message: diagnostic.message,
+    range: diagnostic.range
+  };
+}
+
+function toFindingSeverity(severity: DiagnosticSeverity | undefined): FindingSeverity {
+  switch (severity) {
+    case DiagnosticSeverity.Warning: return 'warning';
+    case DiagnosticSeverity.Information: return 'info';
+    case DiagnosticSeverity.Hint: return 'hint';
+    // Клиенты LSP показывают диагностику без важности как ошибку
+    default: return 'error';
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * @module sarifReporter
+ * @description Отчет в формате SARIF 2.1.0 для панелей анализа кода (например, GitHub code scanning).
+ * Пути файлов указываются относительно `%SRCROOT%` — корня отчета.
+ */
+
+import { pathToFileURL } from 'url';
+
+import { getRuleDocumentationUrl, isRuleId, RULES } from '../validation/rules';
+import { FindingSeverity, LintReport } from './report';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SRCROOT = '%SRCROOT%';
+
+// Уровни SARIF: подсказки и информационные сообщения — 'note'
+const SARIF_LEVELS: { [severity in FindingSeverity]: string } = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+  hint: 'note'
+};
+
+/**
+ * Форматирует отчет в SARIF 2.1.0.
+ * @param {LintReport} report - Отчет.
+ * @returns {string} Текст SARIF (JSON).
+ */
+export function formatSarif(report: LintReport): string {
+  const ruleIds = [...new Set(report.files.flatMap(file => file.findings.map(finding => finding.ruleId)))].sort();
+
+  const results = report.files.flatMap(file => file.findings.map(finding => ({
+    ruleId: finding.ruleId,
+    ruleIndex: ruleIds.indexOf(finding.ruleId),
+    level: SARIF_LEVELS[finding.severity],
+    message: { text: finding.message },
+    locations: [{
+      physicalLocation: {
+        artifactLocation: { uri: encodeURI(file.relativePath), uriBaseId: SRCROOT },
+        // SARIF считает строки и столбцы с единицы; endColumn не включается, как и конец диапазона LSP
+        region: {
+          startLine: finding.range.start.line + 1,
+          startColumn: finding.range.start.character + 1,
+          endLine: finding.range.end.line + 1,
+          endColumn: finding.range.end.character + 1
+        }
+      }
+    }]
+  })));
+
+  return JSON.stringify({
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'ajax-linter',
+          informationUri: 'https://github.com/nokkov/ajax-linter',
+          rules: ruleIds.map(id => isRuleId(id)
+            ? { id, shortDescription: { text: RULES[id].description }, helpUri: getRuleDocumentationUrl(id) }
+            : { id })
+        }
+      },
+      originalUriBaseIds: {
+        [SRCROOT]: { uri: `${pathToFileURL(report.rootPath).toString().replace(/\/?$/, '/')}` }
+      },
+      results
+    }]
+  }, null, 2);
+}
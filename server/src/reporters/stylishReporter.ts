@@ -0,0 +1,68 @@
+/**
+ * @module stylishReporter
+ * @description Текстовые форматы отчета для терминала:
+ * `stylish` (находки сгруппированы по файлам, столбцы выровнены) и `compact` (одна строка на находку).
+ */
+
+import { countFindings, LintReport } from './report';
+
+/**
+ * Форматирует отчет по файлам с выровненными столбцами и сводкой в конце.
+ * @param {LintReport} report - Отчет.
+ * @returns {string} Текст отчета.
+ */
+export function formatStylish(report: LintReport): string {
+  const lines: string[] = [];
+  for (const file of report.files) {
+    if (file.findings.length === 0) {
+      continue;
+    }
+    const rows = file.findings.map(finding => [
+      `${finding.range.start.line + 1}:${finding.range.start.character + 1}`,
+      finding.severity,
+      finding.message,
+      finding.ruleId
+    ]);
+    const widths = [0, 1, 2].map(column => Math.max(...rows.map(row => row[column].length)));
+
+    lines.push(file.relativePath);
+    for (const row of rows) {
+      lines.push(`  ${row.slice(0, 3).map((cell, column) => cell.padEnd(widths[column])).join('  ')}  ${row[3]}`);
+    }
+    lines.push('');
+  }
+  lines.push(formatSummary(report));
+  return lines.join('\n');
+}
+
+/**
+ * Форматирует отчет по строке на находку: `path:line:column: severity message [rule]`.
+ * @param {LintReport} report - Отчет.
+ * @returns {string} Текст отчета.
+ */
+export function formatCompact(report: LintReport): string {
+  const lines = report.files.flatMap(file => file.findings.map(finding => {
+    const position = `${finding.range.start.line + 1}:${finding.range.start.character + 1}`;
+    return `${file.relativePath}:${position}: ${finding.severity} ${finding.message} [${finding.ruleId}]`;
+  }));
+  lines.push(formatSummary(report));
+  return lines.join('\n');
+}
+
+function formatSummary(report: LintReport): string {
+  const counts = countFindings(report);
+  const total = counts.error + counts.warning + counts.info + counts.hint;
+  const files = pluralize(report.files.length, 'file');
+  if (total === 0) {
+    return `${files} checked, no problems found`;
+  }
+  const details = [pluralize(counts.error, 'error'), pluralize(counts.warning, 'warning')];
+  if (counts.info + counts.hint > 0) {
+    details.push(pluralize(counts.info + counts.hint, 'info'));
+  }
+  return `${pluralize(total, 'problem')} (${details.join(', ')}) in ${files}`;
+}
+
+function pluralize(count: number, word: string): string {
+  return `${count} ${word}${count === 1 || word === 'info' ? '' : 's'}`;
+}
@@ -4,119 +4,590 @@ import {
   ProposedFeatures,
   InitializeParams,
   CompletionItem,
+  CompletionList,
   TextDocumentPositionParams,
-  Diagnostic,
   TextDocumentSyncKind,
-  InitializeResult
+  InitializeResult,
+  DidChangeConfigurationParams,
+  DidChangeWatchedFilesParams,
+  DidChangeWatchedFilesNotification,
+  DiagnosticSeverity,
+  Disposable,
+  Hover,
+  CodeAction,
+  CodeActionKind,
+  CodeActionParams,
+  ExecuteCommandParams,
+  ResponseError,
+  ErrorCodes,
+  FileChangeType,
+  DocumentDiagnosticReport,
+  DocumentDiagnosticReportKind,
+  WorkspaceDiagnosticReport,
+  WorkspaceDocumentDiagnosticReport,
+  Location,
+  ReferenceParams,
+  DefinitionParams,
+  SymbolInformation,
+  WorkspaceSymbolParams,
+  CancellationToken,
+  CancellationTokenSource,
+  LSPErrorCodes
 } from 'vscode-languageserver/node';
 
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import * as ts from 'typescript';
+import * as path from 'path';
+import * as fs from 'fs';
+import { fileURLToPath, pathToFileURL } from 'url';
 
-import { FeatureManager } from './features/feature';
-import { AjaxFeature } from './features/ajaxFeature';
+import { SpecRegistry, SpecSource } from './spec/specRegistry';
+import { SpecLoadError } from './spec/specLoader';
+import { TypeScriptService } from './workspace/typeScriptService';
+import { SourceFileCache } from './workspace/sourceFileCache';
+import { createFeatureManager, SOURCE_EXTENSIONS } from './workspace/linter';
+import { WorkspaceDiagnostics } from './workspace/workspaceDiagnostics';
+import { EndpointIndex } from './workspace/endpointIndex';
+import { RuleConfiguration } from './validation/rules';
+import { generateApiClient } from './codegen/clientGenerator';
+import { AjaxLinterSettings, defaultSettings } from './types/settings';
+import { getNodesAtOffset } from './utils/utils';
+
+const GENERATE_API_CLIENT_COMMAND = 'myAjaxLsp.server.generateApiClient';
+
+// Пауза после изменения документа, после которой отправляются его диагностики
+const VALIDATION_DELAY_MS = 200;
+// Количество файлов, которые перепроверяются подряд, прежде чем сервер обработает входящие сообщения
+const WORKSPACE_VALIDATION_BATCH_SIZE = 20;
 
 const connection = createConnection(ProposedFeatures.all);
 
-const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
+const sourceFileCache = new SourceFileCache();
+
+const documents: TextDocuments<TextDocument> = new TextDocuments(sourceFileCache);
+
+const specRegistry = new SpecRegistry();
+
+const typeScriptService = new TypeScriptService(documents, sourceFileCache);
+
+const ruleConfiguration = new RuleConfiguration();
 
-const featureManager = new FeatureManager();
-featureManager.register(new AjaxFeature());
+const featureManager = createFeatureManager(specRegistry, typeScriptService, ruleConfiguration);
+
+const workspaceDiagnostics = new WorkspaceDiagnostics(documents, typeScriptService, featureManager, ruleConfiguration);
+
+const endpointIndex = new EndpointIndex(workspaceDiagnostics, featureManager);
+
+let workspaceRoot: string | undefined;
+let workspaceFolders: string[] = [];
+let settings: AjaxLinterSettings = defaultSettings;
+let hasWatchedFilesCapability = false;
+let hasPullDiagnosticsCapability = false;
+let hasDiagnosticRefreshCapability = false;
+let specWatcherRegistration: Disposable | undefined;
+let specDiagnosticsUris = new Set<string>();
 
 connection.onInitialize((params: InitializeParams) => {
+  const rootUris = params.workspaceFolders?.map(folder => folder.uri) ?? (params.rootUri ? [params.rootUri] : []);
+  workspaceFolders = rootUris.filter(uri => uri.startsWith('file:')).map(uri => fileURLToPath(uri));
+  workspaceRoot = workspaceFolders[0];
+  hasWatchedFilesCapability = !!params.capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration;
+  hasPullDiagnosticsCapability = !!params.capabilities.textDocument?.diagnostic;
+  hasDiagnosticRefreshCapability = !!params.capabilities.workspace?.diagnostics?.refreshSupport;
+  const projectConfigPath = typeScriptService.configure(workspaceRoot);
+  if (projectConfigPath) {
+      connection.console.log(`Using TypeScript project ${projectConfigPath}`);
+  }
+
   const result: InitializeResult = {
       capabilities: {
-          textDocumentSync: TextDocumentSyncKind.Full,
+          textDocumentSync: TextDocumentSyncKind.Incremental,
           completionProvider: {
               resolveProvider: true,
               triggerCharacters: ['.', ':', '\'', '"', '/']
-          }
+          },
+          hoverProvider: true,
+          definitionProvider: true,
+          referencesProvider: true,
+          workspaceSymbolProvider: true,
+          codeActionProvider: {
+              codeActionKinds: [CodeActionKind.QuickFix]
+          },
+          executeCommandProvider: {
+              commands: [GENERATE_API_CLIENT_COMMAND]
+          },
+          ...(hasPullDiagnosticsCapability && {
+              diagnosticProvider: {
+                  // Проверка по типам зависит от других файлов программы
+                  interFileDependencies: true,
+                  workspaceDiagnostics: true
+              }
+          })
       }
   };
 
   return result;
 });
 
-connection.onInitialized(() => {
+connection.onInitialized(async () => {
   connection.console.log('Language server is now running!');
   connection.console.log(`Registered features: ${featureManager['features'].length}`);
+
+  const fileCount = workspaceDiagnostics.scan(workspaceFolders);
+  connection.console.log(`Indexed ${fileCount} source files in ${workspaceFolders.length} workspace folder(s)`);
+  if (hasWatchedFilesCapability) {
+      const extensions = SOURCE_EXTENSIONS.map(extension => extension.slice(1)).join(',');
+      await connection.client.register(DidChangeWatchedFilesNotification.type, {
+          watchers: [{ globPattern: `**/*.{${extensions}}` }]
+      });
+  }
+});
+
+connection.onDidChangeConfiguration(async (change: DidChangeConfigurationParams) => {
+  settings = { ...defaultSettings, ...(change.settings?.myAjaxLsp ?? {}) };
+  const invalidRules = ruleConfiguration.configure(settings.rules);
+  if (invalidRules.length > 0) {
+      connection.console.warn(`Ignoring invalid rule settings (myAjaxLsp.rules): ${invalidRules.join(', ')}`);
+  }
+  const specSources = resolveSpecSources();
+  await loadSpecs(specSources);
+  await watchSpecFiles(specSources);
+  await revalidateWorkspace();
+});
+
+connection.onDidChangeWatchedFiles(async (params: DidChangeWatchedFilesParams) => {
+  const specSources = resolveSpecSources();
+  let specChanged = false;
+  let sourcesChanged = false;
+  for (const change of params.changes) {
+      if (!change.uri.startsWith('file:')) {
+          continue;
+      }
+      const filePath = path.resolve(fileURLToPath(change.uri));
+      if (specSources.some(source => source.filePath === filePath)) {
+          specChanged = true;
+      } else {
+          sourcesChanged = workspaceDiagnostics.fileChanged(filePath, change.type === FileChangeType.Deleted) || sourcesChanged;
+      }
+  }
+
+  if (specChanged) {
+      await loadSpecs(specSources);
+  }
+  if (specChanged || sourcesChanged) {
+      await revalidateWorkspace();
+  }
+});
+
+function resolveSpecSources(): SpecSource[] {
+  const rootPath = workspaceRoot ?? process.cwd();
+  // Пути спецификации из myAjaxLsp.specPath вызываются без префиксов, как и раньше
+  const sources: SpecSource[] = settings.specPath ? [{ filePath: path.resolve(rootPath, settings.specPath) }] : [];
+  for (const spec of settings.specs ?? []) {
+      if (spec?.path) {
+          sources.push({
+              filePath: path.resolve(rootPath, spec.path),
+              basePaths: spec.basePaths,
+              servers: spec.servers ?? true,
+              rewrites: spec.rewrites
+          });
+      }
+  }
+  return sources;
+}
+
+async function loadSpecs(sources: SpecSource[]): Promise<void> {
+  const specUris = new Set(sources.map(source => pathToFileURL(source.filePath).toString()));
+  for (const uri of specDiagnosticsUris) {
+      if (!specUris.has(uri)) {
+          connection.sendDiagnostics({ uri, diagnostics: [] });
+      }
+  }
+  specDiagnosticsUris = specUris;
+
+  if (sources.length === 0) {
+      specRegistry.clear();
+      connection.console.warn('No spec file configured (myAjaxLsp.specPath, myAjaxLsp.specs)');
+      return;
+  }
+
+  // Пока файл спецификации редактируется, продолжаем работать с его последней корректной версией
+  const failures = await specRegistry.loadAll(sources);
+  for (const source of sources) {
+      const specUri = pathToFileURL(source.filePath).toString();
+      const failure = failures.find(item => item.filePath === source.filePath);
+      if (!failure) {
+          const spec = specRegistry.getSpecs().find(item => item.filePath === source.filePath);
+          connection.console.log(`Loaded spec ${source.filePath}: ${Object.keys(spec?.paths ?? {}).length} paths`);
+          connection.sendDiagnostics({ uri: specUri, diagnostics: [] });
+          continue;
+      }
+
+      const { error } = failure;
+      connection.console.error(`Failed to load spec ${source.filePath}: ${error.message}`);
+      const position = error instanceof SpecLoadError && error.position ? error.position : { line: 0, character: 0 };
+      connection.sendDiagnostics({
+          uri: specUri,
+          diagnostics: [{
+              severity: DiagnosticSeverity.Error,
+              range: { start: position, end: { line: position.line, character: position.character + 1 } },
+              message: error.message,
+              source: 'swagger-lsp'
+          }]
+      });
+  }
+}
+
+async function watchSpecFiles(sources: SpecSource[]): Promise<void> {
+  specWatcherRegistration?.dispose();
+  specWatcherRegistration = undefined;
+
+  if (hasWatchedFilesCapability && sources.length > 0) {
+      specWatcherRegistration = await connection.client.register(DidChangeWatchedFilesNotification.type, {
+          watchers: sources.map(source => ({ globPattern: source.filePath.replace(/\\/g, '/') }))
+      });
+  }
+}
+
+connection.onExecuteCommand(async (params: ExecuteCommandParams) => {
+  if (params.command !== GENERATE_API_CLIENT_COMMAND) {
+      throw new ResponseError(ErrorCodes.InvalidParams, `Неизвестная команда ${params.command}`);
+  }
+  const specs = specRegistry.getSpecs();
+  if (specs.length === 0) {
+      throw new ResponseError(ErrorCodes.InvalidRequest, 'Спецификация не загружена: укажите путь в настройке myAjaxLsp.specPath или myAjaxLsp.specs');
+  }
+
+  // Клиент генерируется по путям каждой спецификации без префиксов фронтенда;
+  // при нескольких спецификациях — в подкаталог с именем файла спецификации
+  const outputDir = path.resolve(workspaceRoot ?? process.cwd(), settings.codegenOutputDir);
+  const directoryNames = new Set<string>();
+  const files = specs.flatMap(spec => {
+      let directoryName = specs.length > 1 ? path.parse(spec.filePath).name : '';
+      while (directoryNames.has(directoryName)) {
+          directoryName += '_';
+      }
+      directoryNames.add(directoryName);
+      return generateApiClient(spec.paths, settings.codegenClient, spec.schemas)
+          .map(file => ({ ...file, fileName: path.join(directoryName, file.fileName) }));
+  });
+  await Promise.all([...directoryNames].map(directoryName => fs.promises.mkdir(path.join(outputDir, directoryName), { recursive: true })));
+  await Promise.all(files.map(file => fs.promises.writeFile(path.join(outputDir, file.fileName), file.content, 'utf8')));
+  connection.console.log(`Generated API client in ${outputDir}: ${files.map(file => file.fileName).join(', ')}`);
+  return { outputDir, files: files.map(file => file.fileName) };
 });
 
 connection.onCompletion(
-  async (textDocumentPosition: TextDocumentPositionParams): Promise<CompletionItem[]> => {
+  async (textDocumentPosition: TextDocumentPositionParams, token: CancellationToken): Promise<CompletionList> => {
+      // Пока запрос ждал очереди, клиент мог отменить его следующим нажатием клавиши
+      await yieldToEventLoop();
+      throwIfCancelled(token);
+
       const document = documents.get(textDocumentPosition.textDocument.uri);
       if (!document) {
-          return [];
+          return { isIncomplete: false, items: [] };
+      }
+
+      const sourceFile = getSourceFile(document);
+      const offset = document.offsetAt(textDocumentPosition.position);
+
+      // Подсказки дает только самый вложенный вызов под курсором; внешние вызовы — если ему нечего предложить
+      let items: CompletionItem[] = [];
+      for (const { node, features } of featureManager.getCompletionTargets(sourceFile, offset)) {
+          items = features.flatMap(feature => feature.provideCompletionItems(node, textDocumentPosition, document));
+          if (items.length > 0) {
+              break;
+          }
       }
 
-      const text = document.getText();
-      const sourceFile = ts.createSourceFile(
-          textDocumentPosition.textDocument.uri,
-          text,
-          ts.ScriptTarget.Latest,
-          true
-      );
+      // Подсказки внутри недописанной строки зависят от набранного текста: клиент запросит их заново при следующем символе
+      return { isIncomplete: items.length > 0 && isInPartialLiteral(sourceFile, offset), items };
+  }
+);
 
-      const allCompletions: CompletionItem[] = [];
-      const nodeTypeToFeatures = featureManager.getCompletionFeaturesByNodeType();
-      
+connection.onCompletionResolve(
+  (item: CompletionItem): CompletionItem => {
+      return item;
+  }
+);
+
+connection.onHover(
+  (textDocumentPosition: TextDocumentPositionParams): Hover | undefined => {
+      const document = documents.get(textDocumentPosition.textDocument.uri);
+      if (!document) {
+          return undefined;
+      }
+
+      const sourceFile = getSourceFile(document);
+
+      const offset = document.offsetAt(textDocumentPosition.position);
+      const nodeTypeToFeatures = featureManager.getHoverFeaturesByNodeType();
+      let hover: Hover | undefined;
+
+      // Спускаемся только в узлы под курсором; подсказка самого вложенного вызова побеждает
       ts.forEachChild(sourceFile, function visit(node) {
+          if (offset < node.getStart() || offset > node.getEnd()) {
+              return;
+          }
+
           const relevantFeatures = nodeTypeToFeatures.get(node.kind) || [];
-          
           for (const feature of relevantFeatures) {
               if (feature.matches(node)) {
-                  const nodeCompletions = feature.provideCompletionItems(node, textDocumentPosition, document);
-                  allCompletions.push(...nodeCompletions);
+                  hover = feature.provideHover(node, textDocumentPosition, document) ?? hover;
               }
           }
-          
+
           ts.forEachChild(node, visit);
       });
 
-      return allCompletions;
+      return hover;
   }
 );
 
-connection.onCompletionResolve(
-  (item: CompletionItem): CompletionItem => {
-      return item;
+connection.onDefinition(
+  (params: DefinitionParams): Location | undefined => {
+      const document = documents.get(params.textDocument.uri);
+      if (!document) {
+          return undefined;
+      }
+
+      const sourceFile = getSourceFile(document);
+
+      const offset = document.offsetAt(params.position);
+      const nodeTypeToFeatures = featureManager.getDefinitionFeaturesByNodeType();
+      let definition: Location | undefined;
+
+      // Как и для подсказок, побеждает самый вложенный вызов под курсором
+      ts.forEachChild(sourceFile, function visit(node) {
+          if (offset < node.getStart() || offset > node.getEnd()) {
+              return;
+          }
+
+          const relevantFeatures = nodeTypeToFeatures.get(node.kind) || [];
+          for (const feature of relevantFeatures) {
+              if (feature.matches(node)) {
+                  definition = feature.provideDefinition(node, params, document) ?? definition;
+              }
+          }
+
+          ts.forEachChild(node, visit);
+      });
+
+      return definition;
+  }
+);
+
+connection.onReferences(
+  (params: ReferenceParams): Location[] => {
+      return endpointIndex.findReferences(params.textDocument.uri, params.position);
+  }
+);
+
+connection.onWorkspaceSymbol(
+  (params: WorkspaceSymbolParams): SymbolInformation[] => {
+      return endpointIndex.findSymbols(params.query);
+  }
+);
+
+connection.onCodeAction(
+  (params: CodeActionParams): CodeAction[] => {
+      const document = documents.get(params.textDocument.uri);
+      if (!document) {
+          return [];
+      }
+
+      const sourceFile = getSourceFile(document);
+
+      const start = document.offsetAt(params.range.start);
+      const end = document.offsetAt(params.range.end);
+      const nodeTypeToFeatures = featureManager.getCodeActionFeaturesByNodeType();
+      const allActions: CodeAction[] = [];
+
+      ts.forEachChild(sourceFile, function visit(node) {
+          if (end < node.getStart() || start > node.getEnd()) {
+              return;
+          }
+
+          const relevantFeatures = nodeTypeToFeatures.get(node.kind) || [];
+          for (const feature of relevantFeatures) {
+              if (feature.matches(node)) {
+                  allActions.push(...feature.provideCodeActions(node, params, document));
+              }
+          }
+
+          ts.forEachChild(node, visit);
+      });
+
+      return allActions;
   }
 );
 
+connection.languages.diagnostics.on(async (params, token): Promise<DocumentDiagnosticReport> => {
+  await yieldToEventLoop();
+  throwIfCancelled(token);
+
+  const report = workspaceDiagnostics.getReport(params.textDocument.uri);
+  if (!report) {
+      return { kind: DocumentDiagnosticReportKind.Full, items: [] };
+  }
+  return params.previousResultId === report.resultId
+      ? { kind: DocumentDiagnosticReportKind.Unchanged, resultId: report.resultId }
+      : { kind: DocumentDiagnosticReportKind.Full, resultId: report.resultId, items: report.diagnostics };
+});
+
+connection.languages.diagnostics.onWorkspace(async (params, token): Promise<WorkspaceDiagnosticReport> => {
+  const previousResultIds = new Map(params.previousResultIds.map(previous => [previous.uri, previous.value]));
+  const items: WorkspaceDocumentDiagnosticReport[] = workspaceDiagnostics.takeRemovedUris()
+      .map(uri => ({ kind: DocumentDiagnosticReportKind.Full, uri, version: null, items: [] }));
+
+  for (const uri of workspaceDiagnostics.getUris()) {
+      // Между файлами обрабатываем входящие сообщения: изменение документа отменяет устаревший запрос
+      await yieldToEventLoop();
+      throwIfCancelled(token);
+
+      const report = workspaceDiagnostics.getReport(uri);
+      if (!report) {
+          continue;
+      }
+      items.push(previousResultIds.get(uri) === report.resultId
+          ? { kind: DocumentDiagnosticReportKind.Unchanged, uri, version: report.version, resultId: report.resultId }
+          : { kind: DocumentDiagnosticReportKind.Full, uri, version: report.version, resultId: report.resultId, items: report.diagnostics });
+  }
+  return { items };
+});
+
+const pendingValidations = new Map<string, CancellationTokenSource>();
+let workspaceValidation: CancellationTokenSource | undefined;
+
 documents.onDidChangeContent(change => {
-  validateTextDocument(change.document);
+  scheduleValidation(change.document);
 });
 
 documents.onDidOpen(open => {
-  validateTextDocument(open.document);
+  scheduleValidation(open.document, 0);
 });
 
-async function validateTextDocument(textDocument: TextDocument): Promise<void> {
-  const text = textDocument.getText();
-  const diagnostics: Diagnostic[] = [];
-
-  const sourceFile = ts.createSourceFile(
-      textDocument.uri,
-      text,
-      ts.ScriptTarget.Latest,
-      true
-  );
-
-  const nodeTypeToFeatures = featureManager.getDiagnosticFeaturesByNodeType();
-  
-  ts.forEachChild(sourceFile, function visit(node) {
-      const relevantFeatures = nodeTypeToFeatures.get(node.kind) || [];
-      
-      for (const feature of relevantFeatures) {
-          if (feature.matches(node)) {
-              feature.provideDiagnostics(node, textDocument, diagnostics);
+documents.onDidClose(close => {
+  pendingValidations.get(close.document.uri)?.cancel();
+  pendingValidations.delete(close.document.uri);
+  sourceFileCache.delete(close.document.uri);
+});
+
+/**
+ * Откладывает проверку документа, пока он редактируется: каждое изменение отменяет ожидающую
+ * или уже идущую проверку.
+ */
+function scheduleValidation(textDocument: TextDocument, delay: number = VALIDATION_DELAY_MS): void {
+  if (hasPullDiagnosticsCapability) {
+      return;
+  }
+  pendingValidations.get(textDocument.uri)?.cancel();
+  const source = new CancellationTokenSource();
+  pendingValidations.set(textDocument.uri, source);
+
+  const timer = setTimeout(async () => {
+      await validateTextDocument(textDocument, source.token);
+      if (pendingValidations.get(textDocument.uri) === source) {
+          pendingValidations.delete(textDocument.uri);
+      }
+  }, delay);
+  source.token.onCancellationRequested(() => clearTimeout(timer));
+}
+
+/**
+ * Отправляет диагностики документа клиенту, который не запрашивает их сам.
+ * Между этапами (сборка программы, проверка вызовов) обрабатываются входящие сообщения;
+ * отмененная проверка (документ изменился или закрыт) прерывается и результатов не отправляет.
+ */
+async function validateTextDocument(textDocument: TextDocument, token: CancellationToken): Promise<void> {
+  if (hasPullDiagnosticsCapability || token.isCancellationRequested) {
+      return;
+  }
+  // Программа языковой службы нужна только здесь: по ней проверяются типы значений
+  const file = workspaceDiagnostics.getFile(textDocument.uri);
+  await yieldToEventLoop();
+  if (token.isCancellationRequested) {
+      return;
+  }
+
+  const report = file && workspaceDiagnostics.getReport(textDocument.uri, file);
+  await yieldToEventLoop();
+  if (token.isCancellationRequested) {
+      return;
+  }
+  connection.sendDiagnostics({ uri: textDocument.uri, diagnostics: report?.diagnostics ?? [] });
+}
+
+/**
+ * Перепроверяет все файлы рабочей области: клиент с поддержкой запроса диагностик просит запросить их заново,
+ * остальным диагностики отправляются сервером. Файлы проверяются пачками, между которыми обрабатываются
+ * входящие сообщения; следующая перепроверка отменяет предыдущую.
+ */
+async function revalidateWorkspace(): Promise<void> {
+  workspaceDiagnostics.invalidate();
+  if (hasPullDiagnosticsCapability) {
+      if (hasDiagnosticRefreshCapability) {
+          connection.languages.diagnostics.refresh();
+      }
+      return;
+  }
+
+  workspaceValidation?.cancel();
+  const source = new CancellationTokenSource();
+  workspaceValidation = source;
+
+  for (const uri of workspaceDiagnostics.takeRemovedUris()) {
+      connection.sendDiagnostics({ uri, diagnostics: [] });
+  }
+  const uris = workspaceDiagnostics.getUris();
+  for (let i = 0; i < uris.length; i++) {
+      if (i % WORKSPACE_VALIDATION_BATCH_SIZE === 0) {
+          await yieldToEventLoop();
+          if (source.token.isCancellationRequested) {
+              return;
           }
       }
-      
-      ts.forEachChild(node, visit);
-  });
+      const report = workspaceDiagnostics.getReport(uris[i]);
+      connection.sendDiagnostics({ uri: uris[i], diagnostics: report?.diagnostics ?? [] });
+  }
+  if (workspaceValidation === source) {
+      workspaceValidation = undefined;
+  }
+}
+
+/**
+ * Возвращает синтаксическое дерево документа для подсказок, наведения и перехода к определению.
+ * Дерево обновляется инкрементально и не требует пересборки программы языковой службы.
+ */
+function getSourceFile(document: TextDocument): ts.SourceFile {
+  return sourceFileCache.getSourceFile(document);
+}
+
+/**
+ * Дает обработать входящие сообщения (в том числе отмену запроса) перед продолжением работы.
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
 
-  connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
+/**
+ * Прерывает обработку запроса, отмененного клиентом.
+ */
+function throwIfCancelled(token: CancellationToken): void {
+  if (token.isCancellationRequested) {
+      throw new ResponseError(LSPErrorCodes.RequestCancelled, 'Запрос отменен');
+  }
+}
+
+/**
+ * Проверяет, что курсор стоит внутри строкового литерала: между кавычками или в незакрытой строке.
+ */
+function isInPartialLiteral(sourceFile: ts.SourceFile, offset: number): boolean {
+  const node = getNodesAtOffset(sourceFile, offset).pop();
+  if (!node || !(ts.isStringLiteralLike(node) || ts.isTemplateLiteralToken(node))) {
+      return false;
+  }
+  return offset > node.getStart() && (offset < node.getEnd() || (node as ts.LiteralLikeNode).isUnterminated === true);
 }
 
 documents.listen(connection);
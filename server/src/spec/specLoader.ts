@@ -0,0 +1,683 @@
+/**
+ * @module specLoader
+ * @description Загрузка спецификаций OpenAPI 3.x / Swagger 2.0 из JSON или YAML файлов
+ * и их приведение к модели `SwaggerPath` / `SwaggerMethod`, с которой работают модули функциональности.
+ * При загрузке файла запоминаются позиции путей, операций и схем, чтобы из кода можно было перейти к их описанию.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { Document, isAlias, isMap, isScalar, isSeq, LineCounter, parseDocument, YAMLParseError } from 'yaml';
+
+import {
+  SwaggerMethod,
+  SwaggerParameter,
+  SwaggerPath,
+  SwaggerResponse,
+  SwaggerPaths,
+  SwaggerSchema,
+  SwaggerSchemas,
+  SwaggerSchemaType
+} from '../types/swagger';
+
+/**
+ * Позиция в файле спецификации (строка и символ считаются с нуля).
+ */
+export interface SpecPosition {
+  line: number;
+  character: number;
+}
+
+/**
+ * Диапазон в файле спецификации.
+ */
+export interface SpecRange {
+  start: SpecPosition;
+  end: SpecPosition;
+}
+
+/**
+ * Позиции элементов спецификации в файле: для объекта — диапазон ключа, под которым он записан
+ * (например, `/api/users:` для пути или `post:` для операции), для элемента массива — диапазон элемента.
+ * Заполняется для разобранных объектов документа и для нормализованных путей, операций и схем.
+ * Схема, подключенная через `$ref`, указывает на свое определение.
+ */
+export type SpecSourceMap = WeakMap<object, SpecRange>;
+
+/**
+ * Позиции ключей свойств схем: для объекта `properties` нормализованной схемы — диапазоны ключей его свойств.
+ * В отличие от `SpecSourceMap`, свойство, подключенное через `$ref`, указывает на свой ключ в схеме-родителе,
+ * а не на общее определение.
+ */
+export type SpecPropertyKeyMap = WeakMap<object, Map<string, SpecRange>>;
+
+/**
+ * Загруженная спецификация.
+ * @property {SwaggerPaths} paths - Нормализованные пути.
+ * @property {SwaggerSchemas} schemas - Именованные схемы документа, в том числе не используемые в путях.
+ * @property {SpecSourceMap} sourceMap - Позиции элементов спецификации в файле.
+ * @property {SpecPropertyKeyMap} propertyKeys - Позиции ключей свойств схем.
+ * @property {string[]} servers - Адреса серверов спецификации (см. `readServerUrls`).
+ */
+export interface LoadedSpec {
+  paths: SwaggerPaths;
+  schemas: SwaggerSchemas;
+  sourceMap: SpecSourceMap;
+  propertyKeys: SpecPropertyKeyMap;
+  servers: string[];
+}
+
+/**
+ * Ошибка загрузки или разбора файла спецификации.
+ * Для синтаксических ошибок содержит позицию, на которую указывает диагностика файла спецификации.
+ */
+export class SpecLoadError extends Error {
+  constructor(message: string, public readonly filePath?: string, public readonly position?: SpecPosition) {
+    super(message);
+    this.name = 'SpecLoadError';
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+// Параметр операции с именем и местом передачи
+interface RawParameter extends RawObject {
+  in: string;
+  name: string;
+}
+
+const HTTP_METHODS: (keyof SwaggerPath)[] = ['get', 'post', 'put', 'delete', 'patch'];
+const PARAMETER_LOCATIONS: SwaggerParameter['in'][] = ['query', 'header', 'path', 'cookie', 'body'];
+const SCHEMA_TYPES: SwaggerSchemaType[] = ['object', 'string', 'number', 'boolean', 'array', 'integer'];
+
+// Порядок предпочтения типов содержимого для requestBody и ответов в OpenAPI 3
+const PREFERRED_MEDIA_TYPES = [
+  'application/json',
+  'application/x-www-form-urlencoded',
+  'multipart/form-data'
+];
+
+/**
+ * Разбирает текст спецификации. Файлы с расширением `.json` читаются как JSON,
+ * все остальные — как YAML (который является надмножеством JSON).
+ * @param {string} text - Содержимое файла спецификации.
+ * @param {string} fileName - Имя файла, используется для выбора формата и в сообщениях об ошибках.
+ * @param {SpecSourceMap} [sourceMap] - Позиции, в которые записываются диапазоны разобранных объектов.
+ * @returns {RawObject} Разобранный документ спецификации.
+ * @throws {SpecLoadError} Если текст не удалось разобрать.
+ */
+export function parseSpecText(text: string, fileName: string, sourceMap?: SpecSourceMap): RawObject {
+  const isJson = path.extname(fileName).toLowerCase() === '.json';
+  let raw: unknown;
+  try {
+    if (isJson) {
+      raw = JSON.parse(text);
+      if (sourceMap) {
+        collectJsonRanges(text, fileName, raw, sourceMap);
+      }
+    } else {
+      const lineCounter = new LineCounter();
+      const document = parseDocument(text, { lineCounter });
+      if (document.errors.length > 0) {
+        throw document.errors[0];
+      }
+      raw = document.toJS();
+      if (sourceMap) {
+        collectYamlRanges(document, lineCounter, raw, sourceMap);
+      }
+    }
+  } catch (error) {
+    const { message, position } = describeSyntaxError(error, text, fileName);
+    throw new SpecLoadError(`Не удалось разобрать файл спецификации: ${message}`, fileName, position);
+  }
+
+  if (!isObject(raw)) {
+    throw new SpecLoadError('Файл спецификации должен содержать объект', fileName);
+  }
+  return raw;
+}
+
+/**
+ * Читает и нормализует файл спецификации.
+ * @param {string} filePath - Абсолютный путь к файлу спецификации.
+ * @returns {Promise<LoadedSpec>} Нормализованные пути спецификации и позиции их элементов в файле.
+ * @throws {SpecLoadError} Если файл не удалось прочитать, разобрать или нормализовать.
+ */
+export async function loadSpecFile(filePath: string): Promise<LoadedSpec> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new SpecLoadError(`Не удалось прочитать файл спецификации: ${(error as Error).message}`, filePath);
+  }
+
+  try {
+    const sourceMap: SpecSourceMap = new WeakMap();
+    const propertyKeys: SpecPropertyKeyMap = new WeakMap();
+    const schemas: SwaggerSchemas = {};
+    const raw = parseSpecText(text, filePath, sourceMap);
+    const paths = normalizeSpec(raw, sourceMap, propertyKeys, schemas);
+    return { paths, schemas, sourceMap, propertyKeys, servers: readServerUrls(raw) };
+  } catch (error) {
+    if (error instanceof SpecLoadError && !error.filePath) {
+      throw new SpecLoadError(error.message, filePath, error.position);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Приводит документ OpenAPI 3.x или Swagger 2.0 к модели `SwaggerPaths`.
+ * Разрешает локальные `$ref`, `definitions` / `components.schemas` и `requestBody`.
+ * Тело запроса всегда представляется параметром с `in: 'body'`.
+ * @param {RawObject} raw - Разобранный документ спецификации.
+ * @param {SpecSourceMap} [sourceMap] - Позиции разобранных объектов; в них добавляются позиции нормализованных.
+ * @param {SpecPropertyKeyMap} [propertyKeys] - Позиции, в которые записываются диапазоны ключей свойств схем.
+ * @param {SwaggerSchemas} [schemas] - Объект, в который записываются именованные схемы документа.
+ * @returns {SwaggerPaths} Нормализованные пути спецификации.
+ * @throws {SpecLoadError} Если версия спецификации не поддерживается или `$ref` не удалось разрешить.
+ */
+export function normalizeSpec(
+  raw: RawObject,
+  sourceMap?: SpecSourceMap,
+  propertyKeys?: SpecPropertyKeyMap,
+  schemas?: SwaggerSchemas
+): SwaggerPaths {
+  const isSwagger2 = typeof raw.swagger === 'string' && raw.swagger.startsWith('2.');
+  const isOpenApi3 = typeof raw.openapi === 'string' && raw.openapi.startsWith('3.');
+  if (!isSwagger2 && !isOpenApi3) {
+    throw new SpecLoadError('Неподдерживаемая спецификация: ожидается "swagger: 2.0" или "openapi: 3.x"');
+  }
+
+  const normalizer = new SpecNormalizer(raw, isSwagger2, sourceMap, propertyKeys);
+  const result: SwaggerPaths = {};
+  const rawPaths = isObject(raw.paths) ? raw.paths : {};
+
+  for (const url in rawPaths) {
+    const rawPath = normalizer.deref(rawPaths[url]);
+    if (isObject(rawPath)) {
+      result[url] = normalizer.locate(normalizer.normalizePath(rawPath), rawPaths[url]);
+    }
+  }
+
+  if (schemas) {
+    Object.assign(schemas, normalizer.normalizeNamedSchemas());
+  }
+  return result;
+}
+
+/**
+ * Читает адреса серверов спецификации: `servers[].url` в OpenAPI 3 (переменные заменяются значениями по умолчанию)
+ * или `basePath` в Swagger 2.0. Пути спецификации указываются относительно этих адресов.
+ * @param {RawObject} raw - Разобранный документ спецификации.
+ * @returns {string[]} Адреса серверов, например ['https://api.example.com/v1', '/v2'].
+ */
+export function readServerUrls(raw: RawObject): string[] {
+  if (typeof raw.basePath === 'string') {
+    return [raw.basePath];
+  }
+  if (!Array.isArray(raw.servers)) {
+    return [];
+  }
+  return raw.servers.filter(isObject).flatMap(server => {
+    const { url, variables } = server;
+    if (typeof url !== 'string') {
+      return [];
+    }
+    return [url.replace(/\{([^}]+)\}/g, (variable: string, name: string) => {
+      const definition = isObject(variables) ? variables[name] : undefined;
+      const value = isObject(definition) ? definition.default : undefined;
+      return value !== undefined ? String(value) : variable;
+    })];
+  });
+}
+
+/**
+ * Выполняет нормализацию одного документа: хранит корень документа для разрешения `$ref`.
+ */
+class SpecNormalizer {
+  private readonly schemaCache = new Map<string, SwaggerSchema>();
+
+  constructor(
+    private readonly root: RawObject,
+    private readonly isSwagger2: boolean,
+    private readonly sourceMap?: SpecSourceMap,
+    private readonly propertyKeys?: SpecPropertyKeyMap
+  ) {}
+
+  /**
+   * Переносит позицию разобранного объекта на нормализованный. Общие объекты (схемы по `$ref`)
+   * сохраняют первую позицию — позицию определения.
+   */
+  locate<T extends object>(normalized: T, raw: unknown): T {
+    const range = isObject(raw) ? this.sourceMap?.get(raw) : undefined;
+    if (range && !this.sourceMap!.has(normalized)) {
+      this.sourceMap!.set(normalized, range);
+    }
+    return normalized;
+  }
+
+  normalizePath(rawPath: RawObject): SwaggerPath {
+    const swaggerPath: SwaggerPath = {};
+    const pathParameters = Array.isArray(rawPath.parameters) ? rawPath.parameters : [];
+
+    for (const method of HTTP_METHODS) {
+      const operation = this.deref(rawPath[method]);
+      if (isObject(operation)) {
+        swaggerPath[method] = this.locate(this.normalizeOperation(operation, pathParameters), rawPath[method]);
+      }
+    }
+
+    return swaggerPath;
+  }
+
+  /**
+   * Нормализует именованные схемы документа (`definitions` или `components.schemas`) так же,
+   * как схемы, подключенные через `$ref`: с тем же объектом для каждой ссылки.
+   */
+  normalizeNamedSchemas(): SwaggerSchemas {
+    const components = isObject(this.root.components) ? this.root.components : {};
+    const rawSchemas = this.isSwagger2 ? this.root.definitions : components.schemas;
+    const prefix = this.isSwagger2 ? '#/definitions/' : '#/components/schemas/';
+    const schemas: SwaggerSchemas = {};
+    for (const [name, rawSchema] of Object.entries(isObject(rawSchemas) ? rawSchemas : {})) {
+      if (isObject(rawSchema)) {
+        // Имя записывается в ссылку так же, как его экранирует JSON Pointer
+        const segment = encodeURIComponent(name.replace(/~/g, '~0').replace(/\//g, '~1'));
+        schemas[name] = this.normalizeSchema({ $ref: prefix + segment });
+      }
+    }
+    return schemas;
+  }
+
+  /**
+   * Разрешает локальную ссылку `$ref`, если она есть, и возвращает целевой объект.
+   */
+  deref(value: unknown, seen: string[] = []): unknown {
+    if (!isObject(value) || typeof value.$ref !== 'string') {
+      return value;
+    }
+    const ref = value.$ref;
+    if (seen.includes(ref)) {
+      throw new SpecLoadError(`Циклическая ссылка $ref: ${ref}`);
+    }
+    return this.deref(this.resolvePointer(ref), [...seen, ref]);
+  }
+
+  private normalizeOperation(operation: RawObject, pathParameters: unknown[]): SwaggerMethod {
+    const method: SwaggerMethod = {};
+    const parameters: SwaggerParameter[] = [];
+    const formData: { [key: string]: SwaggerSchema } = {};
+    const formDataRequired: string[] = [];
+
+    // Параметры операции переопределяют одноименные параметры пути
+    const rawParameters = new Map<string, RawParameter>();
+    for (const rawParameter of [...pathParameters, ...(Array.isArray(operation.parameters) ? operation.parameters : [])]) {
+      const parameter = this.deref(rawParameter);
+      if (isRawParameter(parameter)) {
+        rawParameters.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+    }
+
+    for (const parameter of rawParameters.values()) {
+      const location = PARAMETER_LOCATIONS.find(candidate => candidate === parameter.in);
+      if (parameter.in === 'formData') {
+        formData[parameter.name] = this.normalizeParameterSchema(parameter);
+        if (parameter.required) {
+          formDataRequired.push(parameter.name);
+        }
+      } else if (location) {
+        parameters.push(this.normalizeParameter(parameter, location));
+      }
+    }
+
+    // В Swagger 2.0 поля формы описываются отдельными параметрами, собираем их в одно тело
+    if (Object.keys(formData).length > 0) {
+      parameters.push({
+        in: 'body',
+        name: 'formData',
+        schema: { type: 'object', properties: formData, required: formDataRequired }
+      });
+    }
+
+    const requestBody = this.normalizeRequestBody(operation.requestBody);
+    if (requestBody) {
+      parameters.push(requestBody);
+    }
+
+    if (parameters.length > 0) {
+      method.parameters = parameters;
+    }
+    const responses = this.normalizeResponses(operation.responses);
+    if (responses) {
+      method.responses = responses;
+    }
+    if (typeof operation.operationId === 'string') {
+      method.operationId = operation.operationId;
+    }
+    const description = operation.description ?? operation.summary;
+    if (typeof description === 'string') {
+      method.description = description;
+    }
+    return method;
+  }
+
+  private normalizeParameter(parameter: RawParameter, location: SwaggerParameter['in']): SwaggerParameter {
+    const result: SwaggerParameter = {
+      in: location,
+      name: parameter.name,
+      schema: this.normalizeParameterSchema(parameter)
+    };
+    if (parameter.required !== undefined) {
+      result.required = Boolean(parameter.required);
+    }
+    if (typeof parameter.description === 'string') {
+      result.description = parameter.description;
+    }
+    return result;
+  }
+
+  private normalizeParameterSchema(parameter: RawObject): SwaggerSchema {
+    // В OpenAPI 3 и для body-параметров Swagger 2.0 схема задается явно,
+    // у остальных параметров Swagger 2.0 тип описан прямо в параметре
+    const rawSchema = isObject(parameter.schema) ? parameter.schema : parameter;
+    const schema = this.normalizeSchema(rawSchema);
+    // Схема может быть общей (по $ref), поэтому пример параметра записываем в копию
+    return schema.example === undefined && parameter.example !== undefined
+      ? this.locate({ ...schema, example: parameter.example }, rawSchema)
+      : schema;
+  }
+
+  private normalizeRequestBody(rawRequestBody: unknown): SwaggerParameter | undefined {
+    const requestBody = this.deref(rawRequestBody);
+    if (this.isSwagger2 || !isObject(requestBody) || !isObject(requestBody.content)) {
+      return undefined;
+    }
+
+    const media = selectMedia(requestBody.content);
+    if (!isObject(media) || !isObject(media.schema)) {
+      return undefined;
+    }
+
+    let schema = this.normalizeSchema(media.schema);
+    if (schema.example === undefined && media.example !== undefined) {
+      schema = this.locate({ ...schema, example: media.example }, media.schema);
+    }
+
+    const result: SwaggerParameter = { in: 'body', name: 'body', schema };
+    if (requestBody.required !== undefined) {
+      result.required = Boolean(requestBody.required);
+    }
+    if (typeof requestBody.description === 'string') {
+      result.description = requestBody.description;
+    }
+    return result;
+  }
+
+  /**
+   * Приводит ответы операции к модели: схема тела ответа берется из `schema` (Swagger 2.0)
+   * или из предпочтительного типа содержимого `content` (OpenAPI 3).
+   */
+  private normalizeResponses(rawResponses: unknown): { [status: string]: SwaggerResponse } | undefined {
+    if (!isObject(rawResponses)) {
+      return undefined;
+    }
+
+    const responses: { [status: string]: SwaggerResponse } = {};
+    for (const [status, rawResponse] of Object.entries(rawResponses)) {
+      const response = this.deref(rawResponse);
+      if (!isObject(response)) {
+        continue;
+      }
+
+      const result: SwaggerResponse = {};
+      const rawSchema = this.isSwagger2 ? response.schema : selectMedia(response.content)?.schema;
+      if (isObject(rawSchema)) {
+        result.schema = this.normalizeSchema(rawSchema);
+      }
+      if (typeof response.description === 'string') {
+        result.description = response.description;
+      }
+      responses[status] = result;
+    }
+    return Object.keys(responses).length > 0 ? responses : undefined;
+  }
+
+  private normalizeSchema(rawSchema: RawObject): SwaggerSchema {
+    if (typeof rawSchema.$ref === 'string') {
+      const ref: string = rawSchema.$ref;
+      // Каждая ссылка нормализуется один раз, и все ее использования получают один и тот же объект.
+      // Объект кладется в кэш до разбора содержимого, поэтому рекурсивные схемы становятся циклами
+      const cached = this.schemaCache.get(ref);
+      if (cached) {
+        return cached;
+      }
+      const target = this.resolvePointer(ref);
+      if (!isObject(target)) {
+        throw new SpecLoadError(`$ref ${ref} не указывает на схему`);
+      }
+      const schema: SwaggerSchema = this.locate({ $ref: ref }, target);
+      this.schemaCache.set(ref, schema);
+      return Object.assign(schema, this.normalizeSchema(target), { $ref: ref });
+    }
+
+    const schema: SwaggerSchema = this.locate({}, rawSchema);
+    const { types, nullable } = readSchemaTypes(rawSchema);
+
+    if (types.length === 1) {
+      schema.type = types[0];
+    } else if (types.length > 1) {
+      // OpenAPI 3.1: type: ['string', 'integer'] эквивалентен anyOf из отдельных типов
+      schema.anyOf = types.map(type => ({ type }));
+    } else if (isObject(rawSchema.properties)) {
+      schema.type = 'object';
+    } else if (isObject(rawSchema.items)) {
+      schema.type = 'array';
+    }
+
+    if (isObject(rawSchema.properties)) {
+      schema.properties = {};
+      // Объект `properties` не копируется при подключении схемы через $ref, поэтому ключи привязываются к нему
+      const keyRanges = new Map<string, SpecRange>();
+      for (const [key, rawProperty] of Object.entries(rawSchema.properties)) {
+        if (isObject(rawProperty)) {
+          schema.properties[key] = this.normalizeSchema(rawProperty);
+          const keyRange = this.sourceMap?.get(rawProperty);
+          if (keyRange) {
+            keyRanges.set(key, keyRange);
+          }
+        }
+      }
+      this.propertyKeys?.set(schema.properties, keyRanges);
+    }
+    if (isObject(rawSchema.items)) {
+      schema.items = this.normalizeSchema(rawSchema.items);
+    }
+    if (Array.isArray(rawSchema.required)) {
+      schema.required = rawSchema.required.filter((name: unknown): name is string => typeof name === 'string');
+    }
+    if (typeof rawSchema.additionalProperties === 'boolean') {
+      schema.additionalProperties = rawSchema.additionalProperties;
+    } else if (isObject(rawSchema.additionalProperties)) {
+      schema.additionalProperties = this.normalizeSchema(rawSchema.additionalProperties);
+    }
+
+    for (const keyword of ['allOf', 'oneOf', 'anyOf'] as const) {
+      const parts = rawSchema[keyword];
+      if (Array.isArray(parts)) {
+        schema[keyword] = parts.filter(isObject).map(part => this.normalizeSchema(part));
+      }
+    }
+
+    if (Array.isArray(rawSchema.enum)) {
+      // null в enum означает допустимость null, а не отдельное значение
+      schema.enum = rawSchema.enum.filter((value: unknown) => value !== null);
+    }
+    if (nullable || rawSchema.nullable === true || rawSchema['x-nullable'] === true
+      || (Array.isArray(rawSchema.enum) && rawSchema.enum.includes(null))) {
+      schema.nullable = true;
+    }
+    if (typeof rawSchema.format === 'string') {
+      schema.format = rawSchema.format;
+    }
+    if (rawSchema.default !== undefined) {
+      schema.default = rawSchema.default;
+    }
+    if (rawSchema.example !== undefined) {
+      schema.example = rawSchema.example;
+    } else if (rawSchema['x-example'] !== undefined) {
+      schema.example = rawSchema['x-example'];
+    } else if (Array.isArray(rawSchema.examples) && rawSchema.examples.length > 0) {
+      schema.example = rawSchema.examples[0];
+    }
+    if (typeof rawSchema.description === 'string') {
+      schema.description = rawSchema.description;
+    }
+
+    return schema;
+  }
+
+  private resolvePointer(ref: string): unknown {
+    if (!ref.startsWith('#/')) {
+      throw new SpecLoadError(`Поддерживаются только локальные ссылки $ref, получено: ${ref}`);
+    }
+
+    let target: unknown = this.root;
+    for (const rawSegment of ref.slice(2).split('/')) {
+      const segment = decodeURIComponent(rawSegment).replace(/~1/g, '/').replace(/~0/g, '~');
+      if (!isObject(target) || !(segment in target)) {
+        throw new SpecLoadError(`Не удалось разрешить $ref: ${ref}`);
+      }
+      target = target[segment];
+    }
+    return target;
+  }
+}
+
+/**
+ * Читает `type` схемы. В OpenAPI 3.1 type может быть массивом, например ['string', 'null'],
+ * тогда 'null' превращается в признак `nullable`.
+ */
+function readSchemaTypes(rawSchema: RawObject): { types: SwaggerSchemaType[]; nullable: boolean } {
+  const rawTypes: unknown[] = Array.isArray(rawSchema.type) ? rawSchema.type : [rawSchema.type];
+  return {
+    types: rawTypes.filter((t): t is SwaggerSchemaType => SCHEMA_TYPES.includes(t as SwaggerSchemaType)),
+    nullable: rawTypes.includes('null')
+  };
+}
+
+/**
+ * Извлекает из синтаксической ошибки краткое сообщение и позицию.
+ * Сообщения JSON.parse не содержат надежной позиции, поэтому JSON повторно разбирается парсером TypeScript.
+ */
+function describeSyntaxError(error: unknown, text: string, fileName: string): { message: string; position?: SpecPosition } {
+  if (error instanceof YAMLParseError) {
+    const linePos = error.linePos?.[0];
+    return {
+      message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+      position: linePos ? { line: linePos.line - 1, character: linePos.col - 1 } : undefined
+    };
+  }
+
+  const jsonError = ts.parseConfigFileTextToJson(fileName, text).error;
+  if (jsonError?.file && jsonError.start !== undefined) {
+    return {
+      message: ts.flattenDiagnosticMessageText(jsonError.messageText, '\n'),
+      position: jsonError.file.getLineAndCharacterOfPosition(jsonError.start)
+    };
+  }
+  return { message: (error as Error).message };
+}
+
+/**
+ * Записывает диапазоны объектов YAML-документа, обходя узлы документа параллельно с полученными из них значениями.
+ */
+function collectYamlRanges(document: Document.Parsed, lineCounter: LineCounter, raw: unknown, sourceMap: SpecSourceMap): void {
+  const toPosition = (offset: number): SpecPosition => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line: line - 1, character: col - 1 };
+  };
+
+  const visit = (node: unknown, value: unknown, range: [number, number]) => {
+    const resolved = isAlias(node) ? node.resolve(document) : node;
+    if (typeof value !== 'object' || value === null || sourceMap.has(value)) {
+      return;
+    }
+    sourceMap.set(value, { start: toPosition(range[0]), end: toPosition(range[1]) });
+
+    if (isMap(resolved) && isObject(value)) {
+      for (const pair of resolved.items) {
+        if (isScalar(pair.key) && pair.key.range && String(pair.key.value) in value) {
+          visit(pair.value, value[String(pair.key.value)], [pair.key.range[0], pair.key.range[1]]);
+        }
+      }
+    } else if (isSeq(resolved) && Array.isArray(value)) {
+      resolved.items.forEach((item, index) => {
+        const itemRange = (item as { range?: [number, number, number] } | null)?.range;
+        if (itemRange) {
+          visit(item, value[index], [itemRange[0], itemRange[1]]);
+        }
+      });
+    }
+  };
+
+  visit(document.contents, raw, [0, 0]);
+}
+
+/**
+ * Записывает диапазоны объектов JSON-документа: текст повторно разбирается парсером TypeScript,
+ * узлы которого содержат позиции.
+ */
+function collectJsonRanges(text: string, fileName: string, raw: unknown, sourceMap: SpecSourceMap): void {
+  const jsonFile = ts.parseJsonText(fileName, text);
+  const toRange = (node: ts.Node): SpecRange => ({
+    start: jsonFile.getLineAndCharacterOfPosition(node.getStart(jsonFile)),
+    end: jsonFile.getLineAndCharacterOfPosition(node.getEnd())
+  });
+
+  const visit = (node: ts.Expression, value: unknown, range: SpecRange) => {
+    if (typeof value !== 'object' || value === null) {
+      return;
+    }
+    sourceMap.set(value, range);
+
+    if (ts.isObjectLiteralExpression(node) && isObject(value)) {
+      for (const property of node.properties) {
+        if (ts.isPropertyAssignment(property) && ts.isStringLiteral(property.name) && property.name.text in value) {
+          visit(property.initializer, value[property.name.text], toRange(property.name));
+        }
+      }
+    } else if (ts.isArrayLiteralExpression(node) && Array.isArray(value)) {
+      node.elements.forEach((element, index) => visit(element, value[index], toRange(element)));
+    }
+  };
+
+  const root = jsonFile.statements[0]?.expression;
+  if (root) {
+    visit(root, raw, { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } });
+  }
+}
+
+/**
+ * Выбирает описание содержимого OpenAPI 3 по предпочтительному типу: сначала известные типы, затем любой JSON.
+ */
+function selectMedia(content: unknown): RawObject | undefined {
+  if (!isObject(content)) {
+    return undefined;
+  }
+  const mediaTypes = Object.keys(content);
+  const mediaType = PREFERRED_MEDIA_TYPES.find(type => mediaTypes.includes(type))
+    ?? mediaTypes.find(type => type.includes('json'))
+    ?? mediaTypes[0];
+  const media = mediaType ? content[mediaType] : undefined;
+  return isObject(media) ? media : undefined;
+}
+
+function isRawParameter(value: unknown): value is RawParameter {
+  return isObject(value) && typeof value.name === 'string' && typeof value.in === 'string';
+}
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,253 @@
+/**
+ * @module specRegistry
+ * @description Хранит загруженные спецификации, с которыми работают модули функциональности языкового сервера.
+ * Пути всех спецификаций объединяются в одну карту с ключами в том виде, в котором их вызывает фронтенд:
+ * с базовыми путями, путями серверов спецификации и заменами префиксов.
+ */
+
+import { SwaggerPaths, SwaggerSchema, SwaggerSchemas } from '../types/swagger';
+import { getUrlPath } from '../utils/utils';
+import { loadSpecFile, SpecPropertyKeyMap, SpecRange, SpecSourceMap } from './specLoader';
+
+/**
+ * Спецификация для загрузки и правила сопоставления ее путей с URL во фронтенде.
+ * @property {string} filePath - Абсолютный путь к файлу спецификации.
+ * @property {string[]} [basePaths] - Префиксы, с которыми фронтенд вызывает пути спецификации, например ['/gateway/users'].
+ *   Origin отбрасывается. По умолчанию пути вызываются без префикса.
+ * @property {boolean} [servers] - Добавлять к путям пути серверов спецификации (`servers` или `basePath`).
+ * @property {Object.<string, string>} [rewrites] - Замены префиксов: ключ — префикс во фронтенде,
+ *   значение — префикс полного пути бэкенда, например { '/legacy': '/api/v1' }.
+ */
+export interface SpecSource {
+  filePath: string;
+  basePaths?: string[];
+  servers?: boolean;
+  rewrites?: { [frontendPrefix: string]: string };
+}
+
+/**
+ * Загруженная спецификация.
+ * @property {string} filePath - Абсолютный путь к файлу спецификации.
+ * @property {SwaggerPaths} paths - Пути в том виде, в котором они описаны в спецификации.
+ * @property {SwaggerSchemas} schemas - Именованные схемы спецификации.
+ * @property {SpecSourceMap} sourceMap - Позиции элементов спецификации в файле.
+ * @property {SpecPropertyKeyMap} propertyKeys - Позиции ключей свойств схем.
+ * @property {string[]} prefixes - Префиксы, с которыми фронтенд вызывает пути спецификации.
+ * @property {Array<[string, string]>} rewrites - Замены префиксов: [префикс во фронтенде, префикс пути бэкенда].
+ */
+export interface RegisteredSpec {
+  filePath: string;
+  paths: SwaggerPaths;
+  schemas: SwaggerSchemas;
+  sourceMap: SpecSourceMap;
+  propertyKeys: SpecPropertyKeyMap;
+  prefixes: string[];
+  rewrites: [string, string][];
+}
+
+/**
+ * Позиция элемента спецификации.
+ * @property {string} filePath - Файл спецификации, в котором описан элемент.
+ * @property {SpecRange} range - Диапазон ключа элемента.
+ */
+export interface SpecLocation {
+  filePath: string;
+  range: SpecRange;
+}
+
+/**
+ * Ошибка загрузки одной из спецификаций (см. `SpecRegistry.loadAll`).
+ */
+export interface SpecLoadFailure {
+  filePath: string;
+  error: Error;
+}
+
+/**
+ * Реестр текущих спецификаций. Модули функциональности получают пути спецификаций
+ * через реестр, поэтому перезагрузка файлов сразу отражается на автодополнении и диагностиках.
+ */
+export class SpecRegistry {
+  private specs: RegisteredSpec[] = [];
+  private paths: SwaggerPaths;
+
+  constructor(paths: SwaggerPaths = {}) {
+    this.paths = paths;
+  }
+
+  /**
+   * Возвращает пути всех загруженных спецификаций с ключами в том виде, в котором их вызывает фронтенд
+   * (пустой объект, если спецификации не загружены). При совпадении ключей используется спецификация,
+   * указанная в настройках раньше.
+   */
+  getPaths(): SwaggerPaths {
+    return this.paths;
+  }
+
+  /**
+   * Возвращает загруженные спецификации в порядке настроек.
+   */
+  getSpecs(): RegisteredSpec[] {
+    return this.specs;
+  }
+
+  /**
+   * Возвращает путь к первому загруженному файлу спецификации, если он есть.
+   */
+  getSpecFilePath(): string | undefined {
+    return this.specs[0]?.filePath;
+  }
+
+  /**
+   * Возвращает позицию элемента спецификации (пути, операции или схемы) в файле спецификации.
+   * @param {object} node - Элемент из `getPaths()`.
+   * @returns {SpecRange | undefined} Диапазон ключа элемента или `undefined`, если позиция неизвестна.
+   */
+  getSourceRange(node: object): SpecRange | undefined {
+    return this.getSourceLocation(node)?.range;
+  }
+
+  /**
+   * Возвращает файл спецификации и позицию в нем элемента спецификации.
+   * @param {object} node - Элемент из `getPaths()`.
+   * @returns {SpecLocation | undefined} Позиция или `undefined`, если элемент не найден ни в одной спецификации.
+   */
+  getSourceLocation(node: object): SpecLocation | undefined {
+    for (const spec of this.specs) {
+      const range = spec.sourceMap.get(node);
+      if (range) {
+        return { filePath: spec.filePath, range };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Возвращает файл спецификации и позицию ключа свойства схемы объекта.
+   * Свойство ищется в самой схеме и в ее частях (`allOf`, `oneOf`, `anyOf`). Для свойства, подключенного
+   * через `$ref`, возвращается его ключ в схеме-родителе, а не общее определение.
+   * @param {SwaggerSchema} schema - Схема объекта из `getPaths()` (не объединенная через `resolveSchema`).
+   * @param {string} name - Имя свойства.
+   * @returns {SpecLocation | undefined} Позиция ключа или `undefined`, если свойство не найдено.
+   */
+  getPropertyLocation(schema: SwaggerSchema, name: string): SpecLocation | undefined {
+    const properties = findPropertyOwner(schema, name, new Set())?.properties;
+    for (const spec of this.specs) {
+      const range = properties && spec.propertyKeys.get(properties)?.get(name);
+      if (range) {
+        return { filePath: spec.filePath, range };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Загружает одну спецификацию из файла и заменяет текущие.
+   * При ошибке текущие спецификации не изменяются.
+   * @param {string} filePath - Абсолютный путь к файлу спецификации.
+   * @throws {SpecLoadError} Если файл не удалось загрузить.
+   */
+  async load(filePath: string): Promise<void> {
+    this.setSpecs([await loadSpec({ filePath })]);
+  }
+
+  /**
+   * Загружает несколько спецификаций и заменяет текущие.
+   * Если файл не удалось загрузить, остается его предыдущая версия (пока файл редактируется),
+   * а новый файл пропускается.
+   * @param {SpecSource[]} sources - Спецификации в порядке приоритета.
+   * @returns {Promise<SpecLoadFailure[]>} Ошибки загрузки по файлам.
+   */
+  async loadAll(sources: SpecSource[]): Promise<SpecLoadFailure[]> {
+    const failures: SpecLoadFailure[] = [];
+    const specs: RegisteredSpec[] = [];
+    for (const source of sources) {
+      try {
+        specs.push(await loadSpec(source));
+      } catch (error) {
+        failures.push({ filePath: source.filePath, error: error as Error });
+        const previous = this.specs.find(spec => spec.filePath === source.filePath);
+        if (previous) {
+          specs.push(previous);
+        }
+      }
+    }
+    this.setSpecs(specs);
+    return failures;
+  }
+
+  /**
+   * Сбрасывает загруженные спецификации.
+   */
+  clear(): void {
+    this.setSpecs([]);
+  }
+
+  private setSpecs(specs: RegisteredSpec[]): void {
+    this.specs = specs;
+    this.paths = {};
+    for (const spec of specs) {
+      for (const [template, pathItem] of Object.entries(spec.paths)) {
+        for (const frontendTemplate of getFrontendTemplates(spec, template)) {
+          this.paths[frontendTemplate] ??= pathItem;
+        }
+      }
+    }
+  }
+}
+
+async function loadSpec(source: SpecSource): Promise<RegisteredSpec> {
+  const { paths, schemas, sourceMap, propertyKeys, servers } = await loadSpecFile(source.filePath);
+  return { filePath: source.filePath, paths, schemas, sourceMap, propertyKeys, ...createRoutes(source, servers) };
+}
+
+/**
+ * Находит схему, в собственных `properties` которой описано свойство: саму схему или одну из ее частей.
+ */
+function findPropertyOwner(schema: SwaggerSchema, name: string, visited: Set<SwaggerSchema>): SwaggerSchema | undefined {
+  if (visited.has(schema)) {
+    return undefined;
+  }
+  visited.add(schema);
+  if (schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, name)) {
+    return schema;
+  }
+  for (const part of [...(schema.allOf ?? []), ...(schema.oneOf ?? []), ...(schema.anyOf ?? [])]) {
+    const owner = findPropertyOwner(part, name, visited);
+    if (owner) {
+      return owner;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Собирает префиксы и замены спецификации: базовые пути, к которым добавляются пути серверов спецификации.
+ */
+function createRoutes(source: SpecSource, servers: string[]): Pick<RegisteredSpec, 'prefixes' | 'rewrites'> {
+  const basePaths = source.basePaths?.length ? source.basePaths.map(normalizePrefix) : [''];
+  const serverPaths = source.servers && servers.length > 0 ? [...new Set(servers.map(normalizePrefix))] : [''];
+  return {
+    prefixes: [...new Set(basePaths.flatMap(basePath => serverPaths.map(serverPath => basePath + serverPath)))],
+    rewrites: Object.entries(source.rewrites ?? {}).map(([from, to]) => [normalizePrefix(from), normalizePrefix(to)])
+  };
+}
+
+/**
+ * Возвращает шаблоны, по которым фронтенд вызывает путь спецификации:
+ * путь с каждым из префиксов и, если полный путь начинается с заменяемого префикса, путь с замененным префиксом.
+ */
+function getFrontendTemplates(spec: RegisteredSpec, template: string): string[] {
+  const fullTemplates = spec.prefixes.map(prefix => prefix + template);
+  const rewritten = fullTemplates.flatMap(fullTemplate => spec.rewrites.flatMap(([from, to]) =>
+    fullTemplate.startsWith(to + '/') ? [from + fullTemplate.slice(to.length)] : []));
+  return [...fullTemplates, ...rewritten];
+}
+
+/**
+ * Приводит префикс к виду '/gateway/users': без origin и завершающего слеша; пустая строка — без префикса.
+ */
+function normalizePrefix(prefix: string): string {
+  const prefixPath = getUrlPath(prefix.trim()).replace(/\/+$/, '');
+  return prefixPath === '' || prefixPath.startsWith('/') ? prefixPath : '/' + prefixPath;
+}
@@ -0,0 +1,48 @@
+/**
+ * @module settings
+ * @description Defines the settings of the `myAjaxLsp` configuration section.
+ */
+
+/**
+ * Spec file of one backend and the way the frontend calls its paths.
+ * @interface SpecSettings
+ * @property {string} path - Path to the spec file, absolute or relative to the workspace folder.
+ * @property {string[]} [basePaths] - Prefixes the frontend puts before the spec paths, e.g. '/gateway/users'.
+ * @property {boolean} [servers] - Prefix the spec paths with the paths of the spec's own servers (default true).
+ * @property {Object.<string, string>} [rewrites] - Frontend prefix to backend path prefix rewrites.
+ */
+export interface SpecSettings {
+  path: string;
+  basePaths?: string[];
+  servers?: boolean;
+  rewrites?: { [frontendPrefix: string]: string };
+}
+
+/**
+ * Interface representing the language server settings.
+ * @interface AjaxLinterSettings
+ * @property {string} specPath - Path to the OpenAPI 3 / Swagger 2 spec file (JSON or YAML), absolute or relative to the workspace folder.
+ * @property {SpecSettings[]} specs - Additional spec files, one per backend; earlier specs win when paths collide.
+ * @property {string} codegenOutputDir - Folder for the generated API typings and client, absolute or relative to the workspace folder.
+ * @property {'fetch' | 'jquery'} codegenClient - How the generated API client performs requests.
+ * @property {Object.<string, string>} rules - Severity ('off', 'hint', 'info', 'warning', 'error') by rule id; unlisted rules use their default severity.
+ */
+export interface AjaxLinterSettings {
+  specPath: string;
+  specs: SpecSettings[];
+  codegenOutputDir: string;
+  codegenClient: 'fetch' | 'jquery';
+  rules: { [ruleId: string]: string };
+}
+
+/**
+ * Settings used when the client does not provide a value.
+ * @constant {AjaxLinterSettings} defaultSettings
+ */
+export const defaultSettings: AjaxLinterSettings = {
+  specPath: '',
+  specs: [],
+  codegenOutputDir: 'src/api/generated',
+  codegenClient: 'fetch',
+  rules: {}
+};
@@ -3,21 +3,47 @@
  * @description Defines the interfaces and mock data for the Swagger specification.
  */
 
+/**
+ * Primitive data types of a Swagger Schema.
+ * @typedef {'object' | 'string' | 'number' | 'boolean' | 'array' | 'integer'} SwaggerSchemaType
+ */
+export type SwaggerSchemaType = 'object' | 'string' | 'number' | 'boolean' | 'array' | 'integer';
+
 /**
  * Interface representing a Swagger Schema.
+ * Schemas loaded from a spec have their `$ref`s already resolved: the referenced schema object is shared,
+ * so recursive definitions form cycles and consumers must guard against them.
  * @interface SwaggerSchema
- * @property {'object' | 'string' | 'number' | 'boolean' | 'array' | 'integer'} type - The data type.
+ * @property {SwaggerSchemaType} [type] - The data type. Absent when the schema accepts any type or is composed with allOf/oneOf/anyOf.
+ * @property {string} [$ref] - The reference this schema was resolved from (e.g. '#/components/schemas/User').
  * @property {Object.<string, SwaggerSchema>} [properties] - Properties for 'object' type.
  * @property {SwaggerSchema} [items] - Items for 'array' type.
  * @property {string[]} [required] - Array of required property names.
+ * @property {boolean | SwaggerSchema} [additionalProperties] - Whether (or with which schema) properties not listed in `properties` are allowed.
+ * @property {SwaggerSchema[]} [allOf] - Schemas that must all be satisfied; merged into a single schema by consumers.
+ * @property {SwaggerSchema[]} [oneOf] - Alternatives of which exactly one must be satisfied.
+ * @property {SwaggerSchema[]} [anyOf] - Alternatives of which at least one must be satisfied.
+ * @property {Array<*>} [enum] - The list of allowed values.
+ * @property {boolean} [nullable] - Whether `null` is allowed.
+ * @property {string} [format] - The format modifier (e.g. 'date-time', 'email', 'int64').
+ * @property {*} [default] - The default value.
  * @property {*} [example] - An example value for the schema.
  * @property {string} [description] - A description of the schema.
  */
 export interface SwaggerSchema {
-  type: 'object' | 'string' | 'number' | 'boolean' | 'array' | 'integer';
+  type?: SwaggerSchemaType;
+  $ref?: string;
   properties?: { [key: string]: SwaggerSchema };
   items?: SwaggerSchema;
   required?: string[];
+  additionalProperties?: boolean | SwaggerSchema;
+  allOf?: SwaggerSchema[];
+  oneOf?: SwaggerSchema[];
+  anyOf?: SwaggerSchema[];
+  enum?: any[];
+  nullable?: boolean;
+  format?: string;
+  default?: any;
   example?: any;
   description?: string;
 }
@@ -39,14 +65,29 @@ export interface SwaggerParameter {
   description?: string;
 }
 
+/**
+ * Interface representing a response of a Swagger Method.
+ * @interface SwaggerResponse
+ * @property {SwaggerSchema} [schema] - The schema of the response body. Absent when the response has no body.
+ * @property {string} [description] - A description of the response.
+ */
+export interface SwaggerResponse {
+  schema?: SwaggerSchema;
+  description?: string;
+}
+
 /**
  * Interface representing a Swagger Method (GET, POST, etc.).
  * @interface SwaggerMethod
  * @property {SwaggerParameter[]} [parameters] - List of parameters for the method.
+ * @property {Object.<string, SwaggerResponse>} [responses] - Responses by status code ('200', '2XX', 'default').
+ * @property {string} [operationId] - The unique operation identifier from the spec.
  * @property {string} [description] - A description of the method.
  */
 export interface SwaggerMethod {
   parameters?: SwaggerParameter[];
+  responses?: { [status: string]: SwaggerResponse };
+  operationId?: string;
   description?: string;
 }
 
@@ -67,11 +108,29 @@ export interface SwaggerPath {
   patch?: SwaggerMethod;
 }
 
+/**
+ * HTTP methods of a Swagger Path in display order.
+ */
+export const HTTP_METHODS: (keyof SwaggerPath)[] = ['get', 'post', 'put', 'delete', 'patch'];
+
+/**
+ * Map of URL templates to their Swagger Path definitions.
+ * @typedef {Object.<string, SwaggerPath>} SwaggerPaths
+ */
+export type SwaggerPaths = { [key: string]: SwaggerPath };
+
+/**
+ * Map of named schemas (`components.schemas` or `definitions`) to their normalized schemas.
+ * @typedef {Object.<string, SwaggerSchema>} SwaggerSchemas
+ */
+export type SwaggerSchemas = { [name: string]: SwaggerSchema };
+
 /**
  * Mock Swagger specification object.
+ * Used as a fixture; the language server works with the spec loaded from the workspace.
  * @constant {Object.<string, SwaggerPath>} mockSwagger
  */
-export const mockSwagger: { [key: string]: SwaggerPath } = {
+export const mockSwagger: SwaggerPaths = {
   '/api/users': {
     get: {
       parameters: [
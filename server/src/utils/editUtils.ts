@@ -0,0 +1,82 @@
+/**
+ * @module editUtils
+ * @description Текстовые правки объектных литералов для быстрых исправлений:
+ * добавление и удаление свойств с сохранением запятых и отступов.
+ */
+
+import * as ts from 'typescript';
+import { TextEdit } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+/**
+ * Возвращает имя свойства в виде кода: идентификатор без кавычек, иначе строковый литерал.
+ * @param {string} name - Имя свойства.
+ * @returns {string} Ключ свойства, например `email` или `"first-name"`.
+ */
+export function formatPropertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Создает правку, добавляющую свойства в конец объектного литерала.
+ * В многострочном объекте каждое свойство добавляется на новой строке с отступом последнего свойства.
+ * @param {ts.ObjectLiteralExpression} object - Объект, в который добавляются свойства.
+ * @param {string[]} entries - Свойства в виде кода, например `['email: ""']`.
+ * @param {TextDocument} document - Документ с объектом.
+ * @returns {TextEdit} Правка документа.
+ */
+export function createInsertPropertiesEdit(object: ts.ObjectLiteralExpression, entries: string[], document: TextDocument): TextEdit {
+  const properties = object.properties;
+  if (properties.length === 0) {
+    return TextEdit.replace(
+      { start: document.positionAt(object.getStart() + 1), end: document.positionAt(object.getEnd() - 1) },
+      ` ${entries.join(', ')} `
+    );
+  }
+
+  const lastProperty = properties[properties.length - 1];
+  const lastStart = document.positionAt(lastProperty.getStart());
+  const insertPosition = document.positionAt(lastProperty.getEnd());
+  const isMultiline = document.positionAt(object.getStart()).line !== lastStart.line;
+  if (!isMultiline) {
+    return TextEdit.insert(insertPosition, entries.map(entry => `, ${entry}`).join(''));
+  }
+
+  const linePrefix = document.getText({ start: { line: lastStart.line, character: 0 }, end: lastStart });
+  const indent = /^\s*$/.test(linePrefix) ? linePrefix : '';
+  return TextEdit.insert(insertPosition, entries.map(entry => `,\n${indent}${entry}`).join(''));
+}
+
+/**
+ * Создает правку, удаляющую свойство объектного литерала вместе с разделяющей запятой.
+ * @param {ts.ObjectLiteralExpression} object - Объект, из которого удаляется свойство.
+ * @param {ts.ObjectLiteralElementLike} property - Удаляемое свойство.
+ * @param {TextDocument} document - Документ со свойством.
+ * @returns {TextEdit} Правка документа.
+ */
+export function createRemovePropertyEdit(
+  object: ts.ObjectLiteralExpression,
+  property: ts.ObjectLiteralElementLike,
+  document: TextDocument
+): TextEdit {
+  const properties = object.properties;
+  const index = properties.indexOf(property);
+  let start = property.getStart();
+  let end = property.getEnd();
+
+  if (index + 1 < properties.length) {
+    // Удаляем свойство вместе с запятой и пробелами до следующего свойства
+    end = properties[index + 1].getStart();
+  } else if (index > 0) {
+    // Последнее свойство: удаляем запятую перед ним
+    start = properties[index - 1].getEnd();
+  } else {
+    // Единственное свойство: удаляем и висящую запятую, если она есть
+    const trailingComma = /^\s*,/.exec(document.getText().slice(end));
+    if (trailingComma) {
+      end += trailingComma[0].length;
+    }
+  }
+
+  return TextEdit.del({ start: document.positionAt(start), end: document.positionAt(end) });
+}
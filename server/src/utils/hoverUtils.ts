@@ -0,0 +1,83 @@
+/**
+ * @module hoverUtils
+ * @description Формирование Markdown-описаний для всплывающих подсказок (hover):
+ * путь спецификации с его методами, операция с параметрами и поле тела запроса.
+ */
+
+import { HTTP_METHODS, SwaggerMethod, SwaggerPath, SwaggerSchema } from '../types/swagger';
+import { getSchemaExampleValue, getSchemaTypeLabel, getSchemaVariants } from './schemaUtils';
+
+/**
+ * Описание пути спецификации: шаблон пути и список методов с их описаниями.
+ * @param {string} template - Шаблон пути, например '/api/users/{userId}'.
+ * @param {SwaggerPath} pathItem - Методы пути.
+ * @returns {string} Markdown.
+ */
+export function formatPathHover(template: string, pathItem: SwaggerPath): string {
+  const lines = [`**${escapeMarkdown(template)}**`, ''];
+  for (const method of HTTP_METHODS) {
+    const operation = pathItem[method];
+    if (operation) {
+      lines.push(`- \`${method.toUpperCase()}\`${operation.description ? ` — ${escapeMarkdown(operation.description)}` : ''}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Описание операции: метод, путь, описание и параметры, сгруппированные по месту передачи.
+ * @param {string} template - Шаблон пути.
+ * @param {string} method - HTTP метод в нижнем регистре.
+ * @param {SwaggerMethod} operation - Операция спецификации.
+ * @returns {string} Markdown.
+ */
+export function formatOperationHover(template: string, method: string, operation: SwaggerMethod): string {
+  const lines = [`**${method.toUpperCase()} ${escapeMarkdown(template)}**`];
+  if (operation.description) {
+    lines.push('', escapeMarkdown(operation.description));
+  }
+
+  const parameters = operation.parameters ?? [];
+  if (parameters.length > 0) {
+    lines.push('', 'Параметры:', '');
+    for (const param of parameters) {
+      const typeLabel = param.schema ? `: \`${getSchemaTypeLabel(param.schema)}\`` : '';
+      const required = param.required ? ' (обязательный)' : '';
+      const description = param.description ? ` — ${escapeMarkdown(param.description)}` : '';
+      lines.push(`- *${param.in}* \`${param.name}\`${typeLabel}${required}${description}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Описание поля тела запроса: тип, обязательность, пример и описание из схемы.
+ * @param {string} fieldPath - Путь к полю, например 'data.address.city'.
+ * @param {SwaggerSchema} schema - Схема поля.
+ * @param {boolean} required - Является ли поле обязательным.
+ * @returns {string} Markdown.
+ */
+export function formatFieldHover(fieldPath: string, schema: SwaggerSchema, required: boolean): string {
+  const lines = [
+    `**${escapeMarkdown(fieldPath)}**: \`${getSchemaTypeLabel(schema)}\``,
+    '',
+    required ? 'Обязательное поле' : 'Необязательное поле'
+  ];
+
+  const variant = getSchemaVariants(schema)[0];
+  if (variant.example !== undefined || variant.default !== undefined) {
+    lines.push('', `Пример: \`${getSchemaExampleValue(schema)}\``);
+  }
+  const description = schema.description ?? variant.description;
+  if (description) {
+    lines.push('', escapeMarkdown(description));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Экранирует символы, которые Markdown может интерпретировать как разметку.
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>]/g, '\\$&');
+}
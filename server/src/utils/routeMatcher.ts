@@ -0,0 +1,213 @@
+/**
+ * @module routeMatcher
+ * @description Сопоставление URL из кода с шаблонами путей спецификации через дерево сегментов.
+ * Возвращаются все подходящие шаблоны, лучшие первыми: сначала те, значения параметров пути которых
+ * подходят под схемы параметров, затем — с точными сегментами ближе к началу пути
+ * ('/api/users/me' выбирается вместо '/api/users/{userId}').
+ * Сегменты URL декодируются, пустые сегменты (завершающий или двойной слеш) не учитываются.
+ */
+
+import { SwaggerMethod, SwaggerPath, SwaggerPaths, SwaggerSchema } from '../types/swagger';
+import { schemaAcceptsText } from './schemaUtils';
+import { decodeUrlPart, getUrlPath, URL_WILDCARD } from './utils';
+
+/**
+ * Шаблон спецификации, подходящий под URL.
+ * @property {string} template - Шаблон пути.
+ * @property {Object.<string, string>} parameters - Декодированные значения параметров пути; невычислимые значения не включаются.
+ */
+export interface RouteMatch {
+  template: string;
+  parameters: { [name: string]: string };
+}
+
+interface RouteNode {
+  // Точные сегменты (декодированные)
+  literals: Map<string, RouteNode>;
+  // Сегменты с параметрами: '{userId}', '{fileName}.json'
+  parameters: Map<string, { pattern: RegExp, names: string[], whole: boolean, node: RouteNode }>;
+  // Шаблоны, которые заканчиваются в узле, и их порядок в спецификации
+  templates: { template: string, order: number }[];
+}
+
+interface RankedMatch extends RouteMatch {
+  // Качество совпадения каждого сегмента, 0 — лучшее
+  ranks: number[];
+  typeMismatch: boolean;
+  order: number;
+}
+
+const SEGMENT_RANKS = { literal: 0, pattern: 1, parameter: 2 };
+// Невычислимый сегмент скорее содержит значение параметра, чем известный сегмент
+const WILDCARD_RANKS = { parameter: 0, pattern: 1, literal: 2 };
+
+const routeTrees = new WeakMap<SwaggerPaths, RouteNode>();
+
+/**
+ * Находит все шаблоны спецификации, подходящие под URL.
+ * URL может содержать невычислимые части `URL_WILDCARD`: часть сегмента совпадает с любым текстом внутри сегмента,
+ * а сегмент целиком (`/api/*`) — с любым сегментом или, если других совпадений нет, с несколькими сегментами.
+ * @param {string} currentUrl - URL из кода, возможно с origin, строкой запроса и `URL_WILDCARD`.
+ * @param {SwaggerPaths} paths - Пути спецификации.
+ * @returns {RouteMatch[]} Подходящие шаблоны, лучшие первыми; при равном качестве — в порядке спецификации.
+ */
+export function matchSwaggerUrls(currentUrl: string, paths: SwaggerPaths): RouteMatch[] {
+  return rankMatches(currentUrl, paths).map(({ template, parameters }) => ({ template, parameters }));
+}
+
+/**
+ * Возвращает шаблоны, одинаково хорошо подходящие под URL, если их несколько
+ * (например, '/api/items/{id}' и '/api/items/{slug}'). URL с невычислимыми частями не проверяются.
+ * @param {string} currentUrl - URL из кода.
+ * @param {SwaggerPaths} paths - Пути спецификации.
+ * @returns {string[]} Неразличимые шаблоны или пустой список, если лучший шаблон один.
+ */
+export function getAmbiguousSwaggerUrls(currentUrl: string, paths: SwaggerPaths): string[] {
+  if (currentUrl.includes(URL_WILDCARD)) {
+    return [];
+  }
+  const [best, ...rest] = rankMatches(currentUrl, paths);
+  const tied = best ? rest.filter(match => compareMatches(match, best) === 0) : [];
+  return tied.length > 0 ? [best, ...tied].map(match => match.template) : [];
+}
+
+function rankMatches(currentUrl: string, paths: SwaggerPaths): RankedMatch[] {
+  const tree = getRouteTree(paths);
+  const parts = getUrlPath(currentUrl).split('/').filter(part => part !== '').map(decodeUrlPart);
+
+  const matches: RankedMatch[] = [];
+  collectMatches(tree, parts, 0, false, [], {}, matches);
+  // Невычислимый сегмент может содержать несколько сегментов пути (например, `/api/${path}`)
+  if (matches.length === 0 && parts.includes(URL_WILDCARD)) {
+    collectMatches(tree, parts, 0, true, [], {}, matches);
+  }
+
+  for (const match of matches) {
+    match.typeMismatch = !parametersFitSchemas(paths[match.template], match.parameters);
+  }
+  const sorted = matches.sort((a, b) => compareMatches(a, b) || a.order - b.order);
+  return sorted.filter((match, index) => sorted.findIndex(other => other.template === match.template) === index);
+}
+
+function collectMatches(
+  node: RouteNode,
+  parts: string[],
+  index: number,
+  spanning: boolean,
+  ranks: number[],
+  parameters: { [name: string]: string },
+  matches: RankedMatch[]
+): void {
+  if (index === parts.length) {
+    for (const { template, order } of node.templates) {
+      matches.push({ template, parameters, ranks, typeMismatch: false, order });
+    }
+    return;
+  }
+
+  const part = parts[index];
+  const wildcard = part === URL_WILDCARD;
+  const partial = !wildcard && part.includes(URL_WILDCARD);
+  const segmentRanks = wildcard ? WILDCARD_RANKS : SEGMENT_RANKS;
+  const visit = (child: RouteNode, rank: number, childParameters: { [name: string]: string }) => {
+    collectMatches(child, parts, index + 1, spanning, [...ranks, rank], childParameters, matches);
+    // Тот же невычислимый сегмент продолжается в следующем сегменте шаблона
+    if (wildcard && spanning) {
+      collectMatches(child, parts, index, spanning, [...ranks, rank], childParameters, matches);
+    }
+  };
+
+  for (const [literal, child] of node.literals) {
+    if (wildcard || (partial ? getWildcardPattern(part).test(literal) : literal === part)) {
+      visit(child, segmentRanks.literal, parameters);
+    }
+  }
+  for (const { pattern, names, whole, node: child } of node.parameters.values()) {
+    const rank = whole ? segmentRanks.parameter : segmentRanks.pattern;
+    if (wildcard || partial) {
+      visit(child, rank, parameters);
+      continue;
+    }
+    const values = pattern.exec(part)?.slice(1);
+    if (values) {
+      visit(child, rank, { ...parameters, ...Object.fromEntries(names.map((name, i) => [name, values[i]])) });
+    }
+  }
+}
+
+function compareMatches(a: RankedMatch, b: RankedMatch): number {
+  if (a.typeMismatch !== b.typeMismatch) {
+    return a.typeMismatch ? 1 : -1;
+  }
+  for (let i = 0; i < Math.min(a.ranks.length, b.ranks.length); i++) {
+    if (a.ranks[i] !== b.ranks[i]) {
+      return a.ranks[i] - b.ranks[i];
+    }
+  }
+  return a.ranks.length - b.ranks.length;
+}
+
+/**
+ * Проверяет значения параметров пути по схемам параметров операций пути.
+ * Значение подходит, если его допускает хотя бы одна операция или параметр не описан.
+ */
+function parametersFitSchemas(pathItem: SwaggerPath | undefined, parameters: { [name: string]: string }): boolean {
+  const operations: SwaggerMethod[] = Object.values(pathItem ?? {});
+  return Object.entries(parameters).every(([name, value]) => {
+    const schemas = operations
+      .map(operation => operation.parameters?.find(parameter => parameter.in === 'path' && parameter.name === name)?.schema)
+      .filter((schema): schema is SwaggerSchema => schema !== undefined);
+    return schemas.length === 0 || schemas.some(schema => schemaAcceptsText(schema, value));
+  });
+}
+
+/**
+ * Возвращает дерево сегментов путей спецификации. Дерево строится один раз для каждого объекта путей.
+ */
+function getRouteTree(paths: SwaggerPaths): RouteNode {
+  let tree = routeTrees.get(paths);
+  if (!tree) {
+    tree = createNode();
+    Object.keys(paths).forEach((template, order) => addTemplate(tree!, template, order));
+    routeTrees.set(paths, tree);
+  }
+  return tree;
+}
+
+function addTemplate(tree: RouteNode, template: string, order: number): void {
+  let node = tree;
+  for (const part of template.split('/').filter(segment => segment !== '')) {
+    if (!/\{[^}]+\}/.test(part)) {
+      const literal = decodeUrlPart(part);
+      const child = node.literals.get(literal) ?? createNode();
+      node.literals.set(literal, child);
+      node = child;
+      continue;
+    }
+
+    let parameter = node.parameters.get(part);
+    if (!parameter) {
+      const names = [...part.matchAll(/\{([^}]+)\}/g)].map(match => match[1]);
+      const pattern = new RegExp(`^${part.split(/\{[^}]+\}/).map(escapeRegExp).join('(.+?)')}$`);
+      parameter = { pattern, names, whole: /^\{[^}]+\}$/.test(part), node: createNode() };
+      node.parameters.set(part, parameter);
+    }
+    node = parameter.node;
+  }
+  node.templates.push({ template, order });
+}
+
+function createNode(): RouteNode {
+  return { literals: new Map(), parameters: new Map(), templates: [] };
+}
+
+/**
+ * Регулярное выражение для сегмента с невычислимыми частями: 'user*' совпадает с 'users'.
+ */
+function getWildcardPattern(part: string): RegExp {
+  return new RegExp(`^${part.split(URL_WILDCARD).map(escapeRegExp).join('.*')}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
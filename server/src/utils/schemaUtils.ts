@@ -0,0 +1,334 @@
+/**
+ * @module schemaUtils
+ * @description Функции для работы со схемами Swagger: слияние `allOf`, альтернативы `oneOf` / `anyOf`,
+ * проверка типов и значений `enum`. Схемы из спецификации могут быть рекурсивными (через `$ref`),
+ * поэтому все обходы защищены от зацикливания.
+ */
+
+import { SwaggerMethod, SwaggerResponse, SwaggerSchema } from '../types/swagger';
+import { getDefaultValue } from './utils';
+
+const resolvedSchemas = new WeakMap<SwaggerSchema, SwaggerSchema>();
+
+/**
+ * Возвращает действующую схему: части `allOf` сливаются в одну схему
+ * (свойства объединяются, списки обязательных полей складываются).
+ * Результат кэшируется, исходная схема не изменяется.
+ * @param {SwaggerSchema} schema - Исходная схема.
+ * @returns {SwaggerSchema} Схема без `allOf`.
+ */
+export function resolveSchema(schema: SwaggerSchema): SwaggerSchema {
+  return resolveAllOf(schema, new Set());
+}
+
+function resolveAllOf(schema: SwaggerSchema, ancestors: Set<SwaggerSchema>): SwaggerSchema {
+  if (!schema.allOf?.length) {
+    return schema;
+  }
+  const cached = resolvedSchemas.get(schema);
+  if (cached) {
+    return cached;
+  }
+
+  const { allOf, ...merged } = schema;
+  // Схема, которая через allOf ссылается сама на себя, вносит только собственные поля
+  if (ancestors.has(schema)) {
+    return merged;
+  }
+  ancestors.add(schema);
+
+  // Поля частей идут в порядке allOf, собственные поля схемы — последними
+  let properties: { [key: string]: SwaggerSchema } | undefined;
+  let required: string[] | undefined;
+  for (const part of allOf) {
+    const resolvedPart = resolveAllOf(part, ancestors);
+    if (resolvedPart.properties) {
+      properties = { ...properties, ...resolvedPart.properties };
+    }
+    if (resolvedPart.required) {
+      required = [...(required ?? []), ...resolvedPart.required];
+    }
+    merged.type ??= resolvedPart.type;
+    merged.items ??= resolvedPart.items;
+    merged.additionalProperties ??= resolvedPart.additionalProperties;
+    merged.oneOf ??= resolvedPart.oneOf;
+    merged.anyOf ??= resolvedPart.anyOf;
+    merged.enum ??= resolvedPart.enum;
+    merged.nullable ??= resolvedPart.nullable;
+    merged.format ??= resolvedPart.format;
+    merged.default ??= resolvedPart.default;
+    merged.example ??= resolvedPart.example;
+    merged.description ??= resolvedPart.description;
+  }
+
+  ancestors.delete(schema);
+  if (properties) {
+    merged.properties = { ...properties, ...merged.properties };
+  }
+  if (required) {
+    merged.required = [...new Set([...required, ...(merged.required ?? [])])];
+  }
+  if (!merged.type && merged.properties) {
+    merged.type = 'object';
+  }
+  resolvedSchemas.set(schema, merged);
+  return merged;
+}
+
+/**
+ * Возвращает варианты схемы: для `oneOf` / `anyOf` — каждую альтернативу,
+ * дополненную общими полями исходной схемы, иначе — саму действующую схему.
+ * @param {SwaggerSchema} schema - Исходная схема.
+ * @returns {SwaggerSchema[]} Действующие схемы вариантов (не пустой список).
+ */
+export function getSchemaVariants(schema: SwaggerSchema): SwaggerSchema[] {
+  return collectVariants(resolveSchema(schema), new Set());
+}
+
+function collectVariants(schema: SwaggerSchema, ancestors: Set<SwaggerSchema>): SwaggerSchema[] {
+  const alternatives = schema.oneOf ?? schema.anyOf;
+  if (!alternatives?.length || ancestors.has(schema)) {
+    return [schema];
+  }
+  ancestors.add(schema);
+
+  const { oneOf, anyOf, ...base } = schema;
+  const hasBase = base.type !== undefined || base.properties !== undefined;
+  const variants = alternatives.flatMap(alternative => {
+    const variant = hasBase ? resolveSchema({ allOf: [base, alternative] }) : resolveSchema(alternative);
+    return collectVariants(base.nullable ? { ...variant, nullable: true } : variant, ancestors);
+  });
+
+  ancestors.delete(schema);
+  return variants;
+}
+
+/**
+ * Проверяет, допускает ли схема значение указанного типа.
+ * Целые и дробные числа взаимозаменяемы, `null` допустим только для `nullable` схем,
+ * схема без типа допускает любое значение.
+ * @param {SwaggerSchema} schema - Схема поля.
+ * @param {string} valueType - Тип значения (результат `getNodeType`).
+ * @returns {boolean} `true`, если хотя бы один вариант схемы допускает значение.
+ */
+export function schemaAcceptsType(schema: SwaggerSchema, valueType: string): boolean {
+  return getSchemaVariants(schema).some(variant => {
+    if (valueType === 'null') {
+      return variant.nullable === true || variant.type === undefined;
+    }
+    if (!variant.type || variant.type === valueType) {
+      return true;
+    }
+    const numeric = ['number', 'integer'];
+    return numeric.includes(variant.type) && numeric.includes(valueType);
+  });
+}
+
+/**
+ * Возвращает список допустимых значений поля, если все варианты схемы ограничены `enum`.
+ * @param {SwaggerSchema} schema - Схема поля.
+ * @returns {any[] | undefined} Допустимые значения или `undefined`, если значения не ограничены.
+ */
+export function getSchemaEnum(schema: SwaggerSchema): any[] | undefined {
+  const variants = getSchemaVariants(schema);
+  if (!variants.every(variant => variant.enum)) {
+    return undefined;
+  }
+  return [...new Set(variants.flatMap(variant => variant.enum!))];
+}
+
+/**
+ * Проверяет, допускает ли схема указанное литеральное значение с учетом `enum` и `nullable`.
+ * @param {SwaggerSchema} schema - Схема поля.
+ * @param {string | number | boolean | null} value - Литеральное значение из кода.
+ * @returns {boolean} `true`, если значение допустимо.
+ */
+export function schemaAcceptsValue(schema: SwaggerSchema, value: string | number | boolean | null): boolean {
+  return getSchemaVariants(schema).some(variant => {
+    if (value === null) {
+      return variant.nullable === true || variant.type === undefined;
+    }
+    return !variant.enum || variant.enum.includes(value);
+  });
+}
+
+/**
+ * Определяет тип и значение текста, переданного вне тела запроса (сегмент пути, параметр строки запроса, заголовок),
+ * например '5' -> integer 5, 'true' -> boolean true.
+ * @param {string} text - Текст значения.
+ * @returns {{ type: string, value: string | number | boolean }} Тип и значение.
+ */
+export function parseTextValue(text: string): { type: string, value: string | number | boolean } {
+  if (/^-?\d+$/.test(text)) {
+    return { type: 'integer', value: Number(text) };
+  }
+  if (text.trim() !== '' && !isNaN(Number(text))) {
+    return { type: 'number', value: Number(text) };
+  }
+  if (text === 'true' || text === 'false') {
+    return { type: 'boolean', value: text === 'true' };
+  }
+  return { type: 'string', value: text };
+}
+
+/**
+ * Проверяет, допускает ли схема значение, переданное текстом: строка '5' подходит для схемы типа `integer`.
+ * Массивы и объекты (сериализуемые по-разному) считаются подходящими.
+ * @param {SwaggerSchema} schema - Схема параметра.
+ * @param {string} text - Текст значения.
+ * @returns {boolean} `true`, если значение приводится к типу схемы и входит в `enum`.
+ */
+export function schemaAcceptsText(schema: SwaggerSchema, text: string): boolean {
+  if (getSchemaVariants(schema).some(variant => variant.type === 'array' || variant.type === 'object')) {
+    return true;
+  }
+  const parsed = parseTextValue(text);
+  return (schemaAcceptsType(schema, 'string') || schemaAcceptsType(schema, parsed.type)) &&
+    (schemaAcceptsValue(schema, text) || schemaAcceptsValue(schema, parsed.value));
+}
+
+/**
+ * Возвращает описание типа схемы для отображения пользователю,
+ * например `string (email)`, `User`, `"asc" | "desc"` или `integer[] | null`.
+ * @param {SwaggerSchema} schema - Схема.
+ * @returns {string} Описание типа.
+ */
+export function getSchemaTypeLabel(schema: SwaggerSchema): string {
+  return formatTypeLabel(schema, new Set());
+}
+
+function formatTypeLabel(schema: SwaggerSchema, ancestors: Set<SwaggerSchema>): string {
+  if (schema.$ref) {
+    return getRefName(schema.$ref);
+  }
+  if (ancestors.has(schema)) {
+    return schema.type ?? 'any';
+  }
+  ancestors.add(schema);
+
+  const variants = getSchemaVariants(schema);
+  let label: string;
+  if (variants.length > 1) {
+    label = [...new Set(variants.map(variant => formatTypeLabel(variant, ancestors)))].join(' | ');
+  } else {
+    const variant = variants[0];
+    if (variant.enum) {
+      label = variant.enum.map(value => JSON.stringify(value)).join(' | ');
+    } else if (variant.type === 'array') {
+      const itemLabel = variant.items ? formatTypeLabel(variant.items, ancestors) : 'any';
+      label = itemLabel.includes(' ') ? `(${itemLabel})[]` : `${itemLabel}[]`;
+    } else if (variant.$ref) {
+      label = getRefName(variant.$ref);
+    } else {
+      label = variant.type ?? 'any';
+      if (variant.format) {
+        label += ` (${variant.format})`;
+      }
+    }
+    if (variant.nullable) {
+      label += ' | null';
+    }
+  }
+
+  ancestors.delete(schema);
+  return label;
+}
+
+/**
+ * Возвращает пример значения для схемы в виде кода: `example`, `default`, первое значение `enum`
+ * или значение по умолчанию для типа.
+ * @param {SwaggerSchema} schema - Схема.
+ * @returns {string} Значение в виде строки JavaScript.
+ */
+export function getSchemaExampleValue(schema: SwaggerSchema): string {
+  const variant = getSchemaVariants(schema)[0];
+  const example = variant.example ?? variant.default ?? variant.enum?.[0];
+  return example !== undefined ? JSON.stringify(example) : getDefaultValue(variant.type);
+}
+
+/**
+ * Возвращает плейсхолдер сниппета для значения схемы: выбор из `enum` (`${1|"a","b"|}`)
+ * или значение-пример (`${1:"john"}`).
+ * @param {SwaggerSchema} schema - Схема.
+ * @param {number} index - Номер плейсхолдера.
+ * @returns {string} Плейсхолдер сниппета.
+ */
+export function getSchemaValuePlaceholder(schema: SwaggerSchema, index: number): string {
+  const values = getSchemaEnum(schema);
+  if (values && values.length > 0) {
+    const choices = values.map(value => JSON.stringify(value).replace(/[,|\\]/g, '\\$&'));
+    return `\${${index}|${choices.join(',')}|}`;
+  }
+  return `\${${index}:${getSchemaExampleValue(schema)}}`;
+}
+
+/**
+ * Возвращает имя схемы из ссылки `$ref` (последний сегмент указателя).
+ * @param {string} ref - Ссылка, например '#/components/schemas/User'.
+ * @returns {string} Имя схемы, например 'User'.
+ */
+export function getRefName(ref: string): string {
+  return ref.slice(ref.lastIndexOf('/') + 1);
+}
+
+/**
+ * Выбирает объектный вариант схемы для проверки и автодополнения полей.
+ * Для `oneOf` / `anyOf` выбирается вариант, в котором описано больше всего уже указанных полей.
+ * @param {SwaggerSchema} schema - Схема объекта.
+ * @param {string[]} presentKeys - Поля, уже указанные в коде.
+ * @returns {SwaggerSchema | undefined} Действующая схема объекта или `undefined`, если схема не описывает объект.
+ */
+export function selectObjectVariant(schema: SwaggerSchema, presentKeys: string[] = []): SwaggerSchema | undefined {
+  let best: SwaggerSchema | undefined;
+  let bestScore = -1;
+  for (const variant of getSchemaVariants(schema)) {
+    if (variant.type !== 'object' && !variant.properties) {
+      continue;
+    }
+    const score = presentKeys.filter(key => variant.properties?.[key] !== undefined).length;
+    if (score > bestScore) {
+      best = variant;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Возвращает схему поля по пути от корня схемы: имена свойств объекта и индексы элементов массива.
+ * Для `oneOf` / `anyOf` используется первый вариант, в котором описано нужное свойство.
+ * @param {SwaggerSchema} schema - Корневая схема.
+ * @param {(string | number)[]} path - Путь к полю, например ['items', 0, 'name'].
+ * @returns {SwaggerSchema | undefined} Схема поля или `undefined`, если путь не описан в схеме.
+ */
+export function getSchemaAtPath(schema: SwaggerSchema, path: (string | number)[]): SwaggerSchema | undefined {
+  let current: SwaggerSchema | undefined = schema;
+  for (const segment of path) {
+    if (!current) {
+      return undefined;
+    }
+    const variants = getSchemaVariants(current);
+    if (typeof segment === 'number') {
+      current = variants.find(variant => variant.items)?.items;
+      continue;
+    }
+    const owner = variants.find(variant => variant.properties?.[segment]);
+    const additional = variants.find(variant => typeof variant.additionalProperties === 'object')?.additionalProperties;
+    current = owner ? owner.properties![segment] : typeof additional === 'object' ? additional : undefined;
+  }
+  return current;
+}
+
+/**
+ * Возвращает успешный ответ операции: первый описанный код 2xx, затем диапазон '2XX', затем 'default'.
+ * @param {SwaggerMethod} operation - Операция спецификации.
+ * @returns {{ status: string, response: SwaggerResponse } | undefined} Код и описание ответа.
+ */
+export function getSuccessResponse(operation: SwaggerMethod): { status: string, response: SwaggerResponse } | undefined {
+  const responses = operation.responses ?? {};
+  const statuses = Object.keys(responses);
+  const status = statuses.filter(code => /^2\d\d$/.test(code)).sort()[0]
+    ?? statuses.find(code => code.toUpperCase() === '2XX')
+    ?? statuses.find(code => code === 'default');
+  return status !== undefined ? { status, response: responses[status] } : undefined;
+}
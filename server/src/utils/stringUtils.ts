@@ -0,0 +1,45 @@
+/**
+ * @module stringUtils
+ * @description Поиск похожих строк для подсказок и быстрых исправлений: расстояние Левенштейна
+ * и ранжирование вариантов из списка.
+ */
+
+/**
+ * Вычисляет расстояние Левенштейна (число вставок, удалений и замен символов) между строками.
+ * @param {string} a - Первая строка.
+ * @param {string} b - Вторая строка.
+ * @returns {number} Расстояние редактирования.
+ */
+export function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Выбирает из списка строки, похожие на указанную (без учета регистра), от самой близкой к самой далекой.
+ * @param {string} value - Исходная строка.
+ * @param {string[]} candidates - Допустимые варианты.
+ * @param {number} [limit=3] - Наибольшее число результатов.
+ * @returns {string[]} Похожие варианты.
+ */
+export function rankSimilarStrings(value: string, candidates: string[], limit: number = 3): string[] {
+  const maxDistance = getMaxTypoDistance(value);
+  return candidates
+    .map(candidate => ({ candidate, distance: getEditDistance(value.toLowerCase(), candidate.toLowerCase()) }))
+    .filter(entry => entry.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(entry => entry.candidate);
+}
+
+function getMaxTypoDistance(value: string): number {
+  return Math.max(2, Math.ceil(value.length / 2));
+}
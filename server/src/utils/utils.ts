@@ -4,7 +4,10 @@
  */
 
 import * as ts from 'typescript';
-import { mockSwagger, SwaggerSchema } from '../types/swagger';
+import { SwaggerPaths, SwaggerSchema } from '../types/swagger';
+import { matchSwaggerUrls } from './routeMatcher';
+import { getSchemaExampleValue, getSchemaValuePlaceholder, getSchemaVariants } from './schemaUtils';
+import { getEditDistance } from './stringUtils';
 
 /**
  * Получает строковое представление значения по умолчанию для заданного типа из схемы Swagger.
@@ -27,29 +30,43 @@ export function getDefaultValue(type?: string): string {
 /**
  * Генерирует сниппет (фрагмент кода с плейсхолдерами) для данных (тела запроса)
  * на основе схемы Swagger. Используется модулями функциональности автодополнения.
+ * Для `oneOf` / `anyOf` используется первая альтернатива, рекурсивные схемы раскрываются один раз.
  * @param {SwaggerSchema} schema - Схема Swagger для данных.
  * @param {number} level - Текущий уровень отступа (для форматирования сниппета).
  * @param {boolean} includeBraces - Включать ли окружающие фигурные скобки для объекта (для вложенных объектов).
+ * @param {Set<SwaggerSchema>} ancestors - Схемы, которые уже раскрываются выше по дереву (защита от циклов).
  * @returns {string} Сгенерированный сниппет данных.
  */
-export function generateDataSnippet(schema: SwaggerSchema, level: number = 1, includeBraces: boolean = true): string {
-  if (schema.type === 'object' && schema.properties) {
+export function generateDataSnippet(
+  schema: SwaggerSchema,
+  level: number = 1,
+  includeBraces: boolean = true,
+  ancestors: Set<SwaggerSchema> = new Set()
+): string {
+  const resolved = getSchemaVariants(schema)[0];
+  // Рекурсивная схема: вместо повторного раскрытия подставляем значение по умолчанию
+  if (ancestors.has(resolved)) {
+    return getDefaultValue(resolved.type);
+  }
+  const nested = new Set(ancestors).add(resolved);
+
+  if (resolved.type === 'object' && resolved.properties) {
     const indent = '  '.repeat(level);
     let snippet = includeBraces ? '{\n' : '';
     let i = 1;
-    for (const key in schema.properties) {
-      const prop = schema.properties[key];
-      const isRequired = schema.required?.includes(key);
+    for (const key in resolved.properties) {
+      const prop = getSchemaVariants(resolved.properties[key])[0];
+      const isRequired = resolved.required?.includes(key);
       snippet += `${indent}  "${key}": `;
-      if (prop.type === 'object' && prop.properties) {
-        snippet += generateDataSnippet(prop, level + 1);
+      if (prop.type === 'object' && prop.properties && !nested.has(prop)) {
+        snippet += generateDataSnippet(prop, level + 1, true, nested);
       } else if (prop.type === 'array' && prop.items) {
         snippet += '[\n';
         // Предполагаем, что items - это один тип схемы
-        snippet += `${indent}    ${generateDataSnippet(prop.items, level + 2, false)}`;
+        snippet += `${indent}    ${generateDataSnippet(prop.items, level + 2, false, nested)}`;
         snippet += `\n${indent}  ]`;
       } else {
-        snippet += `\${${i++}:${prop.example !== undefined ? JSON.stringify(prop.example) : getDefaultValue(prop.type)}}`;
+        snippet += getSchemaValuePlaceholder(prop, i++);
       }
       snippet += `${isRequired ? '' : '?'},\n`;
     }
@@ -58,67 +75,190 @@ export function generateDataSnippet(schema: SwaggerSchema, level: number = 1, in
     return snippet;
   }
     // Добавлена обработка корневого массива
-  if (schema.type === 'array' && schema.items) {
+  if (resolved.type === 'array' && resolved.items) {
        // Здесь предполагается, что items - это один тип схемы
        // Уровень отступа для элементов массива внутри скобок
        const itemLevel = includeBraces ? level + 1 : level;
        let snippet = includeBraces ? '[\n' : '';
-       snippet += `${'  '.repeat(itemLevel)}${generateDataSnippet(schema.items, itemLevel + 1, false)}`;
+       snippet += `${'  '.repeat(itemLevel)}${generateDataSnippet(resolved.items, itemLevel + 1, false, nested)}`;
        snippet += `\n${'  '.repeat(includeBraces ? level : level - 1)}]`;
        return snippet;
    }
-    // Возвращаем дефолтное значение или пример для примитивных типов на любом уровне
-  return schema.example !== undefined ? JSON.stringify(schema.example) : getDefaultValue(schema.type);
+    // Возвращаем пример, значение по умолчанию или первое значение enum для примитивных типов на любом уровне
+  return getSchemaExampleValue(resolved);
 }
 
 
+/**
+ * Невычислимая часть URL (например, `${id}` в шаблонной строке), см. модуль urlEvaluator.
+ */
+export const URL_WILDCARD = '*';
+
 /**
  * Получает соответствующий шаблон URL из Swagger для заданного текущего URL, учитывая параметры пути.
  * Используется модулями функциональности (например, AjaxFeature) для сопоставления URL из кода со спецификацией.
- * @param {string} currentUrl - Текущий URL, введенный пользователем.
+ * Если подходят несколько шаблонов, выбирается лучший (см. модуль routeMatcher): точные сегменты
+ * предпочитаются параметрам, значения параметров должны подходить под их схемы.
+ * @param {string} currentUrl - Текущий URL, введенный пользователем, или шаблон URL с `URL_WILDCARD`.
+ * @param {SwaggerPaths} paths - Пути спецификации, среди которых ищется шаблон.
  * @returns {string | undefined} Соответствующий шаблон URL из Swagger или `undefined`, если совпадение не найдено.
  */
-export function getMatchingSwaggerUrl(currentUrl: string): string | undefined {
-  // Удаляем ведущие/завершающие слеши и разбиваем на части
-  const currentParts = currentUrl.split('/').filter(part => part !== '');
+export function getMatchingSwaggerUrl(currentUrl: string, paths: SwaggerPaths): string | undefined {
+  return matchSwaggerUrls(currentUrl, paths)[0]?.template;
+}
 
-  // Перебираем все URL-шаблоны в mockSwagger
-  for (const swaggerUrl in mockSwagger) {
-    // Удаляем ведущие/завершающие слеши и разбиваем шаблон на части
-    const swaggerParts = swaggerUrl.split('/').filter(part => part !== '');
+/**
+ * Параметр строки запроса, найденный в URL.
+ * @property {string} name - Имя параметра (декодированное).
+ * @property {string} value - Значение параметра (декодированное).
+ * @property {number} start - Смещение начала пары `name=value` в строке URL.
+ * @property {number} end - Смещение конца пары `name=value` в строке URL.
+ */
+export interface UrlQueryEntry {
+  name: string;
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Возвращает путь URL без origin, строки запроса и фрагмента:
+ * 'https://api.example.com/api/users?page=1#top' -> '/api/users'.
+ * @param {string} url - URL из кода.
+ * @returns {string} Путь URL.
+ */
+export function getUrlPath(url: string): string {
+  return url.slice(getUrlPathStart(url)).split(/[?#]/)[0];
+}
+
+/**
+ * Декодирует часть URL (`%20` -> пробел); некорректные последовательности оставляются как есть.
+ * @param {string} text - Часть URL.
+ * @returns {string} Декодированный текст.
+ */
+export function decodeUrlPart(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
 
-    // Если количество частей в текущем URL и шаблоне не совпадает, это не совпадение
-    if (swaggerParts.length !== currentParts.length) {
+/**
+ * Возвращает смещение начала пути в URL: длину origin ('https://api.example.com', '//cdn.example.com') или 0.
+ * @param {string} url - URL из кода.
+ * @returns {number} Смещение начала пути.
+ */
+export function getUrlPathStart(url: string): number {
+  return /^(?:[a-z][a-z\d+.-]*:)?\/\/[^/?#]*/i.exec(url)?.[0].length ?? 0;
+}
+
+/**
+ * Разбирает строку запроса URL: '/api/users?page=1&sort=name' -> [{ name: 'page', value: '1' }, { name: 'sort', value: 'name' }].
+ * @param {string} url - URL из кода.
+ * @returns {UrlQueryEntry[]} Параметры строки запроса с их положением в URL.
+ */
+export function parseUrlQuery(url: string): UrlQueryEntry[] {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) {
+    return [];
+  }
+  const fragmentStart = url.indexOf('#', queryStart);
+  const queryEnd = fragmentStart === -1 ? url.length : fragmentStart;
+
+  const entries: UrlQueryEntry[] = [];
+  let start = queryStart + 1;
+  for (const pair of url.slice(queryStart + 1, queryEnd).split('&')) {
+    if (pair !== '') {
+      const separator = pair.indexOf('=');
+      const name = separator === -1 ? pair : pair.slice(0, separator);
+      const value = separator === -1 ? '' : pair.slice(separator + 1);
+      entries.push({ name: decodeQueryComponent(name), value: decodeQueryComponent(value), start, end: start + pair.length });
+    }
+    start += pair.length + 1;
+  }
+  return entries;
+}
+
+/**
+ * Разбирает значение заголовка Cookie: 'session=abc; theme=dark' -> [{ name: 'session', value: 'abc' }, { name: 'theme', value: 'dark' }].
+ * Значения cookie не декодируются: их кодировку выбирает сервер.
+ * @param {string} header - Значение заголовка.
+ * @returns {UrlQueryEntry[]} Пары `name=value` с их положением в значении заголовка.
+ */
+export function parseCookieHeader(header: string): UrlQueryEntry[] {
+  const entries: UrlQueryEntry[] = [];
+  for (const match of header.matchAll(/[^;]+/g)) {
+    const pair = match[0].trim();
+    if (pair === '') {
       continue;
     }
+    const start = match.index! + match[0].indexOf(pair);
+    const separator = pair.indexOf('=');
+    entries.push({
+      name: (separator === -1 ? pair : pair.slice(0, separator)).trim(),
+      value: separator === -1 ? '' : pair.slice(separator + 1).trim(),
+      start,
+      end: start + pair.length
+    });
+  }
+  return entries;
+}
 
-    let match = true;
-    // Попарно сравниваем части URL
-    for (let i = 0; i < swaggerParts.length; i++) {
-      // Проверяем, является ли часть шаблона параметром пути (например, "{id}")
-      if (swaggerParts[i].startsWith('{') && swaggerParts[i].endsWith('}')) {
-        // Это параметр пути в Swagger URL. Считаем, что совпадение есть, если
-        // соответствующая часть в текущем URL не пустая.
-        if (currentParts[i] === '') {
-          match = false; // Параметр пути не может быть пустым
-          break;
-        }
-      } else {
-        // Это не параметр, части должны совпадать точно (с учетом регистра)
-        if (swaggerParts[i] !== currentParts[i]) {
-          match = false; // Части не совпадают
-          break;
-        }
+function decodeQueryComponent(text: string): string {
+  try {
+    return decodeURIComponent(text.replace(/\+/g, ' '));
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Подбирает шаблоны URL спецификации, похожие на неизвестный URL из кода ("возможно, имелось в виду").
+ * Шаблоны сравниваются по частям пути: параметр пути совпадает с любой частью, остальные части
+ * должны отличаться не больше чем на треть символов. Допускается не больше одной лишней или недостающей
+ * части на каждые три части пути.
+ * Например, для '/api/user/5' будет предложен '/api/users/{userId}'.
+ * @param {string} currentUrl - URL из кода.
+ * @param {SwaggerPaths} paths - Пути спецификации.
+ * @param {number} [limit=3] - Наибольшее число результатов.
+ * @returns {string[]} Похожие шаблоны URL, начиная с самого близкого.
+ */
+export function rankSimilarSwaggerUrls(currentUrl: string, paths: SwaggerPaths, limit: number = 3): string[] {
+  const currentParts = getUrlPath(currentUrl).split('/').filter(part => part !== '');
+
+  const ranked: { url: string, score: number }[] = [];
+  for (const swaggerUrl in paths) {
+    const swaggerParts = swaggerUrl.split('/').filter(part => part !== '');
+    const lengthDifference = Math.abs(swaggerParts.length - currentParts.length);
+    if (lengthDifference > Math.floor(Math.max(swaggerParts.length, currentParts.length) / 3)) {
+      continue;
+    }
+
+    let distance = 0;
+    let similar = true;
+    for (let i = 0; i < Math.min(swaggerParts.length, currentParts.length) && similar; i++) {
+      const swaggerPart = swaggerParts[i];
+      const currentPart = currentParts[i];
+      if ((swaggerPart.startsWith('{') && swaggerPart.endsWith('}')) || swaggerPart === currentPart || currentPart.includes(URL_WILDCARD)) {
+        continue;
       }
+      // Часть пути считается опечаткой, если отличается не больше чем на треть символов
+      const partLength = Math.max(currentPart.length, swaggerPart.length);
+      const partDistance = getEditDistance(currentPart.toLowerCase(), swaggerPart.toLowerCase());
+      similar = partDistance <= Math.ceil(partLength / 3);
+      distance += partDistance / partLength;
     }
 
-    // Если после проверки всех частей совпадение найдено, возвращаем шаблон Swagger URL
-    if (match) {
-      return swaggerUrl;
+    if (similar) {
+      ranked.push({ url: swaggerUrl, score: lengthDifference + distance });
     }
   }
-  // Если ни один шаблон не совпал
-  return undefined;
+
+  return ranked
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(entry => entry.url);
 }
 
 /**
@@ -126,21 +266,90 @@ export function getMatchingSwaggerUrl(currentUrl: string): string | undefined {
  * Используется модулями функциональности диагностик (например, AjaxFeature)
  * для базовой проверки соответствия типов значений в коде схеме Swagger.
  * @param {ts.Expression} node - Узел выражения TypeScript (например, значение свойства в объекте).
- * @returns {string | undefined} Предполагаемый тип узла ('string', 'number', 'boolean', 'array', 'object', 'integer') или `undefined`, если тип не распознан.
+ * @returns {string | undefined} Предполагаемый тип узла ('string', 'number', 'boolean', 'array', 'object', 'integer', 'null') или `undefined`, если тип не распознан.
  */
 export function getNodeType(node: ts.Expression): string | undefined {
-  if (ts.isStringLiteral(node)) {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
     return 'string';
   } else if (ts.isNumericLiteral(node)) {
-    const text = node.getText();
-    // Простая эвристика: если есть точка, считаем number, иначе integer
-    return text.includes('.') ? 'number' : 'integer';
+    // Тип определяется по значению, а не по записи: 1.0 и 1e3 — целые числа
+    return Number.isInteger(Number(node.text)) ? 'integer' : 'number';
   } else if (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) {
     return 'boolean';
   } else if (ts.isArrayLiteralExpression(node)) {
     return 'array';
   } else if (ts.isObjectLiteralExpression(node)) {
     return 'object';
+  } else if (node.kind === ts.SyntaxKind.NullKeyword) {
+    return 'null';
   }
   return undefined;
-}
\ No newline at end of file
+}
+
+/**
+ * Возвращает значение простого литерала (строка, число, булево значение или null).
+ * Используется для проверки значений по `enum` схемы Swagger.
+ * @param {ts.Expression} node - Узел выражения TypeScript.
+ * @returns {{ value: string | number | boolean | null } | undefined} Значение литерала или `undefined`, если узел не является простым литералом.
+ */
+export function getLiteralValue(node: ts.Expression): { value: string | number | boolean | null } | undefined {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return { value: node.text };
+  } else if (ts.isNumericLiteral(node)) {
+    return { value: Number(node.text) };
+  } else if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+    return { value: -Number(node.operand.text) };
+  } else if (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) {
+    return { value: node.kind === ts.SyntaxKind.TrueKeyword };
+  } else if (node.kind === ts.SyntaxKind.NullKeyword) {
+    return { value: null };
+  }
+  return undefined;
+}
+
+/**
+ * Возвращает имя свойства объектного литерала (идентификатор, строковый или числовой литерал).
+ * @param {ts.PropertyName} name - Узел имени свойства.
+ * @returns {string | undefined} Имя свойства или `undefined` для вычисляемых имен.
+ */
+export function getPropertyName(name: ts.PropertyName): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Возвращает имена свойств, заданных в объектном литерале (включая сокращенную запись `{ name }`).
+ * @param {ts.ObjectLiteralExpression} node - Объектный литерал.
+ * @returns {string[]} Имена свойств.
+ */
+export function getPropertyNames(node: ts.ObjectLiteralExpression): string[] {
+  const names: string[] = [];
+  for (const prop of node.properties) {
+    if (ts.isPropertyAssignment(prop) || ts.isShorthandPropertyAssignment(prop)) {
+      const name = getPropertyName(prop.name);
+      if (name !== undefined) {
+        names.push(name);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Возвращает узлы, содержащие позицию курсора: от корня файла до самого вложенного узла.
+ * Курсор сразу после узла (например, после закрывающей скобки вызова) считается внутри него.
+ * @param {ts.SourceFile} sourceFile - Синтаксическое дерево файла.
+ * @param {number} offset - Смещение курсора в тексте.
+ * @returns {ts.Node[]} Цепочка узлов под курсором; самый вложенный — последний.
+ */
+export function getNodesAtOffset(sourceFile: ts.SourceFile, offset: number): ts.Node[] {
+  const nodes: ts.Node[] = [];
+  let node: ts.Node | undefined = sourceFile;
+  while (node) {
+    nodes.push(node);
+    node = ts.forEachChild(node, child => child.getStart() <= offset && offset <= child.getEnd() ? child : undefined);
+  }
+  return nodes;
+}
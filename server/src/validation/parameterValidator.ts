@@ -0,0 +1,293 @@
+/**
+ * @module parameterValidator
+ * @description Проверка параметров запроса, передаваемых вне тела: сегментов пути (`{userId}`),
+ * параметров строки запроса (`?a=1&b=2` в URL или объект параметров) и заголовков (`headers: {}`).
+ * Значения из URL и заголовков передаются как текст, поэтому строка '5' подходит для параметра типа `integer`.
+ * Параметры `in: 'cookie'` проверяются, только если в заголовках явно задан заголовок Cookie строковым литералом:
+ * иначе cookie добавляет браузер, и по вызову нельзя узнать, передан ли обязательный cookie.
+ */
+
+import * as ts from 'typescript';
+
+import { SwaggerMethod, SwaggerParameter } from '../types/swagger';
+import { EvaluatedUrl, getUrlSourceRange } from '../evaluation/urlEvaluator';
+import { getObjectProperties, getPropertyValue, resolveExpression, resolveObjectLiteral } from '../evaluation/valueResolver';
+import { decodeUrlPart, getPropertyName, getUrlPath, getUrlPathStart, parseCookieHeader, parseUrlQuery, URL_WILDCARD } from '../utils/utils';
+import { getSchemaEnum, getSchemaTypeLabel, getSchemaVariants, parseTextValue, schemaAcceptsType, schemaAcceptsValue } from '../utils/schemaUtils';
+import { validateSchemaValue } from './schemaValidator';
+import { RuleId } from './rules';
+
+/**
+ * Вид проблемы, найденной при проверке параметров (идентификатор правила).
+ */
+export type ParameterIssueKind = Extract<RuleId, 'missing-required-parameter' | 'type-mismatch' | 'invalid-enum-value'>;
+
+/**
+ * Проблема, найденная при проверке параметров запроса.
+ * @property {ParameterIssueKind} kind - Вид проблемы.
+ * @property {string} message - Сообщение для пользователя.
+ * @property {number} start - Начало диапазона диагностики (смещение в исходном файле).
+ * @property {number} end - Конец диапазона диагностики (смещение в исходном файле).
+ * @property {SwaggerParameter} parameter - Параметр спецификации, к которому относится проблема.
+ */
+export interface ParameterIssue {
+  kind: ParameterIssueKind;
+  message: string;
+  start: number;
+  end: number;
+  parameter: SwaggerParameter;
+}
+
+/**
+ * Части запроса, в которых передаются параметры.
+ * @property {EvaluatedUrl} url - Вычисленный URL (путь и строка запроса).
+ * @property {string} template - Шаблон пути спецификации, которому соответствует URL.
+ * @property {ts.Expression} [query] - Объект параметров строки запроса (`params` в axios, `data` для GET в jQuery).
+ * @property {ts.Expression} [headers] - Объект заголовков.
+ */
+export interface RequestParameters {
+  url: EvaluatedUrl;
+  template: string;
+  query?: ts.Expression;
+  headers?: ts.Expression;
+}
+
+// Как называть параметр в сообщениях в зависимости от места передачи
+const PARAMETER_LABELS: { [location: string]: string } = {
+  path: 'параметра пути',
+  query: 'параметра запроса',
+  header: 'заголовка',
+  cookie: 'cookie'
+};
+
+/**
+ * Проверяет параметры пути, строки запроса, заголовки и cookie из заголовка Cookie по описанию операции.
+ * Обязательные параметры запроса и заголовки проверяются, только если все их источники известны
+ * (объекты и их spread-выражения разрешаются в литералы, в строке запроса нет невычислимых частей).
+ * Невычислимые значения (`URL_WILDCARD`) не проверяются.
+ * @param {SwaggerMethod} operation - Операция спецификации.
+ * @param {RequestParameters} request - Части запроса с параметрами.
+ * @returns {ParameterIssue[]} Найденные проблемы.
+ */
+export function validateParameters(operation: SwaggerMethod, request: RequestParameters): ParameterIssue[] {
+  const issues: ParameterIssue[] = [];
+  const parameters = operation.parameters ?? [];
+  const url = request.url;
+  const urlNode = url.node;
+
+  // Сегменты пути, соответствующие параметрам шаблона (если невычислимые части не сдвигают сегменты)
+  const templateParts = request.template.split('/').filter(part => part !== '');
+  const pathStart = getUrlPathStart(url.text);
+  const pathParts = [...getUrlPath(url.text).matchAll(/[^/]+/g)];
+  if (pathParts.length === templateParts.length) {
+    templateParts.forEach((templatePart, index) => {
+      const pathPart = pathParts[index];
+      const parameter = templatePart.startsWith('{') && templatePart.endsWith('}')
+        ? findParameter(parameters, 'path', templatePart.slice(1, -1))
+        : undefined;
+      if (parameter && !pathPart[0].includes(URL_WILDCARD)) {
+        const start = pathStart + pathPart.index!;
+        const range = getUrlSourceRange(url, start, start + pathPart[0].length);
+        checkParameterText(decodeUrlPart(pathPart[0]), parameter, range.start, range.end, issues);
+      }
+    });
+  }
+
+  // Параметры строки запроса: из URL и из объекта параметров
+  const queryNames = new Set<string>();
+  // Невычислимый конец URL может содержать строку запроса
+  let queryComplete = url.text.includes('?') || !url.text.endsWith(URL_WILDCARD);
+  for (const entry of parseUrlQuery(url.text)) {
+    if (entry.name.includes(URL_WILDCARD)) {
+      queryComplete = false;
+      continue;
+    }
+    queryNames.add(entry.name);
+    const parameter = findParameter(parameters, 'query', entry.name);
+    if (parameter && !entry.value.includes(URL_WILDCARD)) {
+      const range = getUrlSourceRange(url, entry.start, entry.end);
+      checkParameterText(entry.value, parameter, range.start, range.end, issues);
+    }
+  }
+  if (request.query !== undefined && !collectObjectParameters(request.query, parameters, 'query', queryNames, issues)) {
+    queryComplete = false;
+  }
+  if (queryComplete) {
+    for (const parameter of parameters) {
+      if (parameter.in === 'query' && parameter.required && !queryNames.has(parameter.name)) {
+        issues.push({
+          kind: 'missing-required-parameter',
+          message: `Отсутствует обязательный параметр запроса '${parameter.name}'`,
+          start: urlNode.getStart(),
+          end: urlNode.getEnd(),
+          parameter
+        });
+      }
+    }
+  }
+
+  // Заголовки проверяются, только если в вызове есть объект заголовков
+  if (request.headers) {
+    const headerNames = new Set<string>();
+    const headersComplete = collectObjectParameters(request.headers, parameters, 'header', headerNames, issues);
+    if (headersComplete) {
+      for (const parameter of parameters) {
+        if (parameter.in === 'header' && parameter.required && !headerNames.has(parameter.name.toLowerCase())) {
+          issues.push({
+            kind: 'missing-required-parameter',
+            message: `Отсутствует обязательный заголовок '${parameter.name}'`,
+            start: request.headers.getStart(),
+            end: request.headers.getEnd(),
+            parameter
+          });
+        }
+      }
+    }
+  }
+
+  // Cookie проверяются, только если заголовок Cookie задан в вызове явно
+  const cookieHeader = request.headers && findCookieHeader(request.headers);
+  if (cookieHeader) {
+    const cookieNames = new Set<string>();
+    // Смещения внутри значения переводятся в файл, только если литерал записан без escape-последовательностей
+    const exact = cookieHeader.getWidth() - 2 === cookieHeader.text.length;
+    for (const entry of parseCookieHeader(cookieHeader.text)) {
+      cookieNames.add(entry.name);
+      const parameter = findParameter(parameters, 'cookie', entry.name);
+      if (parameter) {
+        const valueStart = cookieHeader.getStart() + 1 + entry.end - entry.value.length;
+        checkParameterText(
+          entry.value,
+          parameter,
+          exact ? valueStart : cookieHeader.getStart(),
+          exact ? valueStart + entry.value.length : cookieHeader.getEnd(),
+          issues
+        );
+      }
+    }
+    for (const parameter of parameters) {
+      if (parameter.in === 'cookie' && parameter.required && !cookieNames.has(parameter.name)) {
+        issues.push({
+          kind: 'missing-required-parameter',
+          message: `Отсутствует обязательный cookie '${parameter.name}'`,
+          start: cookieHeader.getStart(),
+          end: cookieHeader.getEnd(),
+          parameter
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Находит значение заголовка Cookie в объекте заголовков, если оно задано строковым литералом.
+ * @param {ts.Expression} headers - Объект заголовков.
+ * @returns {ts.StringLiteral | ts.NoSubstitutionTemplateLiteral | undefined} Литерал значения заголовка.
+ */
+export function findCookieHeader(headers: ts.Expression): ts.StringLiteral | ts.NoSubstitutionTemplateLiteral | undefined {
+  const object = resolveObjectLiteral(headers);
+  const property = object && getObjectProperties(object).properties
+    .find(prop => prop.name && getPropertyName(prop.name)?.toLowerCase() === 'cookie');
+  const initializer = property && getPropertyValue(property);
+  const value = initializer && resolveExpression(initializer);
+  return value && (ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value)) ? value : undefined;
+}
+
+/**
+ * Находит параметр операции по месту передачи и имени (имена заголовков сравниваются без учета регистра).
+ * @param {SwaggerParameter[]} parameters - Параметры операции.
+ * @param {string} location - Место передачи ('path', 'query', 'header', 'cookie').
+ * @param {string} name - Имя параметра.
+ * @returns {SwaggerParameter | undefined} Параметр или `undefined`, если он не описан.
+ */
+export function findParameter(parameters: SwaggerParameter[], location: SwaggerParameter['in'], name: string): SwaggerParameter | undefined {
+  return parameters.find(parameter =>
+    parameter.in === location &&
+    (location === 'header' ? parameter.name.toLowerCase() === name.toLowerCase() : parameter.name === name)
+  );
+}
+
+/**
+ * Проверяет значения параметров в объектном литерале и собирает имена указанных параметров.
+ * Переменные и spread-выражения разрешаются в пределах файла.
+ * @returns {boolean} `true`, если известны все параметры объекта.
+ */
+function collectObjectParameters(
+  node: ts.Expression,
+  parameters: SwaggerParameter[],
+  location: SwaggerParameter['in'],
+  names: Set<string>,
+  issues: ParameterIssue[]
+): boolean {
+  const object = resolveObjectLiteral(node);
+  if (!object) {
+    return false;
+  }
+
+  const { properties, complete } = getObjectProperties(object);
+  for (const prop of properties) {
+    const name = prop.name ? getPropertyName(prop.name) : undefined;
+    if (name === undefined) {
+      continue;
+    }
+    names.add(location === 'header' ? name.toLowerCase() : name);
+
+    const parameter = findParameter(parameters, location, name);
+    const initializer = getPropertyValue(prop);
+    if (!parameter || !initializer) {
+      continue;
+    }
+
+    const value = resolveExpression(initializer);
+    if (ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value)) {
+      checkParameterText(value.text, parameter, value.getStart(), value.getEnd(), issues);
+    } else if (parameter.schema) {
+      for (const issue of validateSchemaValue(value, parameter.schema, name)) {
+        if (issue.kind === 'type-mismatch' || issue.kind === 'invalid-enum-value') {
+          issues.push({
+            kind: issue.kind,
+            message: issue.message,
+            start: issue.node.getStart(),
+            end: issue.node.getEnd(),
+            parameter
+          });
+        }
+      }
+    }
+  }
+  return complete;
+}
+
+/**
+ * Проверяет текстовое значение параметра: оно должно приводиться к типу схемы и входить в `enum`.
+ * Массивы и объекты (сериализуемые по-разному) не проверяются.
+ */
+function checkParameterText(text: string, parameter: SwaggerParameter, start: number, end: number, issues: ParameterIssue[]): void {
+  const schema = parameter.schema;
+  if (!schema || getSchemaVariants(schema).some(variant => variant.type === 'array' || variant.type === 'object')) {
+    return;
+  }
+
+  const label = `${PARAMETER_LABELS[parameter.in] ?? 'параметра'} '${parameter.name}'`;
+  const parsed = parseTextValue(text);
+  if (!schemaAcceptsType(schema, 'string') && !schemaAcceptsType(schema, parsed.type)) {
+    issues.push({
+      kind: 'type-mismatch',
+      message: `Ожидается тип '${getSchemaTypeLabel(schema)}' для ${label}, получено '${text}'`,
+      start,
+      end,
+      parameter
+    });
+  } else if (!schemaAcceptsValue(schema, text) && !schemaAcceptsValue(schema, parsed.value)) {
+    const allowedValues = getSchemaEnum(schema) ?? [];
+    issues.push({
+      kind: 'invalid-enum-value',
+      message: `Недопустимое значение ${JSON.stringify(text)} для ${label}. Допустимые значения: ${allowedValues.map(value => JSON.stringify(value)).join(', ')}`,
+      start,
+      end,
+      parameter
+    });
+  }
+}
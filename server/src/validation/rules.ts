@@ -0,0 +1,154 @@
+/**
+ * @module rules
+ * @description Правила проверки запросов: стабильные идентификаторы диагностик (`code`),
+ * важность по умолчанию и настройка важности по правилам через `myAjaxLsp.rules`.
+ * Идентификатор правила не меняется вместе с текстом сообщения, поэтому на него можно ссылаться
+ * в настройках, отчетах и комментариях подавления.
+ */
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+
+/**
+ * Идентификатор правила.
+ */
+export type RuleId =
+  | 'unknown-url'
+  | 'ambiguous-url'
+  | 'invalid-method'
+  | 'missing-required-parameter'
+  | 'missing-required-field'
+  | 'possibly-undefined-field'
+  | 'optional-required-field'
+  | 'unknown-field'
+  | 'type-mismatch'
+  | 'invalid-enum-value'
+  | 'unknown-response-field'
+  | 'duplicate-property'
+  | 'unused-suppression'
+  | 'unknown-suppressed-rule';
+
+/**
+ * Настраиваемая важность правила; 'off' выключает правило.
+ * @typedef {'off' | 'hint' | 'info' | 'warning' | 'error'} RuleSeverity
+ */
+export type RuleSeverity = 'off' | 'hint' | 'info' | 'warning' | 'error';
+
+/**
+ * Описание правила.
+ * @property {string} description - Краткое описание проверки.
+ * @property {RuleSeverity} defaultSeverity - Важность, если она не задана в настройках.
+ */
+export interface RuleDefinition {
+  description: string;
+  defaultSeverity: Exclude<RuleSeverity, 'off'>;
+}
+
+/**
+ * Правила в порядке описания в документации.
+ */
+export const RULES: { [id in RuleId]: RuleDefinition } = {
+  'unknown-url': { description: 'URL запроса не описан в спецификации', defaultSeverity: 'error' },
+  'ambiguous-url': { description: 'URL запроса одинаково подходит под несколько путей спецификации', defaultSeverity: 'warning' },
+  'invalid-method': { description: 'HTTP метод не описан для URL в спецификации', defaultSeverity: 'error' },
+  'missing-required-parameter': { description: 'Не передан обязательный параметр строки запроса, заголовок или cookie', defaultSeverity: 'error' },
+  'missing-required-field': { description: 'В теле запроса нет обязательного поля', defaultSeverity: 'error' },
+  'possibly-undefined-field': { description: 'Обязательное поле тела запроса может быть undefined по типу TypeScript', defaultSeverity: 'warning' },
+  'optional-required-field': { description: 'Обязательное поле тела запроса объявлено необязательным в типе TypeScript', defaultSeverity: 'warning' },
+  'unknown-field': { description: 'В теле запроса есть поле, не описанное в схеме', defaultSeverity: 'error' },
+  'type-mismatch': { description: 'Тип значения поля или параметра не соответствует схеме', defaultSeverity: 'warning' },
+  'invalid-enum-value': { description: 'Значение поля или параметра не входит в enum схемы', defaultSeverity: 'error' },
+  'unknown-response-field': { description: 'Обработчик ответа читает поле, не описанное в схеме ответа', defaultSeverity: 'warning' },
+  'duplicate-property': { description: 'Свойство объекта настроек запроса указано дважды', defaultSeverity: 'error' },
+  'unused-suppression': { description: 'Комментарий подавления не подавляет ни одной диагностики', defaultSeverity: 'warning' },
+  'unknown-suppressed-rule': { description: 'В комментарии подавления указано неизвестное правило', defaultSeverity: 'warning' }
+};
+
+const RULES_DOCUMENTATION_URL = 'https://github.com/nokkov/ajax-linter/blob/main/docs/rules.md';
+
+const SEVERITIES: { [severity in Exclude<RuleSeverity, 'off'>]: DiagnosticSeverity } = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  info: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint
+};
+
+/**
+ * Диагностика правила без полей, которые заполняются по правилу.
+ */
+export type RuleDiagnostic = Omit<Diagnostic, 'severity' | 'code' | 'codeDescription' | 'source'>;
+
+/**
+ * Проверяет, что строка — идентификатор известного правила.
+ */
+export function isRuleId(value: string): value is RuleId {
+  return Object.prototype.hasOwnProperty.call(RULES, value);
+}
+
+/**
+ * Проверяет, что строка — допустимая важность правила.
+ */
+export function isRuleSeverity(value: unknown): value is RuleSeverity {
+  return value === 'off' || (typeof value === 'string' && Object.prototype.hasOwnProperty.call(SEVERITIES, value));
+}
+
+/**
+ * Возвращает ссылку на описание правила в документации.
+ * @param {string} ruleId - Идентификатор правила.
+ * @returns {string} Адрес раздела документации.
+ */
+export function getRuleDocumentationUrl(ruleId: string): string {
+  return `${RULES_DOCUMENTATION_URL}#${ruleId}`;
+}
+
+/**
+ * Текущая важность правил. Модули функциональности создают диагностики через нее,
+ * поэтому изменение настроек сразу отражается на следующей проверке документов.
+ */
+export class RuleConfiguration {
+  private severities: { [id in RuleId]?: RuleSeverity } = {};
+
+  /**
+   * Заменяет настроенную важность правил.
+   * @param {Object.<string, string>} [overrides] - Важность по идентификаторам правил (значение `myAjaxLsp.rules`).
+   * @returns {string[]} Записи, которые не удалось применить (неизвестное правило или важность).
+   */
+  configure(overrides: { [ruleId: string]: unknown } | undefined): string[] {
+    this.severities = {};
+    const invalid: string[] = [];
+    for (const [ruleId, severity] of Object.entries(overrides ?? {})) {
+      if (isRuleId(ruleId) && isRuleSeverity(severity)) {
+        this.severities[ruleId] = severity;
+      } else {
+        invalid.push(`${ruleId}: ${String(severity)}`);
+      }
+    }
+    return invalid;
+  }
+
+  /**
+   * Возвращает действующую важность правила.
+   */
+  getSeverity(ruleId: RuleId): RuleSeverity {
+    return this.severities[ruleId] ?? RULES[ruleId].defaultSeverity;
+  }
+
+  /**
+   * Создает диагностику правила: заполняет важность, код, ссылку на документацию и источник.
+   * @param {RuleId} ruleId - Правило.
+   * @param {RuleDiagnostic} diagnostic - Диапазон, сообщение и связанная информация.
+   * @returns {Diagnostic | undefined} Диагностика или `undefined`, если правило выключено.
+   */
+  createDiagnostic(ruleId: RuleId, diagnostic: RuleDiagnostic): Diagnostic | undefined {
+    const severity = this.getSeverity(ruleId);
+    if (severity === 'off') {
+      return undefined;
+    }
+    return {
+      ...diagnostic,
+      severity: SEVERITIES[severity],
+      code: ruleId,
+      codeDescription: { href: getRuleDocumentationUrl(ruleId) },
+      source: 'swagger-lsp'
+    };
+  }
+}
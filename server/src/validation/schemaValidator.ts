@@ -0,0 +1,450 @@
+/**
+ * @module schemaValidator
+ * @description Рекурсивная проверка литералов из кода (объектов, массивов и простых значений)
+ * по схеме Swagger. Обходит вложенные `ObjectLiteralExpression` и `ArrayLiteralExpression`
+ * и сообщает о проблемах на любой глубине с точным узлом для диапазона диагностики.
+ * Значения-переменные и spread-выражения разрешаются в пределах файла (см. valueResolver),
+ * поэтому диагностики указывают на литерал в месте его объявления.
+ */
+
+import * as ts from 'typescript';
+
+import { SwaggerSchema } from '../types/swagger';
+import { getLiteralValue, getNodeType, getPropertyName } from '../utils/utils';
+import { rankSimilarStrings } from '../utils/stringUtils';
+import {
+  getSchemaEnum,
+  getSchemaTypeLabel,
+  getSchemaVariants,
+  schemaAcceptsType,
+  schemaAcceptsValue,
+  selectObjectVariant
+} from '../utils/schemaUtils';
+import { getObjectProperties, getPropertyValue, resolveExpression } from '../evaluation/valueResolver';
+import { RuleId } from './rules';
+
+/**
+ * Вид проблемы, найденной при проверке по схеме (идентификатор правила).
+ */
+export type SchemaIssueKind = Extract<RuleId,
+  'missing-required-field' | 'possibly-undefined-field' | 'optional-required-field' | 'unknown-field' | 'type-mismatch' | 'invalid-enum-value'>;
+
+/**
+ * Проблема, найденная при проверке значения по схеме.
+ * @property {SchemaIssueKind} kind - Вид проблемы.
+ * @property {ts.Node} node - Узел, на который указывает диагностика.
+ * @property {string} message - Сообщение для пользователя.
+ * @property {string} [field] - Имя поля, к которому относится проблема.
+ * @property {SwaggerSchema} [schema] - Схема объекта, в котором найдена проблема.
+ * @property {string[]} [suggestions] - Похожие допустимые имена для неизвестного поля, начиная с самого близкого.
+ */
+export interface SchemaIssue {
+  kind: SchemaIssueKind;
+  node: ts.Node;
+  message: string;
+  field?: string;
+  schema?: SwaggerSchema;
+  suggestions?: string[];
+}
+
+type PathSegment = string | number;
+
+/**
+ * Общие параметры одной проверки.
+ * @property {string} rootName - Имя корня для сообщений.
+ * @property {ts.TypeChecker} [checker] - Средство проверки типов программы, которой принадлежит выражение.
+ * @property {Set<ts.Type>} typeStack - Типы объектов, проверяемые в данный момент (защита от рекурсивных типов).
+ * @property {SchemaIssue[]} issues - Найденные проблемы.
+ */
+interface ValidationContext {
+  rootName: string;
+  checker?: ts.TypeChecker;
+  typeStack: Set<ts.Type>;
+  issues: SchemaIssue[];
+}
+
+/**
+ * Проверяет выражение из кода по схеме Swagger.
+ * Литералы проверяются по синтаксису. Остальные выражения (переменные, вызовы, обращения к свойствам)
+ * проверяются по объявленному или выведенному типу, если передан `checker`, иначе пропускаются.
+ * @param {ts.Expression} node - Проверяемое выражение (например, значение свойства `data`).
+ * @param {SwaggerSchema} schema - Схема, которой должно соответствовать значение.
+ * @param {string} rootName - Имя корня для сообщений (например, 'data').
+ * @param {ts.TypeChecker} [checker] - Средство проверки типов программы, которой принадлежит выражение.
+ * @returns {SchemaIssue[]} Найденные проблемы.
+ */
+export function validateSchemaValue(node: ts.Expression, schema: SwaggerSchema, rootName: string, checker?: ts.TypeChecker): SchemaIssue[] {
+  const context: ValidationContext = { rootName, checker, typeStack: new Set(), issues: [] };
+  validateValue(node, schema, [], false, context);
+  return context.issues;
+}
+
+function validateValue(
+  node: ts.Expression,
+  schema: SwaggerSchema,
+  path: PathSegment[],
+  required: boolean,
+  context: ValidationContext
+): void {
+  const { issues } = context;
+  node = resolveExpression(node);
+  const nodeType = getNodeType(node);
+  if (!nodeType) {
+    if (context.checker) {
+      validateType(node, context.checker.getTypeAtLocation(node), schema, path, required, context);
+    }
+    return;
+  }
+
+  const fieldLabel = formatFieldPath(context, path);
+  if (!schemaAcceptsType(schema, nodeType)) {
+    issues.push({
+      kind: 'type-mismatch',
+      node,
+      message: `Ожидается тип '${getSchemaTypeLabel(schema)}' для поля '${fieldLabel}', получен '${nodeType}'`,
+      field: fieldLabel
+    });
+    return;
+  }
+
+  const literal = getLiteralValue(node);
+  if (literal && !schemaAcceptsValue(schema, literal.value)) {
+    const allowedValues = getSchemaEnum(schema) ?? [];
+    issues.push({
+      kind: 'invalid-enum-value',
+      node,
+      message: `Недопустимое значение ${JSON.stringify(literal.value)} для поля '${fieldLabel}'. Допустимые значения: ${allowedValues.map(value => JSON.stringify(value)).join(', ')}`,
+      field: fieldLabel
+    });
+  } else if (ts.isObjectLiteralExpression(node)) {
+    validateObject(node, schema, path, context);
+  } else if (ts.isArrayLiteralExpression(node)) {
+    validateArray(node, schema, path, context);
+  }
+}
+
+function validateObject(
+  node: ts.ObjectLiteralExpression,
+  schema: SwaggerSchema,
+  path: PathSegment[],
+  context: ValidationContext
+): void {
+  const { issues } = context;
+  const { properties: objectProps, complete } = getObjectProperties(node);
+  const presentKeys = objectProps
+    .map(prop => prop.name ? getPropertyName(prop.name) : undefined)
+    .filter((name): name is string => name !== undefined);
+  const objectSchema = selectObjectVariant(schema, presentKeys);
+  if (!objectSchema) {
+    return;
+  }
+
+  const objectLabel = formatFieldPath(context, path);
+  const properties = objectSchema.properties ?? {};
+  const additionalProps = objectSchema.additionalProperties;
+  // Без описанных свойств объект считается свободным, если additionalProperties явно не запрещены
+  const allowsUnknown = additionalProps !== undefined ? additionalProps !== false : !objectSchema.properties;
+
+  // Если хотя бы одно spread-выражение не разрешилось, набор полей неизвестен и обязательные поля не проверяем
+  if (complete) {
+    for (const requiredProp of objectSchema.required ?? []) {
+      if (!presentKeys.includes(requiredProp)) {
+        issues.push({
+          kind: 'missing-required-field',
+          node,
+          message: `Отсутствует обязательное поле '${requiredProp}' в ${objectLabel}`,
+          field: requiredProp,
+          schema: objectSchema
+        });
+      }
+    }
+  }
+
+  for (const prop of objectProps) {
+    if (!ts.isPropertyAssignment(prop) && !ts.isShorthandPropertyAssignment(prop)) {
+      continue;
+    }
+    const propName = getPropertyName(prop.name);
+    if (propName === undefined) {
+      continue;
+    }
+
+    const propSchema = properties[propName] ?? (typeof additionalProps === 'object' ? additionalProps : undefined);
+    if (!propSchema) {
+      if (!allowsUnknown) {
+        // Предлагаем только поля, которых еще нет в объекте
+        const candidates = Object.keys(properties).filter(name => !presentKeys.includes(name));
+        const suggestions = rankSimilarStrings(propName, candidates);
+        issues.push({
+          kind: 'unknown-field',
+          node: prop.name,
+          message: `Неизвестное поле: '${propName}' в ${objectLabel}${formatSuggestions(suggestions)}`,
+          field: propName,
+          schema: objectSchema,
+          suggestions
+        });
+      }
+    } else {
+      const required = objectSchema.required?.includes(propName) ?? false;
+      validateValue(getPropertyValue(prop)!, propSchema, [...path, propName], required, context);
+    }
+  }
+}
+
+function validateArray(
+  node: ts.ArrayLiteralExpression,
+  schema: SwaggerSchema,
+  path: PathSegment[],
+  context: ValidationContext
+): void {
+  const itemsSchema = getSchemaVariants(schema).find(variant => variant.items)?.items;
+  if (!itemsSchema) {
+    return;
+  }
+
+  node.elements.forEach((element, index) => {
+    if (!ts.isSpreadElement(element) && !ts.isOmittedExpression(element)) {
+      validateValue(element, itemsSchema, [...path, index], false, context);
+    }
+  });
+}
+
+/**
+ * Проверяет выражение по его типу: каждый вариант объединения должен подходить под схему,
+ * `undefined` в типе обязательного поля считается возможным отсутствием поля.
+ * Типы `any` и `unknown`, функции и параметры типа без ограничений не проверяются.
+ */
+function validateType(
+  node: ts.Expression,
+  type: ts.Type,
+  schema: SwaggerSchema,
+  path: PathSegment[],
+  required: boolean,
+  context: ValidationContext
+): void {
+  const checker = context.checker!;
+  if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+    return;
+  }
+
+  const fieldLabel = formatFieldPath(context, path);
+  const typeText = checker.typeToString(type);
+  const members = type.isUnion() ? type.types : [type];
+  const definedMembers = members.filter(member => !(member.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)));
+  if (required && definedMembers.length < members.length) {
+    context.issues.push({
+      kind: 'possibly-undefined-field',
+      node,
+      message: `Обязательное поле '${fieldLabel}' может быть undefined (тип '${typeText}')`,
+      field: fieldLabel
+    });
+  }
+
+  const nestedMembers: { type: ts.Type, valueType: string }[] = [];
+  for (const member of definedMembers) {
+    const valueType = getTypeValueType(member, checker);
+    if (!valueType) {
+      continue;
+    }
+    if (!schemaAcceptsType(schema, valueType)) {
+      context.issues.push({
+        kind: 'type-mismatch',
+        node,
+        message: `Ожидается тип '${getSchemaTypeLabel(schema)}' для поля '${fieldLabel}', получен '${typeText}'`,
+        field: fieldLabel
+      });
+      return;
+    }
+
+    const literal = getTypeLiteralValue(member, checker);
+    if (literal && !schemaAcceptsValue(schema, literal.value)) {
+      const allowedValues = getSchemaEnum(schema) ?? [];
+      context.issues.push({
+        kind: 'invalid-enum-value',
+        node,
+        message: `Недопустимое значение ${JSON.stringify(literal.value)} для поля '${fieldLabel}' (тип '${typeText}'). Допустимые значения: ${allowedValues.map(value => JSON.stringify(value)).join(', ')}`,
+        field: fieldLabel
+      });
+      return;
+    }
+    if (valueType === 'object' || valueType === 'array') {
+      nestedMembers.push({ type: member, valueType });
+    }
+  }
+
+  for (const { type: member, valueType } of nestedMembers) {
+    if (context.typeStack.has(member)) {
+      continue;
+    }
+    context.typeStack.add(member);
+    if (valueType === 'object') {
+      validateObjectType(node, member, schema, path, context);
+    } else {
+      const itemsSchema = getSchemaVariants(schema).find(variant => variant.items)?.items;
+      const elementTypes = checker.isTupleType(member)
+        ? checker.getTypeArguments(member as ts.TypeReference)
+        : [checker.getIndexTypeOfType(member, ts.IndexKind.Number)];
+      for (const elementType of elementTypes) {
+        if (itemsSchema && elementType) {
+          validateType(node, elementType, itemsSchema, [...path, 0], false, context);
+        }
+      }
+    }
+    context.typeStack.delete(member);
+  }
+}
+
+/**
+ * Проверяет свойства объектного типа (интерфейса, псевдонима типа, выведенного типа) по схеме объекта.
+ * Методы не учитываются: они не попадают в JSON. Для типов с индексной сигнатурой набор полей неизвестен,
+ * поэтому обязательные и неизвестные поля в них не проверяются.
+ */
+function validateObjectType(
+  node: ts.Expression,
+  type: ts.Type,
+  schema: SwaggerSchema,
+  path: PathSegment[],
+  context: ValidationContext
+): void {
+  const checker = context.checker!;
+  const typeProps = checker.getPropertiesOfType(type).filter(prop => !(prop.flags & ts.SymbolFlags.Method));
+  const presentKeys = typeProps.map(prop => prop.name);
+  const objectSchema = selectObjectVariant(schema, presentKeys);
+  if (!objectSchema) {
+    return;
+  }
+
+  const objectLabel = formatFieldPath(context, path);
+  const typeText = checker.typeToString(type);
+  const properties = objectSchema.properties ?? {};
+  const additionalProps = objectSchema.additionalProperties;
+  const allowsUnknown = additionalProps !== undefined ? additionalProps !== false : !objectSchema.properties;
+  const hasIndexSignature = checker.getIndexInfosOfType(type).length > 0;
+
+  if (!hasIndexSignature) {
+    for (const requiredProp of objectSchema.required ?? []) {
+      if (!presentKeys.includes(requiredProp)) {
+        context.issues.push({
+          kind: 'missing-required-field',
+          node,
+          message: `Отсутствует обязательное поле '${requiredProp}' в ${objectLabel} (тип '${typeText}')`,
+          field: requiredProp,
+          schema: objectSchema
+        });
+      }
+    }
+  }
+
+  for (const prop of typeProps) {
+    const propSchema = properties[prop.name] ?? (typeof additionalProps === 'object' ? additionalProps : undefined);
+    if (!propSchema) {
+      if (!allowsUnknown && !hasIndexSignature) {
+        const candidates = Object.keys(properties).filter(name => !presentKeys.includes(name));
+        const suggestions = rankSimilarStrings(prop.name, candidates);
+        context.issues.push({
+          kind: 'unknown-field',
+          node,
+          message: `Неизвестное поле: '${prop.name}' в ${objectLabel} (тип '${typeText}')${formatSuggestions(suggestions)}`,
+          field: prop.name,
+          schema: objectSchema,
+          suggestions
+        });
+      }
+      continue;
+    }
+
+    const fieldPath = [...path, prop.name];
+    let required = objectSchema.required?.includes(prop.name) ?? false;
+    // Необязательное свойство типа (`name?: string`) может отсутствовать даже без `undefined` в типе
+    if (required && (prop.flags & ts.SymbolFlags.Optional)) {
+      const fieldLabel = formatFieldPath(context, fieldPath);
+      context.issues.push({
+        kind: 'optional-required-field',
+        node,
+        message: `Обязательное поле '${fieldLabel}' объявлено необязательным в типе '${typeText}'`,
+        field: fieldLabel
+      });
+      required = false;
+    }
+    validateType(node, checker.getTypeOfSymbolAtLocation(prop, node), propSchema, fieldPath, required, context);
+  }
+}
+
+/**
+ * Тип значения схемы, соответствующий типу TypeScript ('string', 'integer', 'object' и т. д.).
+ * Возвращает `undefined` для типов, которые нельзя сопоставить со схемой.
+ */
+function getTypeValueType(type: ts.Type, checker: ts.TypeChecker): string | undefined {
+  if (type.flags & ts.TypeFlags.StringLike) {
+    return 'string';
+  }
+  if (type.flags & ts.TypeFlags.NumberLike) {
+    return type.isNumberLiteral() && Number.isInteger(type.value) ? 'integer' : 'number';
+  }
+  if (type.flags & ts.TypeFlags.BigIntLike) {
+    return 'integer';
+  }
+  if (type.flags & ts.TypeFlags.BooleanLike) {
+    return 'boolean';
+  }
+  if (type.flags & ts.TypeFlags.Null) {
+    return 'null';
+  }
+  if (type.flags & ts.TypeFlags.TypeParameter) {
+    const constraint = checker.getBaseConstraintOfType(type);
+    return constraint && constraint !== type ? getTypeValueType(constraint, checker) : undefined;
+  }
+  if (checker.isArrayType(type) || checker.isTupleType(type)) {
+    return 'array';
+  }
+  if (type.flags & (ts.TypeFlags.Object | ts.TypeFlags.Intersection | ts.TypeFlags.NonPrimitive)) {
+    if (type.getCallSignatures().length > 0) {
+      return undefined;
+    }
+    // Date сериализуется в JSON строкой
+    return type.getSymbol()?.getName() === 'Date' ? 'string' : 'object';
+  }
+  return undefined;
+}
+
+/**
+ * Значение литерального типа (`'asc'`, `5`, `true`) для проверки по `enum`.
+ */
+function getTypeLiteralValue(type: ts.Type, checker: ts.TypeChecker): { value: string | number | boolean } | undefined {
+  if (type.isStringLiteral() || type.isNumberLiteral()) {
+    return { value: type.value };
+  }
+  if (type.flags & ts.TypeFlags.BooleanLiteral) {
+    return { value: checker.typeToString(type) === 'true' };
+  }
+  return undefined;
+}
+
+/**
+ * Дополнение сообщения похожими именами, например `. Возможно, имелось в виду: 'email'`.
+ * @param {string[]} suggestions - Похожие имена.
+ * @returns {string} Дополнение сообщения или пустая строка, если похожих имен нет.
+ */
+export function formatSuggestions(suggestions: string[]): string {
+  return suggestions.length > 0 ? `. Возможно, имелось в виду: ${suggestions.map(name => `'${name}'`).join(', ')}` : '';
+}
+
+/**
+ * Путь к полю или объекту для сообщений: от корня, например 'data.items[0].quantity'.
+ * Поля и объекты называются одинаково, чтобы одно и то же место тела выглядело в диагностиках одинаково.
+ */
+function formatFieldPath(context: ValidationContext, path: PathSegment[]): string {
+  return formatPath([context.rootName, ...path]);
+}
+
+/**
+ * Форматирует путь к полю, например ['data', 'items', 0, 'quantity'] -> 'data.items[0].quantity'.
+ */
+function formatPath(path: PathSegment[]): string {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') {
+      return `${result}[${segment}]`;
+    }
+    return result ? `${result}.${segment}` : segment;
+  }, '');
+}
@@ -0,0 +1,178 @@
+/**
+ * @module suppressions
+ * @description Комментарии подавления диагностик:
+ * `// ajax-linter-disable-next-line [правила]` — следующая строка,
+ * `/* ajax-linter-disable [правила] *\/ ... /* ajax-linter-enable [правила] *\/` — участок файла.
+ * Отключение без парного включения действует до конца файла, поэтому комментарий в начале файла отключает проверки во всем файле.
+ * Без списка правил комментарий относится ко всем правилам; после `--` можно указать пояснение.
+ * Комментарии читаются из `ts.SourceFile`, так что директивы внутри строк и шаблонов не учитываются.
+ */
+
+import * as ts from 'typescript';
+import { Diagnostic } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { isRuleId, RuleConfiguration } from './rules';
+
+const DIRECTIVE_PREFIX = 'ajax-linter-';
+const DIRECTIVE_PATTERN = /^ajax-linter-(disable-next-line|disable|enable)(?=\s|$)(.*)$/s;
+
+/**
+ * Вид комментария подавления.
+ * @typedef {'disable-next-line' | 'disable' | 'enable'} SuppressionKind
+ */
+export type SuppressionKind = 'disable-next-line' | 'disable' | 'enable';
+
+/**
+ * Комментарий подавления.
+ * @property {SuppressionKind} kind - Вид комментария.
+ * @property {string[]} [rules] - Правила из комментария; без списка комментарий относится ко всем правилам.
+ * @property {number} start - Начало комментария (смещение в файле).
+ * @property {number} end - Конец комментария (смещение в файле).
+ */
+export interface SuppressionDirective {
+  kind: SuppressionKind;
+  rules?: string[];
+  start: number;
+  end: number;
+}
+
+/**
+ * Находит комментарии подавления в файле.
+ * @param {ts.SourceFile} sourceFile - Синтаксическое дерево файла.
+ * @returns {SuppressionDirective[]} Комментарии в порядке следования.
+ */
+export function parseSuppressions(sourceFile: ts.SourceFile): SuppressionDirective[] {
+  const text = sourceFile.text;
+  if (!text.includes(DIRECTIVE_PREFIX)) {
+    return [];
+  }
+
+  // Комментарии не входят в дерево: они собираются из промежутков перед узлами и после них
+  const comments = new Map<number, ts.CommentRange>();
+  const addComments = (ranges: ts.CommentRange[] | undefined) => ranges?.forEach(range => comments.set(range.pos, range));
+  const visit = (node: ts.Node) => {
+    addComments(ts.getLeadingCommentRanges(text, node.pos));
+    addComments(ts.getTrailingCommentRanges(text, node.end));
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  addComments(ts.getLeadingCommentRanges(text, sourceFile.endOfFileToken.pos));
+
+  const directives: SuppressionDirective[] = [];
+  for (const comment of [...comments.values()].sort((a, b) => a.pos - b.pos)) {
+    const body = comment.kind === ts.SyntaxKind.SingleLineCommentTrivia
+      ? text.slice(comment.pos + 2, comment.end)
+      : text.slice(comment.pos + 2, comment.end - 2);
+    const match = DIRECTIVE_PATTERN.exec(body.trim());
+    if (!match) {
+      continue;
+    }
+    // Пояснение после `--` не относится к списку правил
+    const rules = match[2].split('--')[0].split(/[\s,]+/).filter(rule => rule !== '');
+    directives.push({
+      kind: match[1] as SuppressionKind,
+      rules: rules.length > 0 ? rules : undefined,
+      start: comment.pos,
+      end: comment.end
+    });
+  }
+  return directives;
+}
+
+/**
+ * Убирает подавленные диагностики и сообщает о неиспользуемых комментариях и неизвестных правилах в них.
+ * @param {Diagnostic[]} diagnostics - Диагностики файла.
+ * @param {SuppressionDirective[]} directives - Комментарии подавления файла.
+ * @param {TextDocument} document - Документ файла.
+ * @param {RuleConfiguration} rules - Важность правил (в том числе правил о комментариях подавления).
+ * @returns {Diagnostic[]} Оставшиеся диагностики и диагностики комментариев.
+ */
+export function applySuppressions(
+  diagnostics: Diagnostic[],
+  directives: SuppressionDirective[],
+  document: TextDocument,
+  rules: RuleConfiguration
+): Diagnostic[] {
+  if (directives.length === 0) {
+    return diagnostics;
+  }
+
+  const usedRules = new Map<SuppressionDirective, Set<string>>(directives.map(directive => [directive, new Set()]));
+  const remaining = diagnostics.filter(diagnostic => {
+    const directive = findSuppression(diagnostic, directives, document);
+    if (directive) {
+      usedRules.get(directive)!.add(String(diagnostic.code));
+    }
+    return !directive;
+  });
+
+  for (const directive of directives) {
+    const range = { start: document.positionAt(directive.start), end: document.positionAt(directive.end) };
+    const unknownRules = directive.rules?.filter(rule => !isRuleId(rule)) ?? [];
+    for (const rule of unknownRules) {
+      pushDiagnostic(remaining, rules.createDiagnostic('unknown-suppressed-rule', {
+        range,
+        message: `Неизвестное правило в комментарии подавления: '${rule}'`
+      }));
+    }
+
+    // Комментарий включения ничего не подавляет сам по себе
+    if (directive.kind === 'enable') {
+      continue;
+    }
+    const used = usedRules.get(directive)!;
+    if (!directive.rules) {
+      if (used.size === 0) {
+        pushDiagnostic(remaining, rules.createDiagnostic('unused-suppression', {
+          range,
+          message: 'Комментарий подавления не используется: в его области нет диагностик'
+        }));
+      }
+      continue;
+    }
+    for (const rule of directive.rules.filter(rule => isRuleId(rule) && !used.has(rule))) {
+      pushDiagnostic(remaining, rules.createDiagnostic('unused-suppression', {
+        range,
+        message: `Комментарий подавления не используется: в его области нет диагностик правила '${rule}'`
+      }));
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Возвращает комментарий, который подавляет диагностику, или `undefined`.
+ * Для участков действует последний комментарий отключения или включения перед диагностикой, относящийся к ее правилу.
+ */
+function findSuppression(diagnostic: Diagnostic, directives: SuppressionDirective[], document: TextDocument): SuppressionDirective | undefined {
+  const ruleId = String(diagnostic.code);
+  const offset = document.offsetAt(diagnostic.range.start);
+  const appliesTo = (directive: SuppressionDirective) => !directive.rules || directive.rules.includes(ruleId);
+
+  const nextLine = directives.find(directive =>
+    directive.kind === 'disable-next-line' &&
+    appliesTo(directive) &&
+    document.positionAt(directive.end).line + 1 === diagnostic.range.start.line
+  );
+  if (nextLine) {
+    return nextLine;
+  }
+
+  let blockDirective: SuppressionDirective | undefined;
+  for (const directive of directives) {
+    if (directive.end > offset) {
+      break;
+    }
+    if (directive.kind !== 'disable-next-line' && appliesTo(directive)) {
+      blockDirective = directive.kind === 'disable' ? directive : undefined;
+    }
+  }
+  return blockDirective;
+}
+
+function pushDiagnostic(diagnostics: Diagnostic[], diagnostic: Diagnostic | undefined): void {
+  if (diagnostic) {
+    diagnostics.push(diagnostic);
+  }
+}
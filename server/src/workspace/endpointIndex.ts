@@ -0,0 +1,147 @@
+/**
+ * @module endpointIndex
+ * @description Индекс вызовов эндпоинтов спецификации во всех файлах рабочей области.
+ * Для каждого вызова HTTP-клиента хранится шаблон пути, найденный по URL (`getMatchingSwaggerUrl`),
+ * поэтому перед изменением маршрута на бэкенде можно найти все места его вызова на фронтенде.
+ */
+
+import * as ts from 'typescript';
+import { Location, Position, SymbolInformation, SymbolKind } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { EndpointReference, FeatureManager } from '../features/feature';
+import { WorkspaceDiagnostics } from './workspaceDiagnostics';
+
+/**
+ * Вызов эндпоинта в файле рабочей области.
+ * @property {string} uri - URI файла.
+ */
+export interface EndpointCall extends EndpointReference {
+  uri: string;
+}
+
+/**
+ * Находит вызовы эндпоинтов спецификации в документе.
+ * @param {FeatureManager} featureManager - Менеджер модулей функциональности.
+ * @param {ts.SourceFile} sourceFile - Синтаксическое дерево документа.
+ * @param {TextDocument} document - Документ.
+ * @returns {EndpointReference[]} Вызовы в порядке следования в документе.
+ */
+export function collectEndpointReferences(featureManager: FeatureManager, sourceFile: ts.SourceFile, document: TextDocument): EndpointReference[] {
+  const references: EndpointReference[] = [];
+  const nodeTypeToFeatures = featureManager.getEndpointFeaturesByNodeType();
+
+  ts.forEachChild(sourceFile, function visit(node) {
+    const relevantFeatures = nodeTypeToFeatures.get(node.kind) || [];
+    for (const feature of relevantFeatures) {
+      const reference = feature.matches(node) ? feature.provideEndpointReference(node, document) : undefined;
+      if (reference) {
+        references.push(reference);
+      }
+    }
+    ts.forEachChild(node, visit);
+  });
+
+  return references;
+}
+
+/**
+ * Возвращает имя операции вызова, например 'PUT /api/users/{userId}'.
+ * Если метод неизвестен, имя состоит из шаблона пути.
+ */
+export function getOperationName(reference: EndpointReference): string {
+  return reference.method ? `${reference.method.toUpperCase()} ${reference.template}` : reference.template;
+}
+
+/**
+ * Индекс вызовов эндпоинтов. Вызовы файла пересчитываются вместе с его диагностиками:
+ * после изменения файла, спецификации или настроек.
+ */
+export class EndpointIndex {
+  private readonly calls = new Map<string, { key: string, calls: EndpointCall[] }>();
+
+  constructor(
+    private readonly workspace: WorkspaceDiagnostics,
+    private readonly featureManager: FeatureManager
+  ) {}
+
+  /**
+   * Возвращает вызовы эндпоинтов в файле.
+   * @param {string} uri - URI файла.
+   * @returns {EndpointCall[]} Вызовы файла.
+   */
+  getCalls(uri: string): EndpointCall[] {
+    const cached = this.calls.get(uri);
+    if (cached && cached.key === this.workspace.getFileKey(uri)) {
+      return cached.calls;
+    }
+
+    const file = this.workspace.getFile(uri);
+    if (!file) {
+      this.calls.delete(uri);
+      return [];
+    }
+    const calls = collectEndpointReferences(this.featureManager, file.sourceFile, file.document)
+      .map(reference => ({ ...reference, uri }));
+    this.calls.set(uri, { key: file.key, calls });
+    return calls;
+  }
+
+  /**
+   * Возвращает вызовы эндпоинтов во всех файлах рабочей области.
+   */
+  getAllCalls(): EndpointCall[] {
+    const uris = this.workspace.getUris();
+    // Удаленные файлы больше не участвуют в поиске
+    const current = new Set(uris);
+    [...this.calls.keys()].filter(uri => !current.has(uri)).forEach(uri => this.calls.delete(uri));
+    return uris.flatMap(uri => this.getCalls(uri));
+  }
+
+  /**
+   * Находит все вызовы эндпоинта, URL которого находится под курсором.
+   * @param {string} uri - URI документа.
+   * @param {Position} position - Позиция курсора.
+   * @returns {Location[]} Места вызова эндпоинта во всех файлах; пустой список, если курсор не на URL эндпоинта.
+   */
+  findReferences(uri: string, position: Position): Location[] {
+    const target = this.getCalls(uri).find(call => containsPosition(call, position));
+    if (!target) {
+      return [];
+    }
+    return this.getAllCalls()
+      .filter(call => call.template === target.template)
+      .map(call => Location.create(call.uri, call.range));
+  }
+
+  /**
+   * Возвращает символы рабочей области: по одному на каждый вызов эндпоинта, с именем операции.
+   * @param {string} query - Строка поиска; символы запроса должны встречаться в имени по порядку, без учета регистра.
+   * @returns {SymbolInformation[]} Символы, подходящие под запрос.
+   */
+  findSymbols(query: string): SymbolInformation[] {
+    return this.getAllCalls()
+      .map(call => ({ call, name: getOperationName(call) }))
+      .filter(({ name }) => matchesQuery(name, query))
+      .map(({ call, name }) => SymbolInformation.create(name, SymbolKind.Method, call.range, call.uri));
+  }
+}
+
+function containsPosition(call: EndpointCall, position: Position): boolean {
+  const { start, end } = call.range;
+  const afterStart = position.line > start.line || (position.line === start.line && position.character >= start.character);
+  const beforeEnd = position.line < end.line || (position.line === end.line && position.character <= end.character);
+  return afterStart && beforeEnd;
+}
+
+function matchesQuery(name: string, query: string): boolean {
+  const lowerName = name.toLowerCase();
+  let index = 0;
+  for (const char of query.toLowerCase().replace(/\s+/g, '')) {
+    index = lowerName.indexOf(char, index) + 1;
+    if (index === 0) {
+      return false;
+    }
+  }
+  return true;
+}
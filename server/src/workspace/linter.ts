@@ -0,0 +1,167 @@
+/**
+ * @module linter
+ * @description Конвейер диагностик, общий для языкового сервера и консольной утилиты `ajax-linter`:
+ * набор модулей функциональности, обход синтаксического дерева документа и проверка файлов проекта.
+ * Редактор и CI получают одни и те же диагностики.
+ */
+
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Diagnostic } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { FeatureManager } from '../features/feature';
+import { AjaxFeature } from '../features/ajaxFeature';
+import { FetchFeature } from '../features/fetchFeature';
+import { AxiosFeature } from '../features/axiosFeature';
+import { JQueryShorthandFeature } from '../features/jqueryShorthandFeature';
+import { SpecRegistry } from '../spec/specRegistry';
+import { RuleConfiguration } from '../validation/rules';
+import { applySuppressions, parseSuppressions } from '../validation/suppressions';
+import { findProjectConfig, TypeScriptService } from './typeScriptService';
+
+// Расширения файлов, которые проверяются в проекте
+export const SOURCE_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs'];
+// Каталоги, которые не проверяются никогда
+const EXCLUDED_PATTERNS = ['**/node_modules/**'];
+// Каталоги сборки, которые не проверяются в рабочей области без tsconfig.json или jsconfig.json
+const BUILD_PATTERNS = ['**/out/**', '**/dist/**', '**/build/**', '**/coverage/**'];
+
+/**
+ * Результат проверки файла.
+ * @property {string} filePath - Абсолютный путь к файлу.
+ * @property {TextDocument} document - Документ файла (для перевода позиций).
+ * @property {Diagnostic[]} diagnostics - Диагностики файла.
+ */
+export interface FileDiagnostics {
+  filePath: string;
+  document: TextDocument;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Создает менеджер со всеми модулями функциональности HTTP-клиентов.
+ * @param {SpecRegistry} specRegistry - Реестр спецификации.
+ * @param {TypeScriptService} [typeScriptService] - Языковая служба для проверки по типам.
+ * @param {RuleConfiguration} [rules] - Важность правил.
+ * @returns {FeatureManager} Менеджер модулей функциональности.
+ */
+export function createFeatureManager(specRegistry: SpecRegistry, typeScriptService?: TypeScriptService, rules?: RuleConfiguration): FeatureManager {
+  const featureManager = new FeatureManager();
+  featureManager.register(new AjaxFeature(specRegistry, typeScriptService, rules));
+  featureManager.register(new JQueryShorthandFeature(specRegistry, typeScriptService, rules));
+  featureManager.register(new FetchFeature(specRegistry, typeScriptService, rules));
+  featureManager.register(new AxiosFeature(specRegistry, typeScriptService, rules));
+  return featureManager;
+}
+
+/**
+ * Собирает диагностики документа: обходит синтаксическое дерево и передает узлы подходящим модулям.
+ * Диагностики, подавленные комментариями `ajax-linter-disable*`, убираются.
+ * @param {FeatureManager} featureManager - Менеджер модулей функциональности.
+ * @param {ts.SourceFile} sourceFile - Синтаксическое дерево документа.
+ * @param {TextDocument} document - Документ.
+ * @param {RuleConfiguration} [rules] - Важность правил о комментариях подавления.
+ * @returns {Diagnostic[]} Диагностики документа.
+ */
+export function collectDiagnostics(
+  featureManager: FeatureManager,
+  sourceFile: ts.SourceFile,
+  document: TextDocument,
+  rules = new RuleConfiguration()
+): Diagnostic[] {
+  const suppressions = parseSuppressions(sourceFile);
+  const diagnostics: Diagnostic[] = [];
+  const nodeTypeToFeatures = featureManager.getDiagnosticFeaturesByNodeType();
+
+  ts.forEachChild(sourceFile, function visit(node) {
+    const relevantFeatures = nodeTypeToFeatures.get(node.kind) || [];
+    for (const feature of relevantFeatures) {
+      if (feature.matches(node)) {
+        feature.provideDiagnostics(node, document, diagnostics);
+      }
+    }
+    ts.forEachChild(node, visit);
+  });
+
+  return applySuppressions(diagnostics, suppressions, document, rules);
+}
+
+/**
+ * Находит исходные файлы проекта по шаблонам (синтаксис шаблонов `include` из tsconfig.json).
+ * Каталоги node_modules пропускаются.
+ * @param {string} rootPath - Корень проекта, относительно которого заданы шаблоны.
+ * @param {string[]} patterns - Шаблоны, например ['src/**\/*.js']. Пустой список — все исходные файлы.
+ * @returns {string[]} Абсолютные пути файлов в порядке сортировки.
+ */
+export function findSourceFiles(rootPath: string, patterns: string[]): string[] {
+  const include = patterns.length > 0 ? patterns : ['**/*'];
+  return ts.sys.readDirectory(rootPath, SOURCE_EXTENSIONS, EXCLUDED_PATTERNS, include)
+    .map(fileName => path.resolve(fileName))
+    .sort();
+}
+
+/**
+ * Находит исходные файлы рабочей области. Если в корне есть tsconfig.json или jsconfig.json,
+ * учитываются его `include`, `exclude` и `files`; иначе проверяются все исходные файлы, кроме каталогов сборки.
+ * @param {string} rootPath - Абсолютный путь к корню рабочей области.
+ * @returns {string[]} Абсолютные пути файлов в порядке сортировки.
+ */
+export function findWorkspaceFiles(rootPath: string): string[] {
+  const configPath = findProjectConfig(rootPath);
+  const { config, error } = configPath ? ts.readConfigFile(configPath, ts.sys.readFile) : { config: undefined, error: undefined };
+  if (!configPath || error) {
+    return ts.sys.readDirectory(rootPath, SOURCE_EXTENSIONS, [...EXCLUDED_PATTERNS, ...BUILD_PATTERNS], ['**/*'])
+      .map(fileName => path.resolve(fileName))
+      .sort();
+  }
+
+  // JavaScript-файлы проверяются, даже если проект их не компилирует
+  const parsed = ts.parseJsonConfigFileContent(config, ts.sys, rootPath, { allowJs: true }, configPath);
+  return parsed.fileNames
+    .filter(fileName => SOURCE_EXTENSIONS.includes(path.extname(fileName)))
+    .map(fileName => path.resolve(fileName))
+    .sort();
+}
+
+/**
+ * Проверяет файлы проекта по загруженной спецификации.
+ * Файлы добавляются в программу языковой службы, поэтому значения проверяются и по типам TypeScript.
+ * @param {SpecRegistry} specRegistry - Реестр с загруженной спецификацией.
+ * @param {string} rootPath - Корень проекта (каталог tsconfig.json или jsconfig.json).
+ * @param {string[]} filePaths - Абсолютные пути проверяемых файлов.
+ * @param {RuleConfiguration} [rules] - Важность правил.
+ * @returns {FileDiagnostics[]} Диагностики каждого файла.
+ */
+export function lintFiles(specRegistry: SpecRegistry, rootPath: string, filePaths: string[], rules?: RuleConfiguration): FileDiagnostics[] {
+  const typeScriptService = new TypeScriptService({ all: () => [] });
+  typeScriptService.configure(rootPath);
+  typeScriptService.addFiles(filePaths);
+  const featureManager = createFeatureManager(specRegistry, typeScriptService, rules);
+
+  try {
+    return filePaths.map(filePath => {
+      const uri = pathToFileURL(filePath).toString();
+      const document = TextDocument.create(uri, getLanguageId(filePath), 0, fs.readFileSync(filePath, 'utf8'));
+      const sourceFile = typeScriptService.getSourceFile(uri) ??
+        ts.createSourceFile(filePath, document.getText(), ts.ScriptTarget.Latest, true);
+      return { filePath, document, diagnostics: collectDiagnostics(featureManager, sourceFile, document, rules) };
+    });
+  } finally {
+    typeScriptService.dispose();
+  }
+}
+
+/**
+ * Возвращает идентификатор языка LSP по расширению файла.
+ */
+export function getLanguageId(filePath: string): string {
+  switch (path.extname(filePath)) {
+    case '.ts': return 'typescript';
+    case '.tsx': return 'typescriptreact';
+    case '.jsx': return 'javascriptreact';
+    default: return 'javascript';
+  }
+}
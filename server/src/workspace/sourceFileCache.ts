@@ -0,0 +1,162 @@
+/**
+ * @module sourceFileCache
+ * @description Синтаксические деревья открытых документов с инкрементальным разбором.
+ * При инкрементальной синхронизации клиент присылает только измененные диапазоны текста;
+ * кэш запоминает их и перестраивает дерево через `ts.updateSourceFile`, а не разбирает файл заново.
+ * Те же диапазоны получает языковая служба TypeScript через снимки текста (`getChangeRange`).
+ */
+
+import * as ts from 'typescript';
+import { TextDocumentContentChangeEvent, TextDocumentsConfiguration } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+interface DocumentChange {
+  // Версия документа после изменения
+  version: number;
+  // Измененный диапазон; `undefined`, если текст заменен целиком
+  range?: ts.TextChangeRange;
+}
+
+interface DocumentEntry {
+  // Версия, начиная с которой история изменений полная
+  historyStart: number;
+  changes: DocumentChange[];
+  parsed?: { version: number, sourceFile: ts.SourceFile };
+  snapshot?: DocumentSnapshot;
+}
+
+/**
+ * Снимок текста документа для языковой службы TypeScript. Знает диапазон изменений относительно предыдущего снимка,
+ * поэтому языковая служба обновляет дерево документа инкрементально.
+ */
+class DocumentSnapshot implements ts.IScriptSnapshot {
+  constructor(
+    readonly version: number,
+    private readonly text: string,
+    private readonly previousVersion?: number,
+    private readonly changeRange?: ts.TextChangeRange
+  ) {}
+
+  getText(start: number, end: number): string {
+    return this.text.substring(start, end);
+  }
+
+  getLength(): number {
+    return this.text.length;
+  }
+
+  getChangeRange(oldSnapshot: ts.IScriptSnapshot): ts.TextChangeRange | undefined {
+    return oldSnapshot instanceof DocumentSnapshot && oldSnapshot.version === this.previousVersion ? this.changeRange : undefined;
+  }
+}
+
+/**
+ * Кэш синтаксических деревьев открытых документов.
+ * Служит конфигурацией `TextDocuments`: через него проходят открытие и все изменения документов.
+ */
+export class SourceFileCache implements TextDocumentsConfiguration<TextDocument> {
+  private readonly entries = new Map<string, DocumentEntry>();
+
+  create(uri: string, languageId: string, version: number, content: string): TextDocument {
+    this.entries.set(uri, { historyStart: version, changes: [] });
+    return TextDocument.create(uri, languageId, version, content);
+  }
+
+  update(document: TextDocument, changes: TextDocumentContentChangeEvent[], version: number): TextDocument {
+    const entry = this.getEntry(document);
+    for (const change of changes) {
+      // Смещения каждого изменения отсчитываются в тексте после предыдущих изменений
+      let range: ts.TextChangeRange | undefined;
+      if ('range' in change) {
+        const start = document.offsetAt(change.range.start);
+        const end = document.offsetAt(change.range.end);
+        range = ts.createTextChangeRange(ts.createTextSpan(start, end - start), change.text.length);
+      }
+      TextDocument.update(document, [change], version);
+      entry.changes.push({ version, range });
+    }
+    return document;
+  }
+
+  /**
+   * Возвращает синтаксическое дерево документа. Если известны изменения после предыдущего разбора,
+   * дерево обновляется инкрементально.
+   * @param {TextDocument} document - Документ.
+   * @returns {ts.SourceFile} Синтаксическое дерево текущей версии документа.
+   */
+  getSourceFile(document: TextDocument): ts.SourceFile {
+    const entry = this.getEntry(document);
+    const parsed = entry.parsed;
+    if (parsed?.version === document.version) {
+      return parsed.sourceFile;
+    }
+
+    const range = parsed && this.getChangeRange(entry, parsed.version, document.version);
+    const sourceFile = parsed && range
+      ? ts.updateSourceFile(parsed.sourceFile, document.getText(), range)
+      : ts.createSourceFile(document.uri, document.getText(), ts.ScriptTarget.Latest, true);
+    entry.parsed = { version: document.version, sourceFile };
+    this.pruneHistory(entry);
+    return sourceFile;
+  }
+
+  /**
+   * Возвращает снимок текста документа для языковой службы TypeScript.
+   * @param {TextDocument} document - Документ.
+   * @returns {ts.IScriptSnapshot} Снимок с диапазоном изменений относительно предыдущего снимка.
+   */
+  getSnapshot(document: TextDocument): ts.IScriptSnapshot {
+    const entry = this.getEntry(document);
+    if (entry.snapshot?.version === document.version) {
+      return entry.snapshot;
+    }
+
+    const previousVersion = entry.snapshot?.version;
+    const range = previousVersion !== undefined ? this.getChangeRange(entry, previousVersion, document.version) : undefined;
+    entry.snapshot = new DocumentSnapshot(document.version, document.getText(), previousVersion, range);
+    this.pruneHistory(entry);
+    return entry.snapshot;
+  }
+
+  /**
+   * Забывает документ (например, после закрытия).
+   * @param {string} uri - URI документа.
+   */
+  delete(uri: string): void {
+    this.entries.delete(uri);
+  }
+
+  private getEntry(document: TextDocument): DocumentEntry {
+    let entry = this.entries.get(document.uri);
+    if (!entry) {
+      entry = { historyStart: document.version, changes: [] };
+      this.entries.set(document.uri, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Объединяет изменения между двумя версиями в один диапазон.
+   * Возвращает `undefined`, если история неполная или текст заменялся целиком.
+   */
+  private getChangeRange(entry: DocumentEntry, fromVersion: number, toVersion: number): ts.TextChangeRange | undefined {
+    if (fromVersion < entry.historyStart) {
+      return undefined;
+    }
+    const changes = entry.changes.filter(change => change.version > fromVersion && change.version <= toVersion);
+    if (changes.length === 0 || changes.some(change => !change.range)) {
+      return undefined;
+    }
+    return ts.collapseTextChangeRangesAcrossMultipleVersions(changes.map(change => change.range!));
+  }
+
+  /**
+   * Удаляет изменения, которые уже учтены и в дереве, и в снимке.
+   */
+  private pruneHistory(entry: DocumentEntry): void {
+    const versions = [entry.parsed?.version, entry.snapshot?.version].filter((version): version is number => version !== undefined);
+    const appliedVersion = Math.min(...versions);
+    entry.changes = entry.changes.filter(change => change.version > appliedVersion);
+    entry.historyStart = Math.max(entry.historyStart, appliedVersion);
+  }
+}
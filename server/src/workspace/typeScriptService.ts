@@ -0,0 +1,215 @@
+/**
+ * @module typeScriptService
+ * @description Языковая служба TypeScript (`ts.LanguageService`) над файлами рабочей области.
+ * Учитывает tsconfig.json или jsconfig.json корня рабочей области и открытые в редакторе документы,
+ * поэтому модули функциональности могут получать объявленные и выведенные типы выражений через `ts.TypeChecker`.
+ */
+
+import * as ts from 'typescript';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { SourceFileCache } from './sourceFileCache';
+
+/**
+ * Источник открытых документов (например, `TextDocuments` языкового сервера).
+ */
+export interface DocumentSource {
+  all(): TextDocument[];
+}
+
+// Настройки компилятора, если в рабочей области нет tsconfig.json или jsconfig.json
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.CommonJS,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  allowJs: true,
+  checkJs: false,
+  strict: true,
+  noEmit: true
+};
+
+/**
+ * Языковая служба TypeScript для рабочей области.
+ * Программа пересобирается лениво: после изменения документа при следующем запросе исходного файла.
+ * Тексты открытых документов передаются через кэш деревьев, который знает измененные диапазоны.
+ * Изменения файлов на диске служба не отслеживает сама: о них сообщает `fileChanged`.
+ */
+export class TypeScriptService {
+  private readonly languageService: ts.LanguageService;
+  private compilerOptions: ts.CompilerOptions = DEFAULT_COMPILER_OPTIONS;
+  private projectFiles: string[] = [];
+  private currentDirectory = process.cwd();
+  // Версии закрытых файлов: увеличиваются при изменении файла на диске
+  private readonly diskVersions = new Map<string, number>();
+  // Увеличивается при изменении состава программы, настроек или файлов на диске
+  private projectVersion = 0;
+  // Открытые документы по именам файлов; обновляются в начале каждой синхронизации программы
+  private openDocuments = new Map<string, TextDocument>();
+
+  constructor(private readonly documents: DocumentSource, private readonly sourceFiles = new SourceFileCache()) {
+    const host: ts.LanguageServiceHost = {
+      getCompilationSettings: () => this.compilerOptions,
+      // Языковая служба запрашивает версию проекта перед каждой синхронизацией и пропускает ее, если версия не изменилась
+      getProjectVersion: () => {
+        this.openDocuments = this.collectOpenDocuments();
+        const documentVersions = [...this.openDocuments].map(([fileName, document]) => `${fileName}@${document.version}`);
+        return [this.projectVersion, ...documentVersions].join('|');
+      },
+      getScriptFileNames: () => [...new Set([...this.projectFiles, ...this.openDocuments.keys()])],
+      getScriptVersion: fileName => {
+        const document = this.openDocuments.get(fileName);
+        return document ? String(document.version) : `disk:${this.diskVersions.get(fileName) ?? 0}`;
+      },
+      getScriptSnapshot: fileName => {
+        // Снимки открытых документов знают измененный диапазон, поэтому их деревья обновляются инкрементально
+        const document = this.openDocuments.get(fileName);
+        if (document) {
+          return this.sourceFiles.getSnapshot(document);
+        }
+        const text = ts.sys.readFile(fileName);
+        return text !== undefined ? ts.ScriptSnapshot.fromString(text) : undefined;
+      },
+      getCurrentDirectory: () => this.currentDirectory,
+      getDefaultLibFileName: options => ts.getDefaultLibFilePath(options),
+      fileExists: fileName => this.openDocuments.has(fileName) || ts.sys.fileExists(fileName),
+      readFile: fileName => this.openDocuments.get(fileName)?.getText() ?? ts.sys.readFile(fileName),
+      readDirectory: ts.sys.readDirectory,
+      directoryExists: ts.sys.directoryExists,
+      getDirectories: ts.sys.getDirectories
+    };
+    this.languageService = ts.createLanguageService(host, ts.createDocumentRegistry());
+  }
+
+  /**
+   * Настраивает службу на корень рабочей области: читает tsconfig.json или jsconfig.json, если он есть.
+   * @param {string | undefined} rootPath - Абсолютный путь к корню рабочей области.
+   * @returns {string | undefined} Путь к найденному файлу настроек.
+   */
+  configure(rootPath: string | undefined): string | undefined {
+    this.currentDirectory = rootPath ?? process.cwd();
+    this.compilerOptions = DEFAULT_COMPILER_OPTIONS;
+    this.projectFiles = [];
+    this.projectVersion++;
+    if (!rootPath) {
+      return undefined;
+    }
+
+    const configPath = findProjectConfig(rootPath);
+    if (!configPath) {
+      return undefined;
+    }
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      return undefined;
+    }
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath), undefined, configPath);
+    // jsconfig.json подразумевает JavaScript-проект
+    const jsDefaults: ts.CompilerOptions = path.basename(configPath) === 'jsconfig.json' ? { allowJs: true } : {};
+    this.compilerOptions = { ...DEFAULT_COMPILER_OPTIONS, ...jsDefaults, ...parsed.options, noEmit: true };
+    this.projectFiles = parsed.fileNames;
+    return configPath;
+  }
+
+  /**
+   * Добавляет в программу файлы, которые не входят в проект tsconfig.json или jsconfig.json.
+   * @param {string[]} fileNames - Абсолютные пути файлов.
+   */
+  addFiles(fileNames: string[]): void {
+    const normalized = fileNames.map(fileName => fileName.replace(/\\/g, '/'));
+    this.projectFiles = [...new Set([...this.projectFiles, ...normalized])];
+    this.projectVersion++;
+  }
+
+  /**
+   * Убирает из программы файлы (например, удаленные с диска).
+   * @param {string[]} fileNames - Абсолютные пути файлов.
+   */
+  removeFiles(fileNames: string[]): void {
+    const removed = new Set(fileNames.map(fileName => fileName.replace(/\\/g, '/')));
+    this.projectFiles = this.projectFiles.filter(fileName => !removed.has(fileName));
+    this.projectVersion++;
+  }
+
+  /**
+   * Сообщает об изменении файла на диске: при следующем запросе программы файл будет прочитан заново.
+   * @param {string} fileName - Абсолютный путь файла.
+   */
+  fileChanged(fileName: string): void {
+    const normalized = fileName.replace(/\\/g, '/');
+    this.diskVersions.set(normalized, (this.diskVersions.get(normalized) ?? 0) + 1);
+    this.projectVersion++;
+  }
+
+  /**
+   * Возвращает исходный файл документа из текущей программы языковой службы.
+   * @param {string} uri - URI документа.
+   * @returns {ts.SourceFile | undefined} Исходный файл или `undefined`, если документ не входит в программу.
+   */
+  getSourceFile(uri: string): ts.SourceFile | undefined {
+    const fileName = toFileName(uri);
+    return fileName ? this.languageService.getProgram()?.getSourceFile(fileName) : undefined;
+  }
+
+  /**
+   * Возвращает исходный файл открытого документа для проверки по типам: из программы языковой службы, чтобы модули
+   * функциональности могли запрашивать типы его узлов, или, если документ не входит в программу, из кэша деревьев.
+   * Программа при этом пересобирается, поэтому для работы только с синтаксисом (подсказки, переход к определению)
+   * нужно дерево из `SourceFileCache`.
+   * @param {TextDocument} document - Документ.
+   * @returns {ts.SourceFile} Исходный файл документа.
+   */
+  getDocumentSourceFile(document: TextDocument): ts.SourceFile {
+    return this.getSourceFile(document.uri) ?? this.sourceFiles.getSourceFile(document);
+  }
+
+  /**
+   * Возвращает `TypeChecker` программы, которой принадлежит исходный файл.
+   * Для файлов, созданных вне языковой службы (например, `ts.createSourceFile`), возвращает `undefined`:
+   * типы их узлов программе неизвестны.
+   * @param {ts.SourceFile} sourceFile - Исходный файл.
+   * @returns {ts.TypeChecker | undefined} Средство проверки типов.
+   */
+  getTypeChecker(sourceFile: ts.SourceFile): ts.TypeChecker | undefined {
+    const program = this.languageService.getProgram();
+    return program?.getSourceFile(sourceFile.fileName) === sourceFile ? program.getTypeChecker() : undefined;
+  }
+
+  /**
+   * Освобождает ресурсы языковой службы.
+   */
+  dispose(): void {
+    this.languageService.dispose();
+  }
+
+  private collectOpenDocuments(): Map<string, TextDocument> {
+    const openDocuments = new Map<string, TextDocument>();
+    for (const document of this.documents.all()) {
+      const fileName = toFileName(document.uri);
+      if (fileName) {
+        openDocuments.set(fileName, document);
+      }
+    }
+    return openDocuments;
+  }
+}
+
+/**
+ * Находит файл настроек проекта (tsconfig.json или jsconfig.json) в корне рабочей области.
+ * @param {string} rootPath - Абсолютный путь к корню рабочей области.
+ * @returns {string | undefined} Путь к файлу настроек или `undefined`, если его нет.
+ */
+export function findProjectConfig(rootPath: string): string | undefined {
+  return ['tsconfig.json', 'jsconfig.json']
+    .map(name => path.join(rootPath, name))
+    .find(candidate => ts.sys.fileExists(candidate));
+}
+
+/**
+ * Переводит URI документа в путь, который использует языковая служба (с прямыми слешами).
+ */
+function toFileName(uri: string): string | undefined {
+  return uri.startsWith('file:') ? fileURLToPath(uri).replace(/\\/g, '/') : undefined;
+}
@@ -0,0 +1,230 @@
+/**
+ * @module workspaceDiagnostics
+ * @description Диагностики всех исходных файлов рабочей области, в том числе не открытых в редакторе.
+ * Индекс файлов строится при запуске сервера и обновляется по событиям файловой системы.
+ * Результаты проверки кэшируются вместе с идентификатором (`resultId`), чтобы на запросы диагностик
+ * от клиента (`textDocument/diagnostic`, `workspace/diagnostic`) можно было отвечать «без изменений».
+ */
+
+import * as ts from 'typescript';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { Diagnostic } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { FeatureManager } from '../features/feature';
+import { RuleConfiguration } from '../validation/rules';
+import { collectDiagnostics, findWorkspaceFiles, getLanguageId, SOURCE_EXTENSIONS } from './linter';
+import { DocumentSource, TypeScriptService } from './typeScriptService';
+
+/**
+ * Результат проверки файла.
+ * @property {string} uri - URI файла.
+ * @property {number | null} version - Версия открытого документа; `null` для файла, прочитанного с диска.
+ * @property {string} resultId - Идентификатор результата; не меняется, пока не меняются диагностики.
+ * @property {Diagnostic[]} diagnostics - Диагностики файла.
+ */
+export interface DiagnosticsReport {
+  uri: string;
+  version: number | null;
+  resultId: string;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Файл рабочей области, подготовленный к проверке.
+ * @property {string} key - Ключ входных данных проверки: поколение рабочей области и версия файла.
+ *   Пока ключ не меняется, результаты проверки файла можно не пересчитывать.
+ * @property {number | null} version - Версия открытого документа; `null` для файла, прочитанного с диска.
+ * @property {TextDocument} document - Документ файла.
+ * @property {ts.SourceFile} sourceFile - Синтаксическое дерево файла.
+ */
+export interface WorkspaceFile {
+  key: string;
+  version: number | null;
+  document: TextDocument;
+  sourceFile: ts.SourceFile;
+}
+
+interface CachedReport extends DiagnosticsReport {
+  key: string;
+}
+
+/**
+ * Индекс исходных файлов рабочей области с кэшем их диагностик.
+ */
+export class WorkspaceDiagnostics {
+  private rootPaths: string[] = [];
+  private readonly filePaths = new Set<string>();
+  private readonly reports = new Map<string, CachedReport>();
+  private readonly removedUris = new Set<string>();
+  // Увеличивается при изменениях, которые могут затронуть диагностики любого файла
+  private generation = 0;
+  private lastResultId = 0;
+
+  constructor(
+    private readonly documents: DocumentSource,
+    private readonly typeScriptService: TypeScriptService,
+    private readonly featureManager: FeatureManager,
+    private readonly rules: RuleConfiguration
+  ) {}
+
+  /**
+   * Находит исходные файлы в каталогах рабочей области и добавляет их в программу языковой службы,
+   * чтобы значения в закрытых файлах тоже проверялись по типам.
+   * Учитываются `include` и `exclude` tsconfig.json или jsconfig.json; без них пропускаются каталоги сборки.
+   * Вызывается после настройки языковой службы на корень рабочей области.
+   * @param {string[]} rootPaths - Абсолютные пути каталогов рабочей области.
+   * @returns {number} Количество найденных файлов.
+   */
+  scan(rootPaths: string[]): number {
+    this.rootPaths = rootPaths.map(rootPath => path.resolve(rootPath));
+    this.filePaths.clear();
+    for (const rootPath of this.rootPaths) {
+      findWorkspaceFiles(rootPath).forEach(filePath => this.filePaths.add(filePath));
+    }
+    this.typeScriptService.addFiles([...this.filePaths]);
+    this.invalidate();
+    return this.filePaths.size;
+  }
+
+  /**
+   * Обновляет индекс после создания, изменения или удаления файла на диске.
+   * @param {string} filePath - Абсолютный путь файла.
+   * @param {boolean} deleted - Файл удален.
+   * @returns {boolean} `true`, если файл — исходный файл рабочей области.
+   */
+  fileChanged(filePath: string, deleted: boolean): boolean {
+    const resolved = path.resolve(filePath);
+    // Программа может подключать и файлы вне индекса (например, объявления типов)
+    this.typeScriptService.fileChanged(resolved);
+    if (!this.isWorkspaceSourceFile(resolved)) {
+      return false;
+    }
+
+    const uri = pathToFileURL(resolved).toString();
+    if (deleted) {
+      this.filePaths.delete(resolved);
+      this.typeScriptService.removeFiles([resolved]);
+      this.reports.delete(uri);
+      this.removedUris.add(uri);
+    } else if (!this.filePaths.has(resolved)) {
+      this.filePaths.add(resolved);
+      this.typeScriptService.addFiles([resolved]);
+      this.removedUris.delete(uri);
+    }
+    // Сохраненный файл может менять типы, по которым проверяются другие файлы
+    this.invalidate();
+    return true;
+  }
+
+  /**
+   * Помечает все результаты устаревшими (например, после загрузки спецификации или изменения настроек).
+   * Файлы перепроверяются при следующем запросе их диагностик.
+   */
+  invalidate(): void {
+    this.generation++;
+  }
+
+  /**
+   * Возвращает URI всех проверяемых файлов: файлов рабочей области и открытых документов.
+   */
+  getUris(): string[] {
+    const uris = [...this.filePaths].map(filePath => pathToFileURL(filePath).toString());
+    return [...new Set([...uris, ...this.documents.all().map(document => document.uri)])];
+  }
+
+  /**
+   * Возвращает и забывает URI файлов, удаленных после предыдущего вызова:
+   * их диагностики нужно очистить у клиента.
+   */
+  takeRemovedUris(): string[] {
+    const uris = [...this.removedUris];
+    this.removedUris.clear();
+    return uris;
+  }
+
+  /**
+   * Возвращает диагностики файла, проверяя его заново, только если изменились входные данные.
+   * Несохраненные изменения открытого документа учитываются в проверках других файлов после сохранения.
+   * @param {string} uri - URI файла.
+   * @param {WorkspaceFile} [preparedFile] - Файл, уже полученный через `getFile` (например, на предыдущем этапе проверки).
+   * @returns {DiagnosticsReport | undefined} Результат или `undefined`, если файл не открыт и не найден на диске.
+   */
+  getReport(uri: string, preparedFile?: WorkspaceFile): DiagnosticsReport | undefined {
+    const cached = this.reports.get(uri);
+    if (cached && cached.key === this.getFileKey(uri)) {
+      return cached;
+    }
+    // Подготовленный файл устарел, если после его получения документ изменился
+    const file = preparedFile?.key === this.getFileKey(uri) ? preparedFile : this.getFile(uri);
+    if (!file) {
+      this.reports.delete(uri);
+      return undefined;
+    }
+
+    const diagnostics = collectDiagnostics(this.featureManager, file.sourceFile, file.document, this.rules);
+    const unchanged = cached !== undefined && JSON.stringify(cached.diagnostics) === JSON.stringify(diagnostics);
+    const report: CachedReport = {
+      uri,
+      version: file.version,
+      resultId: unchanged ? cached.resultId : String(++this.lastResultId),
+      diagnostics,
+      key: file.key
+    };
+    this.reports.set(uri, report);
+    return report;
+  }
+
+  /**
+   * Возвращает ключ входных данных проверки файла (см. `WorkspaceFile.key`), не читая файл.
+   * @param {string} uri - URI файла.
+   * @returns {string} Ключ.
+   */
+  getFileKey(uri: string): string {
+    const openDocument = this.documents.all().find(document => document.uri === uri);
+    if (openDocument) {
+      return `${this.generation}:open:${openDocument.version}`;
+    }
+    const filePath = uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+    return `${this.generation}:disk:${filePath ? ts.sys.getModifiedTime?.(filePath)?.getTime() ?? 0 : 0}`;
+  }
+
+  /**
+   * Возвращает файл для проверки: открытый документ или файл с диска.
+   * @param {string} uri - URI файла.
+   * @returns {WorkspaceFile | undefined} Файл или `undefined`, если документ не открыт и файла нет на диске.
+   */
+  getFile(uri: string): WorkspaceFile | undefined {
+    const openDocument = this.documents.all().find(document => document.uri === uri);
+    const filePath = uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+    const sourceFile = openDocument
+      ? this.typeScriptService.getDocumentSourceFile(openDocument)
+      : this.typeScriptService.getSourceFile(uri);
+    const text = openDocument?.getText() ?? sourceFile?.text ?? (filePath ? ts.sys.readFile(filePath) : undefined);
+    if (text === undefined) {
+      return undefined;
+    }
+    return {
+      key: this.getFileKey(uri),
+      version: openDocument ? openDocument.version : null,
+      document: openDocument ?? TextDocument.create(uri, getLanguageId(filePath ?? uri), 0, text),
+      sourceFile: sourceFile ?? ts.createSourceFile(filePath ?? uri, text, ts.ScriptTarget.Latest, true)
+    };
+  }
+
+  private isWorkspaceSourceFile(filePath: string): boolean {
+    if (this.filePaths.has(filePath)) {
+      return true;
+    }
+    if (!SOURCE_EXTENSIONS.includes(path.extname(filePath)) || filePath.split(path.sep).includes('node_modules')) {
+      return false;
+    }
+    // Новый файл проверяется, только если он попадает под правила выбора файлов своего корня
+    const rootPath = this.rootPaths.find(candidate => {
+      const relative = path.relative(candidate, filePath);
+      return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+    });
+    return rootPath !== undefined && findWorkspaceFiles(rootPath).includes(filePath);
+  }
+}